@@ -4,6 +4,11 @@
 import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import SceneManager from '@/components/scenes/SceneManager';
+import NadirPatchEditor from '@/components/tours/NadirPatchEditor';
+import EmbedSettingsEditor from '@/components/tours/EmbedSettingsEditor';
+import TourAudioEditor from '@/components/tours/TourAudioEditor';
+import TileQualityEditor from '@/components/tours/TileQualityEditor';
+import FloorPlanEditor from '@/components/tours/FloorPlanEditor';
 import VirtualTourViewer from '@/components/viewer/VirtualTourViewer';
 import { Tour, Scene, Hotspot, Overlay } from '@/types/tour';
 import { tourService } from '@/services/tourService';
@@ -227,6 +232,31 @@ export default function TourDetailsPage() {
                   Add and organize scenes for your virtual tour. Upload 360° images or videos to create immersive experiences.
                 </p>
               </div>
+              {tour && (
+                <div className="mb-6">
+                  <NadirPatchEditor tour={tour} onUpdate={setTour} />
+                </div>
+              )}
+              {tour && (
+                <div className="mb-6">
+                  <EmbedSettingsEditor tour={tour} onUpdate={setTour} />
+                </div>
+              )}
+              {tour && (
+                <div className="mb-6">
+                  <TourAudioEditor tour={tour} onUpdate={setTour} />
+                </div>
+              )}
+              {tour && (
+                <div className="mb-6">
+                  <TileQualityEditor tour={tour} onUpdate={setTour} />
+                </div>
+              )}
+              {tour && (
+                <div className="mb-6">
+                  <FloorPlanEditor tour={tour} scenes={scenes} onUpdate={setTour} />
+                </div>
+              )}
               <SceneManager
                 tourId={tourId}
                 scenes={scenes}
@@ -255,6 +285,7 @@ export default function TourDetailsPage() {
                   tour={tour}
                   scenes={scenes}
                   currentScene={selectedScene || scenes[0]}
+                  onTourUpdate={setTour}
                   onSceneChange={(sceneId) => {
                     const scene = scenes.find(s => s.id === sceneId);
                     if (scene) setSelectedScene(scene);
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTileJobStore } from '@/lib/tiling/job-store';
+import { getAuthorizedJob } from '@/lib/tiling/job-access';
+
+const POLL_INTERVAL_MS = 500;
+
+/**
+ * Server-Sent Events stream of job updates
+ * Polls the store so it works with any store implementation, and closes once
+ * the job reaches a terminal state
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  if (!await getAuthorizedJob(params.jobId, request.headers.get('Authorization'))) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+
+  const store = getTileJobStore();
+  const encoder = new TextEncoder();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  // Set once the client goes away - a poll in flight must not touch the stream after that
+  let closed = false;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let lastUpdatedAt = '';
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        if (timer) clearTimeout(timer);
+        controller.close();
+      };
+
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const poll = async () => {
+        if (closed) return;
+        try {
+          const job = await store.get(params.jobId);
+          if (closed) return;
+          if (!job) {
+            send('error', { error: 'Job not found' });
+            close();
+            return;
+          }
+
+          if (job.updatedAt !== lastUpdatedAt) {
+            lastUpdatedAt = job.updatedAt;
+            send('progress', job);
+          }
+
+          if (job.status === 'complete' || job.status === 'error') {
+            send('done', job);
+            close();
+            return;
+          }
+
+          timer = setTimeout(() => {
+            poll().catch((error) => console.error('Tile job event stream error:', error));
+          }, POLL_INTERVAL_MS);
+        } catch (error) {
+          console.error('Tile job event stream error:', error);
+          close();
+        }
+      };
+
+      poll().catch((error) => console.error('Tile job event stream error:', error));
+    },
+    cancel() {
+      closed = true;
+      if (timer) clearTimeout(timer);
+    },
+  });
+
+  request.signal.addEventListener('abort', () => {
+    closed = true;
+    if (timer) clearTimeout(timer);
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTileJobStore } from '@/lib/tiling/job-store';
+import { getAuthorizedJob } from '@/lib/tiling/job-access';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  const job = await getAuthorizedJob(params.jobId, request.headers.get('Authorization'));
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, job });
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const job = await getAuthorizedJob(params.jobId, request.headers.get('Authorization'));
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    await getTileJobStore().delete(params.jobId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete tile job error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete job' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTileJobStore } from '@/lib/tiling/job-store';
+import { getAuthorizedJob } from '@/lib/tiling/job-access';
+import { MAIN_IMAGE_KEY, SOURCE_FILE_KEY } from '@/lib/tiling/job-queue';
+import { contentTypeForKey } from '@/lib/tiling/sinks';
+
+/**
+ * Fetch the results of a completed job
+ * - ?key=<file> returns a single file as binary (e.g. main.jpg, l0_0_0.jpg)
+ * - otherwise lists the keys of the tiles and the patched main image, for the
+ *   client to fetch one by one
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const store = getTileJobStore();
+    const job = await getAuthorizedJob(params.jobId, request.headers.get('Authorization'));
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    const key = new URL(request.url).searchParams.get('key');
+    if (key) {
+      // The unpatched upload is never served back
+      if (key === SOURCE_FILE_KEY) {
+        return NextResponse.json({ error: 'File not found' }, { status: 404 });
+      }
+      const file = await store.getFile(params.jobId, key);
+      if (!file) {
+        return NextResponse.json({ error: 'File not found' }, { status: 404 });
+      }
+      return new NextResponse(new Uint8Array(file), {
+        headers: { 'Content-Type': contentTypeForKey(key) },
+      });
+    }
+
+    if (job.status !== 'complete') {
+      return NextResponse.json({ error: `Job is ${job.status}` }, { status: 409 });
+    }
+
+    const files = await store.listFiles(params.jobId);
+    const keys = files.filter((fileKey) => fileKey !== SOURCE_FILE_KEY && fileKey !== MAIN_IMAGE_KEY);
+
+    return NextResponse.json({
+      success: true,
+      mainImageKey: files.includes(MAIN_IMAGE_KEY) ? MAIN_IMAGE_KEY : undefined,
+      keys,
+      count: keys.length
+    });
+  } catch (error) {
+    console.error('Fetch tile job results error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch results' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { submitTileJob } from '@/lib/tiling/job-queue';
+import { parseTilingOptions } from '@/lib/tiling/options';
+import { authorizeSceneWrite, loadSceneSettings } from '@/lib/tiling/scene-settings';
+import { parseSceneId, parseTourId } from '@/lib/tiling/sinks';
+import type { TilingOptions } from '@/lib/tiling/types';
+
+// frontend/app/api/process-image/jobs/route.ts
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+    // 'storage' writes tiles straight to object storage instead of the job store
+    const destination = formData.get('destination') === 'storage' ? 'storage' : 'job';
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    let tourId: string;
+    let sceneId: string;
+    let tiling: TilingOptions;
+    try {
+      tourId = parseTourId(formData);
+      sceneId = parseSceneId(formData);
+      tiling = parseTilingOptions(formData);
+    } catch (error) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+
+    // Branding and redactions come from the stored tour and scene, never from the request
+    const authorization = request.headers.get('Authorization');
+    const settings = await loadSceneSettings(tourId, sceneId, authorization);
+    if (!settings) {
+      return NextResponse.json({ error: 'Scene not found' }, { status: 403 });
+    }
+    // The job overwrites the scene's private original and (for storage) its published files
+    if (!await authorizeSceneWrite(sceneId, authorization)) {
+      return NextResponse.json({ error: 'Not allowed to change this scene' }, { status: 403 });
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const job = await submitTileJob(buffer, tourId, sceneId, {
+      destination,
+      cubemap: formData.get('cubemap') === 'true',
+      tiling,
+      nadirPatch: settings.nadirPatch,
+      redactions: settings.redactions
+    });
+
+    return NextResponse.json({ success: true, jobId: job.id, job }, { status: 202 });
+  } catch (error) {
+    console.error('Submit tile job error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to submit tile job' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
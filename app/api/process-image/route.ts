@@ -1,22 +1,45 @@
 import { NextRequest, NextResponse } from 'next/server';
 import sharp from 'sharp';
+import { generateCubemapTiles, writeCubemapManifest } from '@/lib/tiling/cubemap';
+import { buildTilesManifest } from '@/lib/tiling/manifest';
+import { applyPolePatches } from '@/lib/tiling/nadir';
+import { parseTilingOptions } from '@/lib/tiling/options';
+import { loadSceneOriginal, saveSceneOriginal } from '@/lib/tiling/originals';
+import { MAX_PANORAMA_WIDTH, padPanorama, validatePanorama } from '@/lib/tiling/panorama';
+import { generateAdvancedTiles } from '@/lib/tiling/pyramid';
+import { parseRedactions, redactPanorama, redactSceneTiles } from '@/lib/tiling/redaction';
+import { authorizeSceneWrite, loadSceneSettings, saveScene } from '@/lib/tiling/scene-settings';
+import { createStorageSink, deletePublishedFile, MemoryTileSink, parseSceneId, parseTourId } from '@/lib/tiling/sinks';
+import type { TilesManifest } from '@/lib/tiling/types';
 
 // frontend/app/api/process-image/route.ts
-interface TileInfo {
-  level: number;
-  row: number;
-  col: number;
-  key: string;
-  buffer: Buffer;
-}
 
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
     const operation = formData.get('operation') as string;
-    const sceneId = formData.get('sceneId') as string;
     
-    if (operation === 'process') {
+    // Scene ids end up in storage keys and file paths
+    let sceneId = '';
+    if (operation !== 'validate') {
+      try {
+        sceneId = parseSceneId(formData);
+      } catch (error) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+      }
+    }
+    
+    if (operation === 'validate') {
+      // Report what the 'process' operation would do with this image
+      const file = formData.get('file') as File;
+      if (!file) {
+        return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+      }
+      
+      const validation = await validatePanorama(Buffer.from(await file.arrayBuffer()));
+      return NextResponse.json({ success: true, validation });
+      
+    } else if (operation === 'process') {
       // Process the main image
       const file = formData.get('file') as File;
       if (!file) {
@@ -24,7 +47,14 @@ export async function POST(request: NextRequest) {
       }
       
       const bytes = await file.arrayBuffer();
-      const buffer = Buffer.from(bytes);
+      let buffer: Buffer = Buffer.from(bytes);
+      
+      // repair=pad places a partial panorama on its full canvas using the GPano crop data
+      const validation = await validatePanorama(buffer);
+      if (formData.get('repair') === 'pad' && validation.repair) {
+        console.log('Padding partial panorama:', validation.repair);
+        buffer = await padPanorama(buffer, validation.repair);
+      }
       
       // Get metadata
       const metadata = await sharp(buffer).metadata();
@@ -40,7 +70,7 @@ export async function POST(request: NextRequest) {
       
       // Ensure 2:1 aspect ratio
       if (targetWidth / targetHeight !== 2) {
-        targetWidth = Math.min(16384, targetWidth); // Support up to 16K
+        targetWidth = Math.min(MAX_PANORAMA_WIDTH, targetWidth); // Support up to 16K
         targetHeight = targetWidth / 2;
       }
       
@@ -67,7 +97,8 @@ export async function POST(request: NextRequest) {
         data: base64,
         size: processedImage.length,
         dimensions: `${targetWidth}x${targetHeight}`,
-        originalDimensions: `${originalWidth}x${originalHeight}`
+        originalDimensions: `${originalWidth}x${originalHeight}`,
+        validation
       });
       
     } else if (operation === 'tiles') {
@@ -77,8 +108,33 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ error: 'No file provided' }, { status: 400 });
       }
       
+      // levels / tileSize / maxResolution (defaults match the original 3-level pyramid)
+      let tiling;
+      let tourId;
+      try {
+        tiling = parseTilingOptions(formData);
+        tourId = parseTourId(formData);
+      } catch (error) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+      }
+      
+      const authorization = request.headers.get('Authorization');
+      const settings = await loadSceneSettings(tourId, sceneId, authorization);
+      if (!settings) {
+        return NextResponse.json({ error: 'Scene not found' }, { status: 403 });
+      }
+      // Reading the scene isn't enough to overwrite what's published for it
+      if (!await authorizeSceneWrite(sceneId, authorization)) {
+        return NextResponse.json({ error: 'Not allowed to change this scene' }, { status: 403 });
+      }
+      
       const bytes = await file.arrayBuffer();
-      const buffer = Buffer.from(bytes);
+      // Tour branding over the tripod/zenith goes in before anything is tiled
+      const patched = await applyPolePatches(Buffer.from(bytes), settings.nadirPatch, tourId);
+      // Kept privately so redactions can be re-rendered from unblurred pixels later
+      await saveSceneOriginal(sceneId, patched);
+      // Published with the scene's existing redactions already blurred in
+      const buffer = await redactPanorama(patched, settings.redactions);
       
       // Get image metadata
       const metadata = await sharp(buffer).metadata();
@@ -89,20 +145,177 @@ export async function POST(request: NextRequest) {
       console.log(`\n=== Advanced Tile Generation [${new Date().toISOString()}] ===`);
       console.log(`Image dimensions: ${originalWidth}x${originalHeight}`);
       
-      const tiles = await generateAdvancedTiles(buffer, originalWidth, originalHeight, sceneId);
+      // destination=storage writes each tile straight to object storage and
+      // returns only the manifest, so the client doesn't have to re-upload anything
+      const withCubemap = formData.get('cubemap') === 'true';
+      
+      if (formData.get('destination') === 'storage') {
+        const storageSink = createStorageSink(`scenes/${sceneId}/tiles`);
+        const pyramid = await generateAdvancedTiles(buffer, originalWidth, originalHeight, sceneId, {
+          sink: storageSink,
+          tiling
+        });
+        const mainImageUrl = await createStorageSink(`scenes/${sceneId}`)
+          .write(`pano_${Date.now()}.jpg`, buffer, 'image/jpeg');
+        const previewUrl = pyramid.tiles.find(tile => tile.key === 'preview.jpg')?.url;
+        
+        let cubemapManifestUrl: string | undefined;
+        if (withCubemap) {
+          const cubemap = await generateCubemapTiles(buffer, originalWidth, {
+            sink: storageSink,
+            tileSize: pyramid.tileSize
+          });
+          cubemapManifestUrl = await writeCubemapManifest(storageSink, cubemap.manifest);
+        }
+        
+        console.log(`Total tiles generated: ${pyramid.tiles.length}`);
+        
+        return NextResponse.json({
+          success: true,
+          manifest: buildTilesManifest(pyramid, previewUrl, settings.redactions),
+          mainImageUrl,
+          cubemapManifestUrl,
+          count: pyramid.tiles.length
+        });
+      }
+      
+      const sink = new MemoryTileSink();
+      const pyramid = await generateAdvancedTiles(buffer, originalWidth, originalHeight, sceneId, { sink, tiling });
+      if (withCubemap) {
+        const cubemap = await generateCubemapTiles(buffer, originalWidth, { sink, tileSize: pyramid.tileSize });
+        await writeCubemapManifest(sink, cubemap.manifest);
+      }
       
-      console.log(`Total tiles generated: ${tiles.length}`);
+      console.log(`Total tiles generated: ${pyramid.tiles.length}`);
       
       // Convert tiles to the format expected by AdvancedSceneUploader
       const tilesObject: Record<string, string> = {};
-      tiles.forEach(tile => {
-        tilesObject[tile.key] = tile.buffer.toString('base64');
+      sink.files.forEach((tileBuffer, key) => {
+        tilesObject[key] = tileBuffer.toString('base64');
       });
       
       return NextResponse.json({
         success: true,
         tiles: tilesObject,
-        count: tiles.length
+        manifest: buildTilesManifest(pyramid, undefined, settings.redactions),
+        count: sink.files.size
+      });
+      
+    } else if (operation === 'publish') {
+      // Main image of a scene published without tiles - patched and redacted like tiled uploads
+      const file = formData.get('file') as File;
+      if (!file) {
+        return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+      }
+      
+      let tourId;
+      try {
+        tourId = parseTourId(formData);
+      } catch (error) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+      }
+      
+      const authorization = request.headers.get('Authorization');
+      const settings = await loadSceneSettings(tourId, sceneId, authorization);
+      if (!settings) {
+        return NextResponse.json({ error: 'Scene not found' }, { status: 403 });
+      }
+      // Reading the scene isn't enough to overwrite what's published for it
+      if (!await authorizeSceneWrite(sceneId, authorization)) {
+        return NextResponse.json({ error: 'Not allowed to change this scene' }, { status: 403 });
+      }
+      
+      const patched = await applyPolePatches(Buffer.from(await file.arrayBuffer()), settings.nadirPatch, tourId);
+      await saveSceneOriginal(sceneId, patched);
+      const mainImageUrl = await createStorageSink(`scenes/${sceneId}`)
+        .write(`pano_${Date.now()}.jpg`, await redactPanorama(patched, settings.redactions), 'image/jpeg');
+      
+      return NextResponse.json({ success: true, mainImageUrl });
+      
+    } else if (operation === 'redact') {
+      // Blur regions out of an already published scene, re-rendering only the tiles they touch
+      let tourId;
+      let regions;
+      try {
+        tourId = parseTourId(formData);
+        regions = parseRedactions(formData.get('redactions')?.toString());
+      } catch (error) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+      }
+      
+      const authorization = request.headers.get('Authorization');
+      const settings = await loadSceneSettings(tourId, sceneId, authorization);
+      if (!settings) {
+        return NextResponse.json({ error: 'Scene not found' }, { status: 403 });
+      }
+      
+      // The stored manifest records which regions are blurred into the published tiles
+      const stored = settings.scene.tiles_manifest;
+      let manifest: TilesManifest | null = null;
+      try {
+        manifest = typeof stored === 'string' ? JSON.parse(stored) : stored;
+      } catch {
+        /* reported below */
+      }
+      if (!manifest || manifest.type !== 'multires' || !Array.isArray(manifest.tiles)) {
+        return NextResponse.json({ error: 'This scene has no multires tiles to redact' }, { status: 409 });
+      }
+      
+      const original = await loadSceneOriginal(sceneId);
+      if (!original) {
+        return NextResponse.json(
+          { error: 'The unredacted original of this scene is not available - re-upload the image to enable redaction' },
+          { status: 409 }
+        );
+      }
+      
+      // Removing a region un-blurs published pixels, so the backend has to accept
+      // the caller as an editor before anything is re-rendered
+      if (!await authorizeSceneWrite(sceneId, authorization)) {
+        return NextResponse.json({ error: 'You are not allowed to change this scene' }, { status: 403 });
+      }
+      
+      const storageSink = createStorageSink(`scenes/${sceneId}/tiles`);
+      let redacted;
+      try {
+        redacted = await redactSceneTiles(original, regions, manifest, sceneId, storageSink);
+      } catch (error) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 409 });
+      }
+      
+      // The published main image is replaced by the redacted one as well
+      const mainImageUrl = await createStorageSink(`scenes/${sceneId}`)
+        .write(`pano_${Date.now()}.jpg`, redacted.source, 'image/jpeg');
+      
+      let cubemapManifestUrl: string | undefined;
+      if (settings.scene.cubemap_manifest_url) {
+        const { width = 4096 } = await sharp(redacted.source).metadata();
+        const cubemap = await generateCubemapTiles(redacted.source, width, {
+          sink: storageSink,
+          tileSize: manifest.tileSize
+        });
+        cubemapManifestUrl = await writeCubemapManifest(storageSink, cubemap.manifest);
+      }
+      
+      // The regions are only recorded together with the tiles that show them
+      const scene = await saveScene(sceneId, {
+        redactions_json: regions.length ? JSON.stringify(regions) : '',
+        tiles_manifest: JSON.stringify(redacted.manifest),
+        src_original_url: mainImageUrl,
+        ...(cubemapManifestUrl ? { cubemap_manifest_url: cubemapManifestUrl } : {})
+      }, authorization);
+      if (!scene) {
+        throw new Error('Failed to save the redacted scene');
+      }
+      // The previous main image still shows whatever was just blurred
+      await deletePublishedFile(`scenes/${sceneId}`, settings.scene.src_original_url);
+      
+      console.log(`Redacted ${regions.length} region(s): ${redacted.tileCount} files re-rendered`);
+      
+      return NextResponse.json({
+        success: true,
+        scene,
+        count: redacted.tileCount
       });
     }
     
@@ -117,197 +330,5 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function generateAdvancedTiles(
-  buffer: Buffer,
-  originalWidth: number,
-  originalHeight: number,
-  sceneId: string
-): Promise<TileInfo[]> {
-  // Dynamic tile size based on image size
-  // Larger images need larger tiles to avoid too many tiles
-  let tileSize = 512;
-  if (originalWidth > 8192) {
-    tileSize = 1024; // Use 1024x1024 tiles for very large images
-  }
-  console.log(`Using tile size: ${tileSize}x${tileSize}`);
-  
-  const tiles: TileInfo[] = [];
-  
-  // Generate preview first (fast)
-  // Apply nadir patch if needed (fill bottom area)
-  const preview = await sharp(buffer)
-    .resize(512, 256, { fit: 'fill' })
-    .jpeg({ quality: 70 })
-    .toBuffer();
-  
-  tiles.push({
-    level: -1,
-    row: 0,
-    col: 0,
-    key: 'preview.jpg',
-    buffer: preview
-  });
-  
-  // Dynamic 3-level pyramid based on original image size
-  // Ensure proper 2:1 aspect ratio for 360 panoramas
-  const baseWidth = Math.min(originalWidth, 12288); // Cap at 12K max
-  const baseHeight = baseWidth / 2;
-  
-  // Calculate scale factors for each level
-  const levels = [
-    {
-      level: 0,
-      width: Math.round(baseWidth / 4), // Lowest res: 1/4 of base
-      height: Math.round(baseHeight / 4),
-      scale: 4
-    },
-    {
-      level: 1,
-      width: Math.round(baseWidth / 2), // Medium res: 1/2 of base
-      height: Math.round(baseHeight / 2),
-      scale: 2
-    },
-    {
-      level: 2,
-      width: baseWidth, // Full res
-      height: baseHeight,
-      scale: 1
-    }
-  ];
-  
-  console.log(`Image ${originalWidth}x${originalHeight} → Levels:`, levels);
-  
-  console.log(`\\nGenerating ${levels.length} resolution levels for optimal 360° panorama:`);
-  
-  // Generate tiles for each level
-  for (const levelConfig of levels) {
-    const { level, width: levelWidth, height: levelHeight, scale } = levelConfig;
-    
-    const cols = Math.ceil(levelWidth / tileSize);
-    const rows = Math.ceil(levelHeight / tileSize);
-    const totalTiles = cols * rows;
-    
-    console.log(`  Level ${level}: ${levelWidth}x${levelHeight} px, ${cols}x${rows} tiles (${tileSize}x${tileSize} each) = ${totalTiles} tiles total`);
-    
-    // Resize image for this level
-    // For highest level, use original if dimensions match
-    let levelImage;
-    if (level === 2 && levelWidth >= originalWidth * 0.9) {
-      // Use original for highest level to preserve quality
-      levelImage = buffer;
-      console.log(`    Using original image for level ${level}`);
-    } else {
-      // Resize for lower levels
-      levelImage = await sharp(buffer)
-        .resize(levelWidth, levelHeight, {
-          fit: 'fill',
-          kernel: sharp.kernel.lanczos3, // High quality resizing
-          withoutEnlargement: true // Don't enlarge beyond original
-        })
-        .jpeg({ 
-          quality: 100, // Maximum quality for resized levels
-          chromaSubsampling: '4:4:4'
-        })
-        .toBuffer();
-    }
-    
-    console.log(`    Resized to ${levelWidth}x${levelHeight} for level ${level}`);
-    
-    // Generate tiles for this level in parallel batches
-    const tilePromises = [];
-    
-    for (let row = 0; row < rows; row++) {
-      for (let col = 0; col < cols; col++) {
-        const x = col * tileSize;
-        const y = row * tileSize;
-        const w = Math.min(tileSize, levelWidth - x);
-        const h = Math.min(tileSize, levelHeight - y);
-        
-        // Create promise for each tile
-        const tilePromise = (async () => {
-          let tileBuffer;
-          if (w === tileSize && h === tileSize) {
-            // Full tile
-            tileBuffer = await sharp(levelImage)
-              .extract({
-                left: x,
-                top: y,
-                width: w,
-                height: h
-              })
-              .jpeg({
-                quality: 98, // Very high quality to minimize artifacts
-                progressive: false, // Disable progressive for better color accuracy
-                mozjpeg: false, // Disable mozjpeg which can cause color shifts
-                chromaSubsampling: '4:4:4', // Best color quality
-                force: true
-              })
-              .toBuffer();
-          } else {
-            // Edge tile - only extract what's available, no padding
-            // This prevents white/black borders on edge tiles
-            console.log(`Edge tile at [${row},${col}]: ${w}x${h}`);
-            
-            // Just extract the partial tile without resizing
-            // The viewer will handle partial tiles correctly
-            tileBuffer = await sharp(levelImage)
-              .extract({
-                left: x,
-                top: y,
-                width: w,
-                height: h
-              })
-              .jpeg({
-                quality: 98, // Very high quality to minimize artifacts
-                progressive: false, // Disable progressive for better color accuracy
-                mozjpeg: false, // Disable mozjpeg which can cause color shifts
-                chromaSubsampling: '4:4:4', // Best color quality
-                force: true
-              })
-              .toBuffer();
-          }
-          
-          return {
-            level,
-            row,
-            col,
-            key: `l${level}_${row}_${col}.jpg`,
-            buffer: tileBuffer
-          };
-        })();
-        
-        tilePromises.push(tilePromise);
-      }
-    }
-    
-    // Process tiles in parallel (batch of 10 at a time to avoid memory issues)
-    const batchSize = 10;
-    for (let i = 0; i < tilePromises.length; i += batchSize) {
-      const batch = tilePromises.slice(i, i + batchSize);
-      const batchResults = await Promise.all(batch);
-      tiles.push(...batchResults);
-    }
-    
-    console.log(`    Generated ${tilePromises.length} tiles for level ${level}`);
-  }
-  
-  // Log summary
-  const tileCounts = new Map<number, number>();
-  tiles.forEach(tile => {
-    if (tile.level >= 0) {
-      tileCounts.set(tile.level, (tileCounts.get(tile.level) || 0) + 1);
-    }
-  });
-  
-  console.log('\nTile generation summary:');
-  tileCounts.forEach((count, level) => {
-    console.log(`  Level ${level}: ${count} tiles`);
-  });
-  console.log(`  Preview: 1 file`);
-  console.log(`  Total: ${tiles.length} files`);
-  
-  return tiles;
-}
-
 export const runtime = 'nodejs';
 export const maxDuration = 60;
\ No newline at end of file
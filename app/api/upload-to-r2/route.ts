@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
+import { SCENE_CACHE_CONTROL } from '@/lib/tiling/sinks';
 
 // R2 configuration
 const R2_ACCOUNT_ID = process.env.NEXT_PUBLIC_R2_ACCOUNT_ID;
@@ -68,8 +69,8 @@ export async function PUT(request: NextRequest) {
         Key: key,
         Body: buffer,
         ContentType: contentType,
-        // Add cache control for public assets
-        CacheControl: 'public, max-age=31536000',
+        // Add cache control for public assets (scene files are overwritten in place)
+        CacheControl: key.startsWith('scenes/') ? SCENE_CACHE_CONTROL : 'public, max-age=31536000',
       });
 
       await s3Client.send(command);
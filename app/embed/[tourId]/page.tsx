@@ -0,0 +1,190 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useParams } from 'next/navigation';
+import MultiresViewer, { type MultiresViewerHandle } from '@/components/viewer/MultiresViewer';
+import { getHotspotTargetSceneId } from '@/components/viewer/multires/hotspots';
+import { Tour, Scene, Hotspot } from '@/types/tour';
+import type { EmbedCommand, EmbedEvent } from '@/types/embed';
+import { createEmbedMessage, isOriginAllowed, normalizeOrigin, parseEmbedCommand, parseEmbedOrigins } from '@/lib/embed';
+import { parseTileQuality } from '@/lib/multires-utils';
+
+type SceneWithHotspots = Scene & { hotspots?: Hotspot[] };
+
+// Origin of the page framing us, when the browser tells us before it sends anything
+function detectParentOrigin(): string | null {
+  const ancestor = window.location.ancestorOrigins?.[0];
+  if (ancestor) return normalizeOrigin(ancestor);
+  return document.referrer ? normalizeOrigin(document.referrer) : null;
+}
+
+export default function EmbedTourPage() {
+  const params = useParams();
+  const tourId = params.tourId as string;
+
+  const [tour, setTour] = useState<Tour | null>(null);
+  const [scenes, setScenes] = useState<Scene[]>([]);
+  const [hotspots, setHotspots] = useState<Hotspot[]>([]);
+  const [currentSceneId, setCurrentSceneId] = useState<string | null>(null);
+  const [autoplay, setAutoplay] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const viewerRef = useRef<MultiresViewerHandle>(null);
+  // Events only ever go to an allowlisted parent origin, never '*'
+  const parentOriginRef = useRef<string | null>(null);
+  const allowlistRef = useRef<string[]>([]);
+  // Last scene the host was told about ('ready' covers the first)
+  const announcedSceneIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/public/tours/${tourId}`);
+        if (!response.ok) {
+          throw new Error(response.status === 403 ? 'This tour is not published' : 'Tour not found');
+        }
+        const data: { tour: Tour; scenes: SceneWithHotspots[] } = await response.json();
+        if (cancelled) return;
+
+        allowlistRef.current = parseEmbedOrigins(data.tour);
+        const parentOrigin = window.parent !== window ? detectParentOrigin() : null;
+        parentOriginRef.current = parentOrigin && isOriginAllowed(parentOrigin, allowlistRef.current)
+          ? parentOrigin
+          : null;
+
+        setTour(data.tour);
+        setScenes(data.scenes);
+        setHotspots(data.scenes.flatMap((scene) => scene.hotspots ?? []));
+        setCurrentSceneId(data.scenes[0]?.id ?? null);
+        setAutoplay(!!data.tour.autoplay_enabled);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unable to load virtual tour');
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [tourId]);
+
+  const postEvent = useCallback((event: EmbedEvent) => {
+    const origin = parentOriginRef.current;
+    if (!origin) return;
+    window.parent.postMessage(createEmbedMessage(event), origin);
+  }, []);
+
+  const handleCommand = useCallback((command: EmbedCommand) => {
+    switch (command.type) {
+      case 'goToScene':
+        if (scenes.some((scene) => scene.id === command.sceneId)) {
+          setCurrentSceneId(command.sceneId);
+        } else {
+          postEvent({ type: 'error', message: `Unknown scene ${command.sceneId}` });
+        }
+        break;
+      case 'setView':
+        viewerRef.current?.setView(command.view);
+        break;
+      case 'startAutoplay':
+        setAutoplay(true);
+        break;
+      case 'stopAutoplay':
+        setAutoplay(false);
+        break;
+      case 'getState': {
+        const view = viewerRef.current?.getView();
+        if (view && currentSceneId) postEvent({ type: 'state', sceneId: currentSceneId, view, autoplay });
+        break;
+      }
+    }
+  }, [scenes, currentSceneId, autoplay, postEvent]);
+
+  useEffect(() => {
+    if (!tour || window.parent === window) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent) return;
+      const command = parseEmbedCommand(event.data);
+      if (!command || !isOriginAllowed(event.origin, allowlistRef.current)) return;
+      // Browsers that don't expose the parent origin up front learn it here
+      parentOriginRef.current ??= event.origin;
+      if (parentOriginRef.current !== event.origin) return;
+      handleCommand(command);
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [tour, handleCommand]);
+
+  useEffect(() => {
+    if (!tour || !currentSceneId || announcedSceneIdRef.current) return;
+    announcedSceneIdRef.current = currentSceneId;
+    postEvent({
+      type: 'ready',
+      tourId: tour.id,
+      sceneId: currentSceneId,
+      scenes: scenes.map((scene) => ({ id: scene.id, name: scene.name })),
+    });
+  }, [tour, scenes, currentSceneId, postEvent]);
+
+  // Reports scene changes, and follows the ones the viewer asks for (autoplay)
+  const handleSceneChange = useCallback((sceneId: string) => {
+    setCurrentSceneId(sceneId);
+    if (!announcedSceneIdRef.current || sceneId === announcedSceneIdRef.current) return;
+    announcedSceneIdRef.current = sceneId;
+    const scene = scenes.find((candidate) => candidate.id === sceneId);
+    if (scene) postEvent({ type: 'sceneChange', sceneId, sceneName: scene.name });
+  }, [scenes, postEvent]);
+
+  const handleHotspotClick = useCallback((hotspot: Hotspot) => {
+    const targetSceneId = getHotspotTargetSceneId(hotspot);
+    postEvent({
+      type: 'hotspotClick',
+      hotspotId: hotspot.id ?? null,
+      kind: hotspot.kind,
+      sceneId: hotspot.scene_id,
+      targetSceneId,
+    });
+    if (targetSceneId && scenes.some((scene) => scene.id === targetSceneId)) {
+      setCurrentSceneId(targetSceneId);
+    }
+  }, [scenes, postEvent]);
+
+  const currentScene = scenes.find((scene) => scene.id === currentSceneId);
+
+  if (error || (tour && !currentScene)) {
+    return (
+      <div className="flex items-center justify-center h-screen bg-black text-sm text-gray-400">
+        {error || 'No scenes in this tour yet'}
+      </div>
+    );
+  }
+
+  if (!tour || !currentScene) {
+    return (
+      <div className="flex items-center justify-center h-screen bg-black">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-white"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative w-full h-screen bg-black overflow-hidden">
+      <MultiresViewer
+        ref={viewerRef}
+        tour={tour}
+        currentScene={currentScene}
+        scenes={scenes}
+        onSceneChange={handleSceneChange}
+        onHotspotClick={handleHotspotClick}
+        isEditMode={false}
+        hotspots={hotspots.filter((hotspot) => hotspot.scene_id === currentScene.id)}
+        autoplay={autoplay}
+        quality={parseTileQuality(tour.tile_quality)}
+      />
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import MultiresViewer from '@/components/viewer/MultiresViewer';
 import { Tour, Scene, Hotspot } from '@/types/tour';
+import { parseTileQuality } from '@/lib/multires-utils';
 
 export default function PublicViewerPage() {
   const params = useParams();
@@ -201,6 +202,8 @@ export default function PublicViewerPage() {
         onHotspotClick={handleHotspotClick}
         isEditMode={false}
         hotspots={hotspots.filter(h => h.scene_id === currentScene.id)}
+        quality={parseTileQuality(tour.tile_quality)}
+        floorPlanClassName="top-48 right-4"
       />
 
       {/* Info panel */}
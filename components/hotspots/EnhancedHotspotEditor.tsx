@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useRef } from 'react';
-import { Hotspot } from '@/types/tour';
+import { Hotspot, SceneTransitionStyle } from '@/types/tour';
 
 // Define proper types for the hotspot payloads
 type HotspotPayload = {
@@ -13,7 +13,7 @@ type HotspotPayload = {
   iconType?: 'predefined' | 'custom';
   customIconUrl?: string;
   targetSceneId?: string;
-  transition?: string;
+  transition?: SceneTransitionStyle;
   title?: string;
   text?: string;
   imageSource?: 'url' | 'upload' | 'library';
@@ -304,14 +304,13 @@ export default function EnhancedHotspotEditor({
                 value={formData.payload?.transition || 'fade'}
                 onChange={(e) => setFormData({
                   ...formData,
-                  payload: { ...formData.payload, transition: e.target.value }
+                  payload: { ...formData.payload, transition: e.target.value as SceneTransitionStyle }
                 })}
                 className="w-full px-3 py-2 border rounded-md"
               >
-                <option value="fade">Fade</option>
-                <option value="slide">Slide</option>
-                <option value="zoom">Zoom</option>
-                <option value="none">None</option>
+                <option value="fade">Cross-dissolve</option>
+                <option value="zoom">Walk-through zoom</option>
+                <option value="cut">Cut</option>
               </select>
             </div>
           </>
@@ -0,0 +1,269 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import { RedactionRegion, Scene, SpherePoint } from '@/types/tour';
+import { redactScene } from '@/lib/image-processor';
+import type { TilesManifest } from '@/lib/tiling/types';
+
+interface RedactionEditorProps {
+  scene: Scene;
+  onUpdate?: (scene: Scene) => void;
+}
+
+type Tool = 'rect' | 'polygon';
+
+// Drags smaller than this (degrees) are treated as stray clicks
+const MIN_RECT_SIZE = 0.5;
+
+function parseRegions(scene: Scene): RedactionRegion[] {
+  if (!scene.redactions_json) return [];
+  try {
+    return JSON.parse(scene.redactions_json);
+  } catch {
+    return [];
+  }
+}
+
+function parseManifest(scene: Scene): TilesManifest | null {
+  if (!scene.tiles_manifest) return null;
+  try {
+    return typeof scene.tiles_manifest === 'string' ? JSON.parse(scene.tiles_manifest) : scene.tiles_manifest;
+  } catch {
+    return null;
+  }
+}
+
+// Rect width in degrees, clockwise from the first corner (may cross the seam)
+function rectSpan([start, end]: SpherePoint[]): number {
+  return ((end.yaw - start.yaw) % 360 + 360) % 360;
+}
+
+export default function RedactionEditor({ scene, onUpdate }: RedactionEditorProps) {
+  const [regions, setRegions] = useState<RedactionRegion[]>(() => parseRegions(scene));
+  const [tool, setTool] = useState<Tool>('rect');
+  const [dragStart, setDragStart] = useState<SpherePoint | null>(null);
+  const [dragEnd, setDragEnd] = useState<SpherePoint | null>(null);
+  const [polygon, setPolygon] = useState<SpherePoint[]>([]);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+
+  const manifest = useMemo(() => parseManifest(scene), [scene]);
+  const previewUrl = scene.src_original_url || manifest?.preview;
+  const applied = manifest?.redaction?.regions ?? [];
+  const pending = JSON.stringify(regions) !== JSON.stringify(applied);
+
+  // The preview is the flat equirectangular image, so yaw/pitch map linearly onto it
+  const toSphere = (event: ReactPointerEvent): SpherePoint | null => {
+    const bounds = surfaceRef.current?.getBoundingClientRect();
+    if (!bounds?.width || !bounds.height) return null;
+    const u = Math.max(0, Math.min(1, (event.clientX - bounds.left) / bounds.width));
+    const v = Math.max(0, Math.min(1, (event.clientY - bounds.top) / bounds.height));
+    return {
+      yaw: Math.round((u * 360 - 180) * 10) / 10,
+      pitch: Math.round((90 - v * 180) * 10) / 10,
+    };
+  };
+
+  const addRegion = (shape: Tool, points: SpherePoint[]) => {
+    setRegions((prev) => [...prev, { id: `redaction_${Date.now()}`, shape, points }]);
+    setMessage(null);
+  };
+
+  const handlePointerDown = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const point = toSphere(event);
+    if (!point) return;
+
+    if (tool === 'polygon') {
+      setPolygon((prev) => [...prev, point]);
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragStart(point);
+    setDragEnd(point);
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    setDragEnd(toSphere(event));
+  };
+
+  const handlePointerUp = () => {
+    if (dragStart && dragEnd) {
+      const left = Math.min(dragStart.yaw, dragEnd.yaw);
+      const right = Math.max(dragStart.yaw, dragEnd.yaw);
+      const top = Math.max(dragStart.pitch, dragEnd.pitch);
+      const bottom = Math.min(dragStart.pitch, dragEnd.pitch);
+      if (right - left >= MIN_RECT_SIZE && top - bottom >= MIN_RECT_SIZE) {
+        addRegion('rect', [{ yaw: left, pitch: top }, { yaw: right, pitch: bottom }]);
+      }
+    }
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  const finishPolygon = () => {
+    if (polygon.length >= 3) addRegion('polygon', polygon);
+    setPolygon([]);
+  };
+
+  const handleApply = async () => {
+    if (!manifest) return;
+    setApplying(true);
+    setError(null);
+    setMessage(null);
+    try {
+      // The server saves the scene itself, so the published files and the record can't disagree
+      const result = await redactScene(scene.tour_id, scene.id, regions);
+      onUpdate?.(result.scene);
+      setMessage(`Published - ${result.count} tiles re-rendered`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply redactions');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const renderRegion = (region: RedactionRegion, className: string) => {
+    if (region.shape === 'rect') {
+      const [start, end] = region.points;
+      const width = rectSpan(region.points);
+      // Drawn twice so a rect crossing the seam shows on both edges
+      return [0, -360].map((shift) => (
+        <rect
+          key={shift}
+          x={start.yaw + shift}
+          y={-Math.max(start.pitch, end.pitch)}
+          width={width}
+          height={Math.abs(start.pitch - end.pitch)}
+          className={className}
+          vectorEffect="non-scaling-stroke"
+        />
+      ));
+    }
+    return (
+      <polygon
+        points={region.points.map(({ yaw, pitch }) => `${yaw},${-pitch}`).join(' ')}
+        className={className}
+        vectorEffect="non-scaling-stroke"
+      />
+    );
+  };
+
+  if (!manifest || !previewUrl) {
+    return (
+      <div className="p-4 border rounded-lg text-sm text-gray-600">
+        Upload and tile the scene image before adding privacy blur regions.
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 border rounded-lg">
+      <h4 className="font-medium mb-1">Privacy Blur</h4>
+      <p className="text-sm text-gray-600 mb-3">
+        Draw over faces and license plates. Only the tiles they touch are re-rendered; the unblurred original stays private.
+      </p>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-100 text-red-700 rounded text-sm">{error}</div>
+      )}
+
+      <div className="flex items-center gap-2 mb-2 text-sm">
+        {(['rect', 'polygon'] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => { setTool(option); setPolygon([]); }}
+            className={`px-3 py-1 rounded border ${tool === option ? 'bg-blue-600 text-white border-blue-600' : 'bg-white hover:bg-gray-50'}`}
+          >
+            {option === 'rect' ? 'Rectangle' : 'Polygon'}
+          </button>
+        ))}
+        {tool === 'polygon' && polygon.length > 0 && (
+          <>
+            <button
+              onClick={finishPolygon}
+              disabled={polygon.length < 3}
+              className="px-3 py-1 rounded border bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Finish polygon ({polygon.length})
+            </button>
+            <button onClick={() => setPolygon([])} className="px-3 py-1 text-gray-600 hover:underline">
+              Cancel
+            </button>
+          </>
+        )}
+      </div>
+
+      <div
+        ref={surfaceRef}
+        className="relative w-full aspect-[2/1] bg-gray-200 rounded overflow-hidden cursor-crosshair select-none touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onDoubleClick={tool === 'polygon' ? finishPolygon : undefined}
+      >
+        <img src={previewUrl} alt={scene.name} className="absolute inset-0 w-full h-full" draggable={false} />
+        <svg viewBox="-180 -90 360 180" preserveAspectRatio="none" className="absolute inset-0 w-full h-full">
+          {regions.map((region) => (
+            <g key={region.id}>{renderRegion(region, 'fill-red-500/40 stroke-red-600')}</g>
+          ))}
+          {dragStart && dragEnd && (
+            <rect
+              x={Math.min(dragStart.yaw, dragEnd.yaw)}
+              y={-Math.max(dragStart.pitch, dragEnd.pitch)}
+              width={Math.abs(dragEnd.yaw - dragStart.yaw)}
+              height={Math.abs(dragEnd.pitch - dragStart.pitch)}
+              className="fill-yellow-400/30 stroke-yellow-500"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+          {polygon.length > 0 && (
+            <polyline
+              points={polygon.map(({ yaw, pitch }) => `${yaw},${-pitch}`).join(' ')}
+              className="fill-yellow-400/30 stroke-yellow-500"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+      </div>
+
+      {regions.length > 0 && (
+        <ul className="mt-3 space-y-1 text-sm">
+          {regions.map((region, index) => (
+            <li key={region.id} className="flex items-center gap-2">
+              <span className="text-gray-500 w-6">{index + 1}.</span>
+              <input
+                type="text"
+                value={region.label ?? ''}
+                placeholder={region.shape === 'rect' ? 'Rectangle' : 'Polygon'}
+                onChange={(e) => setRegions((prev) => prev.map((r) => (r.id === region.id ? { ...r, label: e.target.value } : r)))}
+                className="flex-1 px-2 py-1 border rounded"
+              />
+              <button
+                onClick={() => setRegions((prev) => prev.filter((r) => r.id !== region.id))}
+                className="text-red-600 hover:underline"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-4 flex items-center gap-3">
+        <button
+          onClick={handleApply}
+          disabled={applying || !pending}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {applying ? 'Re-rendering tiles...' : 'Apply & Publish'}
+        </button>
+        {message && <span className="text-sm text-green-600">{message}</span>}
+        {!message && pending && <span className="text-sm text-amber-600">Unpublished changes</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from 'react';
+import { Scene } from '@/types/tour';
+import { tourService } from '@/services/tourService';
+import AudioTrackUploader from '@/components/upload/AudioTrackUploader';
+import { AUDIO_DEFAULT_AMBIENT_VOLUME } from '@/components/viewer/multires/constants';
+
+interface SceneAudioEditorProps {
+  scene: Scene;
+  onUpdate?: (scene: Scene) => void;
+}
+
+export default function SceneAudioEditor({ scene, onUpdate }: SceneAudioEditorProps) {
+  const [url, setUrl] = useState(scene.ambient_audio_url ?? '');
+  const [volume, setVolume] = useState(scene.ambient_audio_volume ?? AUDIO_DEFAULT_AMBIENT_VOLUME);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const updated = await tourService.updateScene(scene.id, {
+        ambient_audio_url: url,
+        ambient_audio_volume: volume
+      });
+      onUpdate?.(updated);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save scene audio');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border rounded-lg">
+      <h4 className="font-medium mb-1">Ambient Sound</h4>
+      <p className="text-sm text-gray-600 mb-4">
+        Loops while this scene is showing and crossfades into the next scene&apos;s sound.
+      </p>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-100 text-red-700 rounded text-sm">{error}</div>
+      )}
+
+      <AudioTrackUploader
+        label="Ambient loop"
+        url={url}
+        volume={volume}
+        keyPrefix={`tours/${scene.tour_id}/audio/scenes/${scene.id}`}
+        onChange={(nextUrl, nextVolume) => {
+          setUrl(nextUrl);
+          setVolume(nextVolume);
+          setSaved(false);
+        }}
+        onError={setError}
+        onUploadingChange={setUploading}
+      />
+
+      <div className="mt-4 flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={saving || uploading}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Ambient Sound'}
+        </button>
+        {saved && <span className="text-sm text-green-600">Saved</span>}
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { Scene } from '@/types/tour';
 import { tourService } from '@/services/tourService';
+import { inspectPanorama } from '@/lib/image-processor';
 import SimplePanoramaPreview from './SimplePanoramaPreview';
 import AdvancedSceneUploader from '../upload/AdvancedSceneUploader';
 
@@ -26,6 +27,9 @@ export default function SceneDetailsModal({
   const [yaw, setYaw] = useState(0);
   const [pitch, setPitch] = useState(0);
   const [fov, setFov] = useState(75);
+  const [northOffset, setNorthOffset] = useState<number | null>(null);
+  // Set when the initial view was read from the image's GPano metadata
+  const [viewFromMetadata, setViewFromMetadata] = useState(false);
   const [order, setOrder] = useState(1);
   const [priority, setPriority] = useState(1);
   const [isCreating, setIsCreating] = useState(false);
@@ -46,6 +50,27 @@ export default function SceneDetailsModal({
     fetchExistingScenes();
   }, [tourId]);
 
+  // Pre-fill the initial view and north offset from GPano metadata (360 cameras write these)
+  useEffect(() => {
+    if (!imageFile) return;
+    let cancelled = false;
+
+    inspectPanorama(imageFile)
+      .then(({ initialView }) => {
+        if (cancelled || !initialView) return;
+        if (initialView.yaw !== undefined) setYaw(initialView.yaw);
+        if (initialView.pitch !== undefined) setPitch(initialView.pitch);
+        if (initialView.fov !== undefined) setFov(initialView.fov);
+        if (initialView.northOffset !== undefined) setNorthOffset(initialView.northOffset);
+        setViewFromMetadata(true);
+      })
+      .catch((err) => console.error('Failed to read panorama metadata:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageFile]);
+
   const handleCreateScene = async () => {
     if (!sceneName.trim()) {
       setError('Please enter a scene name');
@@ -62,6 +87,7 @@ export default function SceneDetailsModal({
         yaw,
         pitch,
         fov,
+        ...(northOffset !== null ? { north_offset: northOffset } : {}),
         order,
         priority,
         tour_id: tourId,
@@ -183,6 +209,9 @@ export default function SceneDetailsModal({
             <div className="space-y-4">
               <div>
                 <h3 className="font-medium mb-3">Initial Camera Settings</h3>
+                {viewFromMetadata && (
+                  <p className="mb-3 text-xs text-gray-500">Pre-filled from the image&apos;s panorama metadata</p>
+                )}
                 <div className="space-y-4">
                   <div>
                     <label className="block text-sm font-medium mb-2">
@@ -255,6 +284,24 @@ export default function SceneDetailsModal({
                       <span className="text-sm text-gray-500">°</span>
                     </div>
                   </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-2">
+                      North Offset (compass heading of the image centre)
+                    </label>
+                    <div className="flex items-center gap-3">
+                      <input
+                        type="number"
+                        value={northOffset ?? ''}
+                        placeholder="Unknown"
+                        onChange={(e) => setNorthOffset(e.target.value === '' ? null : parseFloat(e.target.value) || 0)}
+                        min="-180"
+                        max="360"
+                        className="w-28 px-2 py-1 border rounded text-sm"
+                      />
+                      <span className="text-sm text-gray-500">°</span>
+                    </div>
+                  </div>
                 </div>
               </div>
 
@@ -276,6 +323,7 @@ export default function SceneDetailsModal({
               <h3 className="font-medium mb-4">Upload and Process Image</h3>
               <AdvancedSceneUploader 
                 sceneId={createdSceneId}
+                tourId={tourId}
                 onComplete={(data) => {
                   // Scene already exists, just update it with the URLs
                   tourService.getScenes(tourId).then(updatedScenes => {
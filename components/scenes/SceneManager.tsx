@@ -3,6 +3,8 @@
 import { useState } from 'react';
 import { Scene } from '@/types/tour';
 import AdvancedSceneUploader from '../upload/AdvancedSceneUploader';
+import RedactionEditor from './RedactionEditor';
+import SceneAudioEditor from './SceneAudioEditor';
 import SceneCreationFlow from './SceneCreationFlow';
 
 interface SceneManagerProps {
@@ -167,6 +169,7 @@ export default function SceneManager({ tourId, scenes, onSceneUpdate, handleScen
               ) : (
                 <AdvancedSceneUploader
                   sceneId={selectedScene.id}
+                  tourId={tourId}
                   onComplete={(data) => {
                     // Update scene with the uploaded URLs
                     const updatedScene = {
@@ -184,6 +187,38 @@ export default function SceneManager({ tourId, scenes, onSceneUpdate, handleScen
                 />
               )}
 
+              {!showUploader && selectedScene.tiles_manifest && (
+                <div className="mt-6">
+                  <RedactionEditor
+                    key={selectedScene.id}
+                    scene={selectedScene}
+                    onUpdate={(updatedScene) => {
+                      const updatedScenes = scenes?.map(s =>
+                        s.id === updatedScene.id ? updatedScene : s
+                      );
+                      onSceneUpdate?.(updatedScenes);
+                      setSelectedScene(updatedScene);
+                    }}
+                  />
+                </div>
+              )}
+
+              {!showUploader && (
+                <div className="mt-6">
+                  <SceneAudioEditor
+                    key={selectedScene.id}
+                    scene={selectedScene}
+                    onUpdate={(updatedScene) => {
+                      const updatedScenes = scenes?.map(s =>
+                        s.id === updatedScene.id ? updatedScene : s
+                      );
+                      onSceneUpdate?.(updatedScenes);
+                      setSelectedScene(updatedScene);
+                    }}
+                  />
+                </div>
+              )}
+
               <div className="mt-6 pt-6 border-t">
                 <h4 className="font-medium mb-2">Statistics</h4>
                 <div className="text-sm text-gray-600 space-y-1">
@@ -0,0 +1,98 @@
+'use client';
+
+import { useState } from 'react';
+import { Tour } from '@/types/tour';
+import { tourService } from '@/services/tourService';
+import { normalizeOrigin, parseEmbedOrigins } from '@/lib/embed';
+
+interface EmbedSettingsEditorProps {
+  tour: Tour;
+  onUpdate?: (tour: Tour) => void;
+}
+
+// Wildcards are kept as typed; everything else is reduced to its origin
+function cleanOrigin(entry: string): string | null {
+  const wildcard = entry.match(/^(https?:)\/\/\*\.([a-z0-9.-]+)\/?$/i);
+  if (wildcard) return `${wildcard[1]}//*.${wildcard[2].toLowerCase()}`;
+  return normalizeOrigin(entry);
+}
+
+export default function EmbedSettingsEditor({ tour, onUpdate }: EmbedSettingsEditorProps) {
+  const [originsText, setOriginsText] = useState(() => parseEmbedOrigins(tour).join('\n'));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const embedUrl = typeof window === 'undefined' ? `/embed/${tour.id}` : `${window.location.origin}/embed/${tour.id}`;
+  const snippet = `<iframe src="${embedUrl}" width="100%" height="600" allow="fullscreen; xr-spatial-tracking; gyroscope; accelerometer" style="border:0"></iframe>`;
+
+  const handleSave = async () => {
+    const entries = originsText.split('\n').map((line) => line.trim()).filter(Boolean);
+    const invalid = entries.find((entry) => !cleanOrigin(entry));
+    if (invalid) {
+      setError(`"${invalid}" is not an origin - use e.g. https://www.example.com`);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const origins = Array.from(new Set(entries.map((entry) => cleanOrigin(entry) as string)));
+      const updated = await tourService.updateTour(tour.id, {
+        embed_origins_json: origins.length ? JSON.stringify(origins) : ''
+      });
+      setOriginsText(origins.join('\n'));
+      onUpdate?.(updated);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save embed settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border rounded-lg">
+      <h3 className="font-medium mb-1">Website Embed</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Paste the snippet into your property page. Only the sites listed below can control the tour or receive its events; the tour must be published.
+      </p>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-100 text-red-700 rounded text-sm">{error}</div>
+      )}
+
+      <label className="block text-sm font-medium mb-1">Embed code</label>
+      <textarea
+        readOnly
+        value={snippet}
+        rows={3}
+        onFocus={(e) => e.target.select()}
+        className="w-full px-2 py-1 border rounded text-xs font-mono bg-gray-50 mb-4"
+      />
+
+      <label className="block text-sm font-medium mb-1">Allowed sites (one per line)</label>
+      <textarea
+        value={originsText}
+        onChange={(e) => {
+          setOriginsText(e.target.value);
+          setSaved(false);
+        }}
+        rows={4}
+        placeholder={'https://www.example.com\nhttps://*.example.com'}
+        className="w-full px-2 py-1 border rounded text-sm font-mono"
+      />
+
+      <div className="mt-4 flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Embed Settings'}
+        </button>
+        {saved && <span className="text-sm text-green-600">Saved</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,369 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import { FloorPlan, FloorPlanPin, Scene, Tour } from '@/types/tour';
+import { tourService } from '@/services/tourService';
+import { storageUploader } from '@/lib/storage-upload';
+import { hasNorthOffset } from '@/components/viewer/multires/compass';
+import { parseFloorPlans, pinYawOrigin, viewConePath } from '@/components/viewer/multires/floor-plan';
+
+interface FloorPlanEditorProps {
+  tour: Tour;
+  scenes: Scene[];
+  onUpdate?: (tour: Tour) => void;
+}
+
+// Orientation cone drawn on each pin (px)
+const CONE_RADIUS = 26;
+const CONE_SPREAD = 60;
+
+const round = (value: number, step: number) => Math.round(value / step) * step;
+const normalizeAngle = (angle: number) => ((Math.round(angle) % 360) + 360) % 360;
+
+export default function FloorPlanEditor({ tour, scenes, onUpdate }: FloorPlanEditorProps) {
+  const [plans, setPlans] = useState<FloorPlan[]>(() => parseFloorPlans(tour.floor_plans_json));
+  const [planId, setPlanId] = useState<string | null>(() => plans[0]?.id ?? null);
+  const [sceneId, setSceneId] = useState<string | null>(null);
+  const [draggingSceneId, setDraggingSceneId] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+
+  const plan = plans.find((candidate) => candidate.id === planId) ?? null;
+  const selectedScene = scenes.find((scene) => scene.id === sceneId) ?? null;
+  const selectedPin = plan?.pins.find((pin) => pin.sceneId === sceneId) ?? null;
+
+  const updatePlans = (update: (prev: FloorPlan[]) => FloorPlan[]) => {
+    setPlans(update);
+    setSaved(false);
+  };
+
+  const updatePlan = (id: string, patch: Partial<FloorPlan>) => {
+    updatePlans((prev) => prev.map((candidate) => (candidate.id === id ? { ...candidate, ...patch } : candidate)));
+  };
+
+  const updatePin = (targetSceneId: string, patch: Partial<FloorPlanPin>) => {
+    if (!plan) return;
+    updatePlan(plan.id, {
+      pins: plan.pins.map((pin) => (pin.sceneId === targetSceneId ? { ...pin, ...patch } : pin)),
+    });
+  };
+
+  // A scene sits on one plan at a time - placing it here takes it off any other
+  const placePin = (targetSceneId: string, x: number, y: number) => {
+    if (!plan) return;
+    updatePlans((prev) => prev.map((candidate) => {
+      const existing = candidate.pins.find((pin) => pin.sceneId === targetSceneId);
+      if (candidate.id !== plan.id) {
+        return existing ? { ...candidate, pins: candidate.pins.filter((pin) => pin !== existing) } : candidate;
+      }
+      const pins = existing
+        ? candidate.pins.map((pin) => (pin === existing ? { ...pin, x, y } : pin))
+        : [...candidate.pins, { sceneId: targetSceneId, x, y }];
+      return { ...candidate, pins };
+    }));
+  };
+
+  const removePin = (targetSceneId: string) => {
+    if (!plan) return;
+    updatePlan(plan.id, { pins: plan.pins.filter((pin) => pin.sceneId !== targetSceneId) });
+  };
+
+  const toPlan = (event: ReactPointerEvent): { x: number; y: number } | null => {
+    const bounds = surfaceRef.current?.getBoundingClientRect();
+    if (!bounds?.width || !bounds.height) return null;
+    return {
+      x: round(Math.max(0, Math.min(1, (event.clientX - bounds.left) / bounds.width)), 0.001),
+      y: round(Math.max(0, Math.min(1, (event.clientY - bounds.top) / bounds.height)), 0.001),
+    };
+  };
+
+  const handleSurfacePointerDown = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (!sceneId) return;
+    const point = toPlan(event);
+    if (point) placePin(sceneId, point.x, point.y);
+  };
+
+  const handlePinPointerDown = (event: ReactPointerEvent<HTMLButtonElement>, pinSceneId: string) => {
+    event.stopPropagation();
+    setSceneId(pinSceneId);
+    setDraggingSceneId(pinSceneId);
+    surfaceRef.current?.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (!draggingSceneId) return;
+    const point = toPlan(event);
+    if (point) updatePin(draggingSceneId, point);
+  };
+
+  const handleAddPlan = async (file: File) => {
+    setUploading(true);
+    setError(null);
+    try {
+      const extension = file.name.split('.').pop() || 'png';
+      const id = `plan_${Date.now()}`;
+      const imageUrl = await storageUploader.uploadFile(
+        file,
+        `tours/${tour.id}/floor-plans/${id}.${extension}`,
+        file.type || 'image/png'
+      );
+      updatePlans((prev) => [...prev, { id, name: `Floor ${prev.length + 1}`, imageUrl, pins: [] }]);
+      setPlanId(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload floor plan');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRemovePlan = () => {
+    if (!plan || !window.confirm(`Remove "${plan.name}" and its pins?`)) return;
+    const remaining = plans.filter((candidate) => candidate.id !== plan.id);
+    updatePlans(() => remaining);
+    setPlanId(remaining[0]?.id ?? null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const updated = await tourService.updateTour(tour.id, {
+        floor_plans_json: plans.length ? JSON.stringify(plans) : ''
+      });
+      onUpdate?.(updated);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save floor plans');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const planOf = (targetSceneId: string) =>
+    plans.find((candidate) => candidate.pins.some((pin) => pin.sceneId === targetSceneId));
+
+  return (
+    <div className="p-4 border rounded-lg">
+      <h3 className="font-medium mb-1">Floor Plans</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Visitors see the plan as a minimap and can click a pin to jump to that scene. Pick a scene, click the plan to place it, drag pins to move them, and turn each pin so its cone points where the centre of the panorama faces.
+      </p>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-100 text-red-700 rounded text-sm">{error}</div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        {plans.map((candidate) => (
+          <button
+            key={candidate.id}
+            onClick={() => setPlanId(candidate.id)}
+            className={`px-3 py-1 rounded text-sm ${candidate.id === plan?.id ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200'}`}
+          >
+            {candidate.name || 'Untitled'}
+          </button>
+        ))}
+        <label className={`px-3 py-1 rounded text-sm border border-dashed ${uploading ? 'opacity-50' : 'cursor-pointer hover:bg-gray-50'}`}>
+          {uploading ? 'Uploading...' : '+ Add floor plan'}
+          <input
+            type="file"
+            accept="image/png,image/jpeg,image/webp,image/svg+xml"
+            disabled={uploading}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleAddPlan(file);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+        </label>
+      </div>
+
+      {plan ? (
+        <div className="grid grid-cols-3 gap-4">
+          <div className="col-span-2 space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={plan.name}
+                onChange={(e) => updatePlan(plan.id, { name: e.target.value })}
+                placeholder="Plan name"
+                className="flex-1 px-2 py-1 border rounded text-sm"
+              />
+              <button onClick={handleRemovePlan} className="text-sm text-red-600 hover:underline">
+                Remove plan
+              </button>
+            </div>
+
+            <div
+              ref={surfaceRef}
+              onPointerDown={handleSurfacePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => setDraggingSceneId(null)}
+              onPointerCancel={() => setDraggingSceneId(null)}
+              className={`relative select-none overflow-hidden rounded border bg-gray-50 ${sceneId ? 'cursor-crosshair' : ''}`}
+            >
+              <img src={plan.imageUrl} alt={plan.name} className="block w-full" draggable={false} />
+              {plan.pins.map((pin) => {
+                const scene = scenes.find((candidate) => candidate.id === pin.sceneId);
+                if (!scene) return null;
+                const origin = pinYawOrigin(plan, pin, scene);
+                const isSelected = pin.sceneId === sceneId;
+                return (
+                  <div key={pin.sceneId}>
+                    {origin !== null && (
+                      <svg
+                        width={CONE_RADIUS * 2}
+                        height={CONE_RADIUS * 2}
+                        className="pointer-events-none absolute"
+                        style={{
+                          left: `${pin.x * 100}%`,
+                          top: `${pin.y * 100}%`,
+                          transform: `translate(-50%, -50%) rotate(${origin}deg)`,
+                        }}
+                      >
+                        <path
+                          d={viewConePath(CONE_SPREAD, CONE_RADIUS)}
+                          fill={isSelected ? 'rgba(37, 99, 235, 0.35)' : 'rgba(55, 65, 81, 0.25)'}
+                        />
+                      </svg>
+                    )}
+                    <button
+                      onPointerDown={(e) => handlePinPointerDown(e, pin.sceneId)}
+                      title={scene.name}
+                      className={`absolute -translate-x-1/2 -translate-y-1/2 h-4 w-4 rounded-full border-2 border-white shadow cursor-move ${
+                        isSelected ? 'bg-blue-600' : 'bg-gray-700'
+                      }`}
+                      style={{ left: `${pin.x * 100}%`, top: `${pin.y * 100}%` }}
+                    />
+                    <span
+                      className="pointer-events-none absolute whitespace-nowrap rounded bg-white/80 px-1 text-xs"
+                      style={{ left: `${pin.x * 100}%`, top: `${pin.y * 100}%`, transform: 'translate(-50%, 10px)' }}
+                    >
+                      {scene.name}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={plan.northAngle !== undefined}
+                  onChange={(e) => updatePlan(plan.id, { northAngle: e.target.checked ? 0 : undefined })}
+                />
+                North on plan
+              </label>
+              {plan.northAngle !== undefined && (
+                <>
+                  <input
+                    type="range"
+                    min="0"
+                    max="359"
+                    step="1"
+                    value={normalizeAngle(plan.northAngle)}
+                    onChange={(e) => updatePlan(plan.id, { northAngle: parseFloat(e.target.value) })}
+                    className="flex-1"
+                  />
+                  <span className="text-sm text-gray-500 w-10">{normalizeAngle(plan.northAngle)}°</span>
+                </>
+              )}
+            </div>
+            <p className="text-xs text-gray-500">
+              With north set, pins of scenes that have a north offset are turned automatically.
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            <div className="max-h-64 overflow-y-auto border rounded divide-y">
+              {scenes.map((scene) => {
+                const placedOn = planOf(scene.id);
+                return (
+                  <button
+                    key={scene.id}
+                    onClick={() => setSceneId(scene.id === sceneId ? null : scene.id)}
+                    className={`block w-full px-3 py-2 text-left text-sm ${scene.id === sceneId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <span className="block truncate font-medium">{scene.name}</span>
+                    <span className="block text-xs text-gray-500">
+                      {placedOn ? `On ${placedOn.name || 'a plan'}` : 'Not placed'}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+
+            {selectedScene && !selectedPin && (
+              <p className="text-sm text-gray-600">Click the plan to place {selectedScene.name}.</p>
+            )}
+
+            {selectedScene && selectedPin && (
+              <div className="space-y-2">
+                <label className="block text-sm font-medium">Rotation</label>
+                {selectedPin.rotation === undefined && pinYawOrigin(plan, selectedPin, selectedScene) !== null ? (
+                  <div className="flex items-center gap-2 text-sm text-gray-600">
+                    <span className="flex-1">From compass</span>
+                    <button
+                      onClick={() => updatePin(selectedPin.sceneId, {
+                        rotation: normalizeAngle(pinYawOrigin(plan, selectedPin, selectedScene) as number),
+                      })}
+                      className="text-blue-600 hover:underline"
+                    >
+                      Adjust
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="range"
+                      min="0"
+                      max="359"
+                      step="1"
+                      value={normalizeAngle(selectedPin.rotation ?? 0)}
+                      onChange={(e) => updatePin(selectedPin.sceneId, { rotation: parseFloat(e.target.value) })}
+                      className="flex-1"
+                    />
+                    <span className="text-sm text-gray-500 w-10">{normalizeAngle(selectedPin.rotation ?? 0)}°</span>
+                  </div>
+                )}
+                {selectedPin.rotation !== undefined && plan.northAngle !== undefined && hasNorthOffset(selectedScene) && (
+                  <button
+                    onClick={() => updatePin(selectedPin.sceneId, { rotation: undefined })}
+                    className="block text-sm text-blue-600 hover:underline"
+                  >
+                    Use compass
+                  </button>
+                )}
+                <button
+                  onClick={() => removePin(selectedPin.sceneId)}
+                  className="block text-sm text-red-600 hover:underline"
+                >
+                  Remove pin
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">Upload a floor plan image to start placing scenes.</p>
+      )}
+
+      <div className="mt-4 flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={saving || uploading}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Floor Plans'}
+        </button>
+        {saved && <span className="text-sm text-green-600">Saved</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import { useState } from 'react';
+import { NadirPatchSettings, PolePatch, Tour } from '@/types/tour';
+import { tourService } from '@/services/tourService';
+import { storageUploader } from '@/lib/storage-upload';
+
+interface NadirPatchEditorProps {
+  tour: Tour;
+  onUpdate?: (tour: Tour) => void;
+}
+
+const POLES = [
+  { id: 'nadir', label: 'Nadir (floor)', defaultRadius: 20 },
+  { id: 'zenith', label: 'Zenith (ceiling)', defaultRadius: 15 },
+] as const;
+
+function parseSettings(tour: Tour): NadirPatchSettings {
+  if (!tour.nadir_patch_json) return {};
+  try {
+    return JSON.parse(tour.nadir_patch_json);
+  } catch {
+    return {};
+  }
+}
+
+export default function NadirPatchEditor({ tour, onUpdate }: NadirPatchEditorProps) {
+  const [settings, setSettings] = useState<NadirPatchSettings>(() => parseSettings(tour));
+  const [uploading, setUploading] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const updatePole = (pole: keyof NadirPatchSettings, patch: PolePatch | undefined) => {
+    setSettings((prev) => ({ ...prev, [pole]: patch }));
+    setSaved(false);
+  };
+
+  const handleLogoUpload = async (pole: keyof NadirPatchSettings, file: File) => {
+    setUploading(pole);
+    setError(null);
+    try {
+      const extension = file.name.split('.').pop() || 'png';
+      const logoUrl = await storageUploader.uploadFile(
+        file,
+        `tours/${tour.id}/branding/${pole}_${Date.now()}.${extension}`,
+        file.type || 'image/png'
+      );
+      const current = settings[pole];
+      updatePole(pole, { mode: 'logo', radius: current?.radius ?? 20, logoUrl });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload logo');
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const handleSave = async () => {
+    const invalid = POLES.find(({ id }) => settings[id]?.mode === 'logo' && !settings[id]?.logoUrl);
+    if (invalid) {
+      setError(`Upload a logo for the ${invalid.id} patch or switch it to blur`);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const cleaned: NadirPatchSettings = {};
+      POLES.forEach(({ id }) => {
+        if (settings[id]) cleaned[id] = settings[id];
+      });
+      const updated = await tourService.updateTour(tour.id, {
+        nadir_patch_json: Object.keys(cleaned).length ? JSON.stringify(cleaned) : ''
+      });
+      onUpdate?.(updated);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save patch settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border rounded-lg">
+      <h3 className="font-medium mb-1">Nadir / Zenith Patch</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Covers the tripod (or ceiling rig) in every scene with your logo or a blur. Applied when a scene&apos;s tiles are generated.
+      </p>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-100 text-red-700 rounded text-sm">{error}</div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        {POLES.map(({ id, label, defaultRadius }) => {
+          const patch = settings[id];
+          return (
+            <div key={id} className="space-y-2">
+              <label className="block text-sm font-medium">{label}</label>
+              <select
+                value={patch?.mode ?? 'none'}
+                onChange={(e) => {
+                  const mode = e.target.value;
+                  updatePole(id, mode === 'none'
+                    ? undefined
+                    : { mode: mode as PolePatch['mode'], radius: patch?.radius ?? defaultRadius, logoUrl: patch?.logoUrl });
+                }}
+                className="w-full px-2 py-1 border rounded text-sm"
+              >
+                <option value="none">None</option>
+                <option value="blur">Auto blur</option>
+                <option value="logo">Logo</option>
+              </select>
+
+              {patch && (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="range"
+                    min="5"
+                    max="45"
+                    step="1"
+                    value={patch.radius}
+                    onChange={(e) => updatePole(id, { ...patch, radius: parseFloat(e.target.value) })}
+                    className="flex-1"
+                  />
+                  <span className="text-sm text-gray-500 w-10">{patch.radius}°</span>
+                </div>
+              )}
+
+              {patch?.mode === 'logo' && (
+                <div className="flex items-center gap-2">
+                  {patch.logoUrl && (
+                    <img src={patch.logoUrl} alt={`${id} logo`} className="h-10 w-10 object-contain rounded-full border" />
+                  )}
+                  <input
+                    type="file"
+                    accept="image/png,image/jpeg,image/webp"
+                    disabled={uploading === id}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleLogoUpload(id, file);
+                    }}
+                    className="text-sm"
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={saving || uploading !== null}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Patch Settings'}
+        </button>
+        {saved && <span className="text-sm text-green-600">Saved - applies to scenes tiled from now on</span>}
+      </div>
+    </div>
+  );
+}
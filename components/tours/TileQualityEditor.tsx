@@ -0,0 +1,85 @@
+'use client';
+
+import { useState } from 'react';
+import { Tour } from '@/types/tour';
+import { tourService } from '@/services/tourService';
+import { parseTileQuality } from '@/lib/multires-utils';
+
+interface TileQualityEditorProps {
+  tour: Tour;
+  onUpdate?: (tour: Tour) => void;
+}
+
+const OPTIONS = [
+  { value: '', label: 'Automatic', hint: 'Balanced, or data saver when the visitor has Save-Data on' },
+  { value: 'high', label: 'High', hint: 'Sharper tiles on large and high-DPI screens' },
+  { value: 'balanced', label: 'Balanced', hint: 'About one tile pixel per screen pixel' },
+  { value: 'data-saver', label: 'Data saver', hint: 'Softer tiles, much less to download' },
+];
+
+export default function TileQualityEditor({ tour, onUpdate }: TileQualityEditorProps) {
+  const [quality, setQuality] = useState<string>(parseTileQuality(tour.tile_quality) ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const updated = await tourService.updateTour(tour.id, { tile_quality: quality });
+      onUpdate?.(updated);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save tile quality');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border rounded-lg">
+      <h3 className="font-medium mb-1">Tile Quality</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        How much detail viewers load for the screen they are on.
+      </p>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-100 text-red-700 rounded text-sm">{error}</div>
+      )}
+
+      <div className="space-y-2">
+        {OPTIONS.map((option) => (
+          <label key={option.value} className="flex items-start gap-2 text-sm">
+            <input
+              type="radio"
+              name="tile-quality"
+              value={option.value}
+              checked={quality === option.value}
+              onChange={() => {
+                setQuality(option.value);
+                setSaved(false);
+              }}
+              className="mt-1"
+            />
+            <span>
+              <span className="font-medium">{option.label}</span>
+              <span className="block text-gray-500">{option.hint}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div className="mt-4 flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Tile Quality'}
+        </button>
+        {saved && <span className="text-sm text-green-600">Saved</span>}
+      </div>
+    </div>
+  );
+}
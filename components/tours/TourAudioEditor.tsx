@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from 'react';
+import { Tour } from '@/types/tour';
+import { tourService } from '@/services/tourService';
+import AudioTrackUploader from '@/components/upload/AudioTrackUploader';
+import { AUDIO_DEFAULT_MUSIC_VOLUME } from '@/components/viewer/multires/constants';
+
+interface TourAudioEditorProps {
+  tour: Tour;
+  onUpdate?: (tour: Tour) => void;
+}
+
+export default function TourAudioEditor({ tour, onUpdate }: TourAudioEditorProps) {
+  const [url, setUrl] = useState(tour.background_audio_url ?? '');
+  const [volume, setVolume] = useState(tour.background_audio_volume ?? AUDIO_DEFAULT_MUSIC_VOLUME);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const updated = await tourService.updateTour(tour.id, {
+        background_audio_url: url,
+        background_audio_volume: volume
+      });
+      onUpdate?.(updated);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save audio settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border rounded-lg">
+      <h3 className="font-medium mb-1">Background Music</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Loops under the whole tour. Visitors hear it after their first tap and can mute it; scene ambience is set per scene.
+      </p>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-100 text-red-700 rounded text-sm">{error}</div>
+      )}
+
+      <AudioTrackUploader
+        label="Music track"
+        url={url}
+        volume={volume}
+        keyPrefix={`tours/${tour.id}/audio/music`}
+        onChange={(nextUrl, nextVolume) => {
+          setUrl(nextUrl);
+          setVolume(nextVolume);
+          setSaved(false);
+        }}
+        onError={setError}
+        onUploadingChange={setUploading}
+      />
+
+      <div className="mt-4 flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={saving || uploading}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Music'}
+        </button>
+        {saved && <span className="text-sm text-green-600">Saved</span>}
+      </div>
+    </div>
+  );
+}
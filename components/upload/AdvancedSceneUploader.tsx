@@ -3,6 +3,9 @@
 // frontend/components/upload/AdvancedSceneUploader.tsx
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { storageUploader } from '@/lib/storage-upload';
+import { authHeaders, inspectPanorama, publishSceneImage } from '@/lib/image-processor';
+import { readEventStream } from '@/lib/event-stream';
+import type { PanoramaValidation, TileJob, TileLevelProgress, TilesManifest } from '@/lib/tiling/types';
 import { 
   Upload, X, CheckCircle, AlertCircle, Loader2, 
   Image as ImageIcon, Grid3x3, CloudUpload, Save 
@@ -10,9 +13,20 @@ import {
 
 interface AdvancedSceneUploaderProps {
   sceneId: string;
+  // Used to apply the tour's nadir/zenith patch settings when tiling
+  tourId?: string;
   onComplete?: (data: any) => void;
 }
 
+const TILE_CONTENT_TYPES: Record<string, string> = {
+  json: 'application/json',
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+// Job result files fetched at once
+const RESULT_FETCH_CONCURRENCY = 6;
+
 interface ProcessingStage {
   id: 'select' | 'process' | 'tiles' | 'upload' | 'save';
   name: string;
@@ -20,12 +34,35 @@ interface ProcessingStage {
   data?: any;
 }
 
-export default function AdvancedSceneUploader({ sceneId, onComplete }: AdvancedSceneUploaderProps) {
+export default function AdvancedSceneUploader({ sceneId, tourId, onComplete }: AdvancedSceneUploaderProps) {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [processedImage, setProcessedImage] = useState<Buffer | null>(null);
+  // Main image from a tile job (patched and redacted on the server), uploaded with its tiles
+  const [jobMainImage, setJobMainImage] = useState<Buffer | null>(null);
+  const [validation, setValidation] = useState<PanoramaValidation | null>(null);
+  const [validating, setValidating] = useState(false);
+  // Only the latest selection's validation result is applied
+  const inspectedFileRef = useRef<File | null>(null);
+  // Pad partial panoramas onto the full canvas (GPano crop data) instead of stretching
+  const [padPartial, setPadPartial] = useState(true);
   const [tiles, setTiles] = useState<Map<string, Buffer>>(new Map());
   const [uploadedUrls, setUploadedUrls] = useState<Map<string, string>>(new Map());
+  const [tilesJobId, setTilesJobId] = useState<string | null>(null);
+  const [tileJobLevels, setTileJobLevels] = useState<TileLevelProgress[]>([]);
+  // Server writes tiles straight to storage and returns the manifest (skips the upload stage)
+  const [writeToStorage, setWriteToStorage] = useState(true);
+  const [withCubemap, setWithCubemap] = useState(false);
+  const [storedManifest, setStoredManifest] = useState<TilesManifest | null>(null);
+  // Pyramid layout reported by the server when the client uploads the tiles itself
+  const [tileLayout, setTileLayout] = useState<TilesManifest | null>(null);
+  const [tileLevels, setTileLevels] = useState('3');
+  const [tileSize, setTileSize] = useState('');
+  const [maxResolution, setMaxResolution] = useState('12288');
+  // Optional encodings written next to the JPEG tiles
+  const [extraFormats, setExtraFormats] = useState<string[]>([]);
+  // Aborts the open job event stream
+  const jobEventsRef = useRef<AbortController | null>(null);
   
   // Persist state key for this scene
   const stateKey = `upload_state_${sceneId}`;
@@ -56,6 +93,12 @@ export default function AdvancedSceneUploader({ sceneId, onComplete }: AdvancedS
         if (state.uploadedUrls) {
           setUploadedUrls(new Map(Object.entries(state.uploadedUrls)));
         }
+
+        // Re-attach to the tile job so a reload doesn't restart the pipeline
+        if (state.tilesJobId) {
+          setTilesJobId(state.tilesJobId);
+          resumeTileJob(state.tilesJobId);
+        }
         
         // Auto-continue if process was interrupted
         if (state.currentStage && state.currentStage !== 'select' && state.currentStage !== 'save') {
@@ -74,16 +117,35 @@ export default function AdvancedSceneUploader({ sceneId, onComplete }: AdvancedS
       currentStage,
       stages,
       uploadedUrls: Object.fromEntries(uploadedUrls),
+      tilesJobId,
       timestamp: Date.now()
     };
     localStorage.setItem(stateKey, JSON.stringify(state));
-  }, [sceneId, currentStage, stages, uploadedUrls, stateKey]);
+  }, [sceneId, currentStage, stages, uploadedUrls, tilesJobId, stateKey]);
   
+  // Persist the tile job id as soon as it exists (saveState may hold a stale closure)
+  const persistTilesJobId = useCallback((jobId: string | null) => {
+    let saved = {};
+    try {
+      saved = JSON.parse(localStorage.getItem(stateKey) || '{}');
+    } catch {
+      /* ignore corrupt state */
+    }
+    localStorage.setItem(stateKey, JSON.stringify({ ...saved, sceneId, tilesJobId: jobId, timestamp: Date.now() }));
+  }, [sceneId, stateKey]);
+
   // Clear saved state when complete
   const clearSavedState = useCallback(() => {
     localStorage.removeItem(stateKey);
   }, [stateKey]);
 
+  // Close any open job event stream on unmount
+  useEffect(() => {
+    return () => {
+      jobEventsRef.current?.abort();
+    };
+  }, []);
+
   // Update stage status
   const updateStage = (stageId: string, status: ProcessingStage['status'], data?: any) => {
     setStages(prev => prev.map(stage => 
@@ -107,6 +169,18 @@ export default function AdvancedSceneUploader({ sceneId, onComplete }: AdvancedS
     };
     reader.readAsDataURL(file);
     
+    setValidation(null);
+    setValidating(true);
+    inspectedFileRef.current = file;
+    inspectPanorama(file)
+      .then((result) => {
+        if (inspectedFileRef.current === file) setValidation(result);
+      })
+      .catch((error) => console.error('Validation error:', error))
+      .finally(() => {
+        if (inspectedFileRef.current === file) setValidating(false);
+      });
+    
     setCurrentStage('process');
   }, []);
 
@@ -122,6 +196,9 @@ export default function AdvancedSceneUploader({ sceneId, onComplete }: AdvancedS
       formData.append('file', selectedFile);
       formData.append('sceneId', sceneId);
       formData.append('operation', 'process');
+      if (padPartial && validation?.repair) {
+        formData.append('repair', 'pad');
+      }
 
       const response = await fetch('/api/process-image', {
         method: 'POST',
@@ -149,56 +226,196 @@ export default function AdvancedSceneUploader({ sceneId, onComplete }: AdvancedS
       saveState();
       console.error('Processing error:', error);
     }
-  }, [selectedFile, sceneId]);
+  }, [selectedFile, sceneId, padPartial, validation]);
+
+  // Results are collected - free the job's files on the server
+  const discardTileJob = useCallback((jobId: string) => {
+    setTilesJobId(null);
+    persistTilesJobId(null);
+    fetch(`/api/process-image/jobs/${jobId}`, { method: 'DELETE', headers: authHeaders() })
+      .catch((err) => console.error('Failed to delete tile job:', err));
+  }, [persistTilesJobId]);
+
+  // Fetch the results of a finished tile job, a file at a time
+  const loadTileJobResults = useCallback(async (jobId: string) => {
+    const response = await fetch(`/api/process-image/jobs/${jobId}/tiles`, { headers: authHeaders() });
+    if (!response.ok) {
+      throw new Error('Failed to fetch generated tiles');
+    }
+
+    const result: { mainImageKey?: string; keys: string[]; count: number } = await response.json();
+
+    const fetchFile = async (key: string) => {
+      const fileResponse = await fetch(
+        `/api/process-image/jobs/${jobId}/tiles?key=${encodeURIComponent(key)}`,
+        { headers: authHeaders() }
+      );
+      if (!fileResponse.ok) {
+        throw new Error(`Failed to fetch generated file ${key}`);
+      }
+      return Buffer.from(await fileResponse.arrayBuffer());
+    };
+
+    const tilesMap = new Map<string, Buffer>();
+    const pending = [...result.keys];
+    await Promise.all(Array.from({ length: Math.min(RESULT_FETCH_CONCURRENCY, pending.length) }, async () => {
+      for (let key = pending.shift(); key !== undefined; key = pending.shift()) {
+        tilesMap.set(key, await fetchFile(key));
+      }
+    }));
 
-  // Stage 3: Generate Tiles on Server
+    // The job's patched and redacted image is what gets published, never the local one
+    setJobMainImage(result.mainImageKey ? await fetchFile(result.mainImageKey) : null);
+    setTiles(tilesMap);
+    updateStage('tiles', 'complete', { count: result.count });
+    setCurrentStage('upload');
+    discardTileJob(jobId);
+  }, [discardTileJob]);
+
+  // Tiles already live in storage - skip straight to saving the manifest
+  const applyStoredTileJob = useCallback((job: TileJob) => {
+    setStoredManifest(job.manifest ?? null);
+    const urls = new Map([['main', job.mainImageUrl || '']]);
+    if (job.cubemapManifestUrl) {
+      urls.set('cubemap.json', job.cubemapManifestUrl);
+    }
+    setUploadedUrls(urls);
+    updateStage('tiles', 'complete', { count: job.tileCount });
+    updateStage('upload', 'skipped', { reason: 'Tiles written to storage by server' });
+    setCurrentStage('save');
+  }, []);
+
+  // Follow job progress over SSE until it completes or fails
+  // (read with fetch - the job routes need the caller's Authorization header)
+  const watchTileJob = useCallback((jobId: string) => {
+    jobEventsRef.current?.abort();
+    const controller = new AbortController();
+    jobEventsRef.current = controller;
+
+    const handleDone = async (job: TileJob) => {
+      if (job.status === 'error') {
+        updateStage('tiles', 'error', { error: job.error });
+        discardTileJob(jobId);
+        return;
+      }
+
+      if (job.options.destination === 'storage') {
+        applyStoredTileJob(job);
+        discardTileJob(jobId);
+        return;
+      }
+      setTileLayout(job.manifest ?? null);
+
+      try {
+        await loadTileJobResults(jobId);
+      } catch (error) {
+        updateStage('tiles', 'error');
+        console.error('Tile generation error:', error);
+      }
+    };
+
+    (async () => {
+      const response = await fetch(`/api/process-image/jobs/${jobId}/events`, {
+        headers: authHeaders(),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error('Tile job no longer exists');
+      }
+
+      let finished = false;
+      await readEventStream(response, (event, data) => {
+        if (event === 'progress') {
+          const job: TileJob = JSON.parse(data);
+          setTileJobLevels(job.levels);
+        } else if (event === 'done') {
+          finished = true;
+          handleDone(JSON.parse(data));
+        }
+      });
+      if (!finished) {
+        throw new Error('Tile job stream ended early');
+      }
+    })().catch((error) => {
+      if (controller.signal.aborted) return;
+      // Job missing (e.g. in-memory store restarted) - let the user start over
+      console.error('Tile job event stream error:', error);
+      updateStage('tiles', 'error', { error: 'Lost connection to tile job' });
+    });
+  }, [loadTileJobResults, applyStoredTileJob, discardTileJob]);
+
+  // Resume a job after a page reload and keep watching (results carry the main image)
+  const resumeTileJob = useCallback(async (jobId: string) => {
+    try {
+      const jobResponse = await fetch(`/api/process-image/jobs/${jobId}`, { headers: authHeaders() });
+      if (!jobResponse.ok) {
+        throw new Error('Tile job no longer exists');
+      }
+
+      updateStage('process', 'complete');
+      updateStage('tiles', 'processing', { jobId });
+      setCurrentStage('tiles');
+      watchTileJob(jobId);
+    } catch (error) {
+      console.error('Failed to resume tile job:', error);
+      setTilesJobId(null);
+      persistTilesJobId(null);
+    }
+  }, [watchTileJob, persistTilesJobId]);
+
+  // Stage 3: Generate Tiles on Server (as a background job)
   const generateTiles = useCallback(async () => {
     if (!processedImage) return;
 
     updateStage('tiles', 'processing');
+    setTileJobLevels([]);
 
     try {
       // Create a file from the processed buffer
       const processedBlob = new Blob([processedImage], { type: 'image/jpeg' });
       const processedFile = new File([processedBlob], 'processed.jpg', { type: 'image/jpeg' });
       
-      // Send to server for tile generation
+      // Submit the tile job
       const formData = new FormData();
       formData.append('file', processedFile);
+      // The server applies the tour's stored branding, so it needs to know the tour
+      formData.append('tourId', tourId || '');
       formData.append('sceneId', sceneId);
-      formData.append('operation', 'tiles');
+      formData.append('destination', writeToStorage ? 'storage' : 'job');
+      formData.append('cubemap', String(withCubemap));
+      formData.append('levels', tileLevels);
+      formData.append('maxResolution', maxResolution);
+      formData.append('formats', extraFormats.join(','));
+      if (tileSize) {
+        formData.append('tileSize', tileSize);
+      }
 
-      const response = await fetch('/api/process-image', {
+      const response = await fetch('/api/process-image/jobs', {
         method: 'POST',
+        headers: authHeaders(),
         body: formData,
       });
 
       if (!response.ok) {
-        throw new Error('Failed to generate tiles');
+        throw new Error('Failed to submit tile job');
       }
 
-      const result = await response.json();
-      
-      // Convert base64 tiles back to buffers
-      const tilesMap = new Map<string, Buffer>();
-      for (const [key, base64] of Object.entries(result.tiles)) {
-        tilesMap.set(key, Buffer.from(base64 as string, 'base64'));
-      }
+      const { jobId } = await response.json();
 
-      setTiles(tilesMap);
-      updateStage('tiles', 'complete', { count: result.count });
-      setCurrentStage('upload');
-      saveState();
+      setTilesJobId(jobId);
+      persistTilesJobId(jobId);
+      updateStage('tiles', 'processing', { jobId });
+      watchTileJob(jobId);
     } catch (error) {
       updateStage('tiles', 'error');
       saveState();
       console.error('Tile generation error:', error);
     }
-  }, [processedImage, sceneId]);
+  }, [processedImage, sceneId, writeToStorage, withCubemap, tileLevels, tileSize, maxResolution, extraFormats, tourId, persistTilesJobId, watchTileJob]);
 
   // Stage 4: Upload to Storage using uploadMultiple
   const uploadToStorage = useCallback(async () => {
-    if (!processedImage) return;
+    if (!jobMainImage && !processedImage) return;
 
     updateStage('upload', 'processing');
 
@@ -206,14 +423,19 @@ export default function AdvancedSceneUploader({ sceneId, onComplete }: AdvancedS
       // Prepare all files for batch upload
       const filesToUpload: Array<{ file: Buffer; key: string; contentType: string }> = [];
       
-      // Add main image
+      // Add main image - without a tile job the server patches, redacts and publishes it
       const timestamp = Date.now();
       const mainKey = `scenes/${sceneId}/pano_${timestamp}.jpg`;
-      filesToUpload.push({
-        file: processedImage,
-        key: mainKey,
-        contentType: 'image/jpeg'
-      });
+      let mainImageUrl = '';
+      if (jobMainImage) {
+        filesToUpload.push({
+          file: jobMainImage,
+          key: mainKey,
+          contentType: 'image/jpeg'
+        });
+      } else if (processedImage) {
+        mainImageUrl = await publishSceneImage(tourId || '', sceneId, new Blob([new Uint8Array(processedImage)], { type: 'image/jpeg' }));
+      }
 
       // Add all tiles
       if (tiles.size > 0) {
@@ -222,7 +444,7 @@ export default function AdvancedSceneUploader({ sceneId, onComplete }: AdvancedS
           filesToUpload.push({
             file: buffer,
             key,
-            contentType: 'image/jpeg'
+            contentType: TILE_CONTENT_TYPES[filename.split('.').pop() || ''] || 'image/jpeg'
           });
         }
       }
@@ -243,7 +465,7 @@ export default function AdvancedSceneUploader({ sceneId, onComplete }: AdvancedS
 
       // Store URLs with correct keys
       const urls = new Map<string, string>();
-      urls.set('main', uploadedUrls.get(mainKey) || '');
+      urls.set('main', uploadedUrls.get(mainKey) || mainImageUrl);
       
       // Add tile URLs
       for (const [key, url] of uploadedUrls.entries()) {
@@ -262,7 +484,7 @@ export default function AdvancedSceneUploader({ sceneId, onComplete }: AdvancedS
       saveState();
       console.error('Upload error:', error);
     }
-  }, [processedImage, tiles, sceneId]);
+  }, [jobMainImage, processedImage, tiles, sceneId, tourId]);
 
   // Stage 5: Save to Database
   const saveToDatabase = useCallback(async () => {
@@ -272,9 +494,18 @@ export default function AdvancedSceneUploader({ sceneId, onComplete }: AdvancedS
 
     try {
       // Create comprehensive tiles manifest JSON - automatically generate levels based on tiles
-      let tilesManifest = null;
+      let tilesManifest: TilesManifest | Record<string, unknown> | null = storedManifest;
       
-      if (tiles.size > 0) {
+      if (!tilesManifest && tileLayout) {
+        // Server reported the exact pyramid - just attach the uploaded URLs
+        tilesManifest = {
+          ...tileLayout,
+          preview: uploadedUrls.get('preview.jpg'),
+          tiles: tileLayout.tiles.map((tile) => ({ ...tile, url: uploadedUrls.get(tile.key) }))
+        };
+      }
+      
+      if (!tilesManifest && tiles.size > 0) {
         // Parse all tiles to determine levels
         const tilesByLevel = new Map<number, Array<{col: number, row: number}>>();
         const allTiles:any = [];
@@ -350,7 +581,8 @@ export default function AdvancedSceneUploader({ sceneId, onComplete }: AdvancedS
         },
         body: JSON.stringify({
           mainImageUrl: uploadedUrls.get('main'),
-          tilesManifest
+          tilesManifest,
+          cubemapManifestUrl: uploadedUrls.get('cubemap.json')
         })
       });
 
@@ -360,14 +592,15 @@ export default function AdvancedSceneUploader({ sceneId, onComplete }: AdvancedS
       clearSavedState(); // Clear state on successful completion
       onComplete?.({
         mainImageUrl: uploadedUrls.get('main'),
-        tilesManifest
+        tilesManifest,
+        cubemapManifestUrl: uploadedUrls.get('cubemap.json')
       });
     } catch (error) {
       updateStage('save', 'error');
       saveState();
       console.error('Save error:', error);
     }
-  }, [uploadedUrls, tiles, sceneId, onComplete]);
+  }, [uploadedUrls, tiles, storedManifest, tileLayout, sceneId, onComplete]);
 
   // Skip to specific stage
   const skipToUpload = useCallback(() => {
@@ -402,16 +635,89 @@ export default function AdvancedSceneUploader({ sceneId, onComplete }: AdvancedS
           );
         case 'process':
           return (
-            <button
-              onClick={processImage}
-              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
-            >
-              Process Image
-            </button>
+            <div className="flex items-center gap-2">
+              {validation?.repair && (
+                <label className="flex items-center gap-1 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={padPartial}
+                    onChange={(e) => setPadPartial(e.target.checked)}
+                  />
+                  Pad to full panorama
+                </label>
+              )}
+              <button
+                onClick={processImage}
+                disabled={validating || (validation ? !validation.valid : false)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                {validating ? 'Checking panorama...' : 'Process Image'}
+              </button>
+            </div>
           );
         case 'tiles':
           return (
-            <div className="flex gap-2">
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-1 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={writeToStorage}
+                  onChange={(e) => setWriteToStorage(e.target.checked)}
+                />
+                Write to storage
+              </label>
+              <label className="flex items-center gap-1 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={withCubemap}
+                  onChange={(e) => setWithCubemap(e.target.checked)}
+                />
+                Cubemap
+              </label>
+              {['webp', 'avif'].map((format) => (
+                <label key={format} className="flex items-center gap-1 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={extraFormats.includes(format)}
+                    onChange={(e) => setExtraFormats((prev) =>
+                      e.target.checked ? [...prev, format] : prev.filter((item) => item !== format)
+                    )}
+                  />
+                  {format.toUpperCase()}
+                </label>
+              ))}
+              <select
+                value={tileLevels}
+                onChange={(e) => setTileLevels(e.target.value)}
+                className="text-sm border rounded px-1 py-1"
+                title="Pyramid levels"
+              >
+                <option value="auto">Auto levels</option>
+                {[2, 3, 4, 5, 6].map((count) => (
+                  <option key={count} value={count}>{count} levels</option>
+                ))}
+              </select>
+              <select
+                value={tileSize}
+                onChange={(e) => setTileSize(e.target.value)}
+                className="text-sm border rounded px-1 py-1"
+                title="Tile size"
+              >
+                <option value="">Auto tile size</option>
+                {[256, 512, 1024].map((size) => (
+                  <option key={size} value={size}>{size}px tiles</option>
+                ))}
+              </select>
+              <select
+                value={maxResolution}
+                onChange={(e) => setMaxResolution(e.target.value)}
+                className="text-sm border rounded px-1 py-1"
+                title="Max resolution"
+              >
+                {[4096, 8192, 12288, 16384].map((width) => (
+                  <option key={width} value={width}>max {width / 1024}K</option>
+                ))}
+              </select>
               <button
                 onClick={generateTiles}
                 className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
@@ -513,6 +819,49 @@ export default function AdvancedSceneUploader({ sceneId, onComplete }: AdvancedS
                 {getStageAction(stage)}
               </div>
 
+              {/* Panorama Validation */}
+              {stage.id === 'process' && validation && (
+                <div className="mt-4 text-sm text-gray-600">
+                  <p>
+                    {validation.width}x{validation.height} ({validation.aspectRatio.toFixed(2)}:1), {validation.projection}
+                    {validation.gpano ? ', GPano metadata' : ''}
+                    {validation.exif.present ? ', EXIF' : ''}
+                  </p>
+                  {validation.issues.map((issue) => (
+                    <p
+                      key={issue.code}
+                      className={issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}
+                    >
+                      {issue.message}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {/* Tile Job Progress */}
+              {stage.id === 'tiles' && stage.status === 'processing' && tileJobLevels.length > 0 && (
+                <div className="mt-4 space-y-2">
+                  {tileJobLevels.map((level) => {
+                    const label = level.stage === 'cubemap' ? 'Cubemap level' : 'Level';
+                    const percentage = level.tilesTotal ? Math.round((level.tilesDone / level.tilesTotal) * 100) : 0;
+                    return (
+                      <div key={`${level.stage}:${level.level}`}>
+                        <div className="flex justify-between text-sm text-gray-600">
+                          <span>{label} {level.level} ({level.width}x{level.height})</span>
+                          <span>{level.tilesDone}/{level.tilesTotal}</span>
+                        </div>
+                        <div className="w-full bg-gray-200 rounded-full h-2">
+                          <div 
+                            className="bg-blue-600 h-2 rounded-full transition-all"
+                            style={{ width: `${percentage}%` }}
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
               {/* Upload Progress */}
               {stage.id === 'upload' && stage.status === 'processing' && (
                 <div className="mt-4 space-y-2">
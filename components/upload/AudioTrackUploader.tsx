@@ -0,0 +1,101 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { storageUploader } from '@/lib/storage-upload';
+
+interface AudioTrackUploaderProps {
+  label: string;
+  url: string;
+  volume: number;
+  // Storage folder, e.g. tours/<id>/audio
+  keyPrefix: string;
+  onChange: (url: string, volume: number) => void;
+  onError?: (message: string) => void;
+  onUploadingChange?: (uploading: boolean) => void;
+}
+
+/**
+ * Upload, preview and level one looping track
+ */
+export default function AudioTrackUploader({
+  label,
+  url,
+  volume,
+  keyPrefix,
+  onChange,
+  onError,
+  onUploadingChange,
+}: AudioTrackUploaderProps) {
+  const [progress, setProgress] = useState<number | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  // Follow the slider during playback too (the element mounts once there's a track)
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.volume = volume;
+  }, [volume, url]);
+
+  const handleUpload = async (file: File) => {
+    setProgress(0);
+    onUploadingChange?.(true);
+    try {
+      const extension = file.name.split('.').pop() || 'mp3';
+      const uploadedUrl = await storageUploader.uploadFile(
+        file,
+        `${keyPrefix}/${Date.now()}.${extension}`,
+        file.type || 'audio/mpeg',
+        ({ percentage }) => setProgress(percentage)
+      );
+      onChange(uploadedUrl, volume);
+    } catch (err) {
+      onError?.(err instanceof Error ? err.message : 'Failed to upload audio');
+    } finally {
+      setProgress(null);
+      onUploadingChange?.(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium">{label}</label>
+      {url ? (
+        <div className="flex items-center gap-2">
+          {/* Preview at the chosen level - the viewer plays it looped */}
+          <audio ref={audioRef} controls src={url} className="h-8 flex-1" />
+          <button
+            onClick={() => onChange('', volume)}
+            className="text-sm text-red-600 hover:underline"
+          >
+            Remove
+          </button>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">No track</p>
+      )}
+      <input
+        type="file"
+        accept="audio/mpeg,audio/ogg,audio/wav,audio/aac,audio/mp4,audio/webm"
+        disabled={progress !== null}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleUpload(file);
+          e.target.value = '';
+        }}
+        className="text-sm"
+      />
+      {progress !== null && <p className="text-xs text-gray-500">Uploading... {progress}%</p>}
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-gray-600">Volume</span>
+        <input
+          type="range"
+          min="0"
+          max="1"
+          step="0.05"
+          value={volume}
+          onChange={(e) => onChange(url, parseFloat(e.target.value))}
+          className="flex-1"
+        />
+        <span className="text-sm text-gray-500 w-10">{Math.round(volume * 100)}%</span>
+      </div>
+    </div>
+  );
+}
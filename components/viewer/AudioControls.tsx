@@ -0,0 +1,141 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Hotspot, Scene, Tour } from '@/types/tour';
+import { isWebAudioSupported, TourAudio, type PositionalSource } from './multires/audio';
+import { AUDIO_DEFAULT_AMBIENT_VOLUME, AUDIO_DEFAULT_MUSIC_VOLUME } from './multires/constants';
+import { getHotspotAudio } from './multires/hotspots';
+
+// unavailable: nothing to play or no WebAudio; blocked: waiting for a tap to start
+type TourAudioState = 'unavailable' | 'blocked' | 'on' | 'muted';
+
+const MUTED_STORAGE_KEY = 'tourAudioMuted';
+
+const clampVolume = (volume: number | undefined, fallback: number) =>
+  typeof volume === 'number' ? Math.max(0, Math.min(1, volume)) : fallback;
+
+/**
+ * Tour music, scene ambience and audio hotspots for a viewer: the viewer calls
+ * audioRef.current.updateListener() each frame with the view direction
+ */
+export function useTourAudio(tour: Tour | undefined, scene: Scene | undefined, hotspots: Hotspot[]) {
+  const audioRef = useRef<TourAudio | null>(null);
+  const [state, setState] = useState<TourAudioState>('unavailable');
+  const mutedRef = useRef(false);
+
+  const musicUrl = tour?.background_audio_url || null;
+  const musicVolume = clampVolume(tour?.background_audio_volume, AUDIO_DEFAULT_MUSIC_VOLUME);
+  const ambientUrl = scene?.ambient_audio_url || null;
+  const ambientVolume = clampVolume(scene?.ambient_audio_volume, AUDIO_DEFAULT_AMBIENT_VOLUME);
+
+  const sources = useMemo<PositionalSource[]>(() => hotspots.flatMap((hotspot, index) => {
+    if (!scene || hotspot.scene_id !== scene.id) return [];
+    const audio = getHotspotAudio(hotspot);
+    return audio
+      ? [{ id: hotspot.id ?? `hotspot-${index}`, url: audio.url, yaw: hotspot.yaw, pitch: hotspot.pitch, volume: audio.volume }]
+      : [];
+  }), [hotspots, scene]);
+  // Hotspot arrays get rebuilt on every fetch - only push real changes
+  const sourcesKey = JSON.stringify(sources);
+
+  const hasAudio = !!(musicUrl || ambientUrl || sources.length);
+
+  useEffect(() => {
+    if (!isWebAudioSupported()) return;
+    const audio = new TourAudio();
+    audioRef.current = audio;
+    mutedRef.current = localStorage.getItem(MUTED_STORAGE_KEY) === '1';
+    audio.setMuted(mutedRef.current);
+    return () => {
+      audio.dispose();
+      audioRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    audioRef.current?.setMusic(musicUrl, musicVolume);
+  }, [musicUrl, musicVolume]);
+
+  useEffect(() => {
+    audioRef.current?.setAmbient(ambientUrl, ambientVolume);
+  }, [ambientUrl, ambientVolume]);
+
+  useEffect(() => {
+    audioRef.current?.setPositionalSources(JSON.parse(sourcesKey));
+  }, [sourcesKey]);
+
+  // Browsers only let audio start from a gesture: the first tap or key press anywhere does it
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !hasAudio) {
+      setState('unavailable');
+      return;
+    }
+    if (audio.running) {
+      setState(mutedRef.current ? 'muted' : 'on');
+      return;
+    }
+    setState(mutedRef.current ? 'muted' : 'blocked');
+    if (mutedRef.current) return;
+
+    const unlock = async () => {
+      if (!(await audio.unlock())) return;
+      detach();
+      setState(mutedRef.current ? 'muted' : 'on');
+    };
+    const detach = () => {
+      window.removeEventListener('pointerdown', unlock);
+      window.removeEventListener('keydown', unlock);
+    };
+    window.addEventListener('pointerdown', unlock);
+    window.addEventListener('keydown', unlock);
+    return detach;
+  }, [hasAudio]);
+
+  const toggle = useCallback(async () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const muted = state === 'on';
+    mutedRef.current = muted;
+    localStorage.setItem(MUTED_STORAGE_KEY, muted ? '1' : '0');
+    audio.setMuted(muted);
+    if (muted) {
+      setState('muted');
+      return;
+    }
+    // This click is a gesture, so unmuting can start audio the first time too
+    setState((await audio.unlock()) ? 'on' : 'blocked');
+  }, [state]);
+
+  return { audioRef, state, toggle, hasAudio };
+}
+
+interface AudioControlsProps {
+  state: TourAudioState;
+  onToggle: () => void;
+  // Positioning within the viewer
+  className?: string;
+}
+
+export default function AudioControls({
+  state,
+  onToggle,
+  className = 'bottom-16 right-4',
+}: AudioControlsProps) {
+  if (state === 'unavailable') return null;
+
+  const on = state === 'on';
+  return (
+    <button
+      onClick={onToggle}
+      // Leave the unlock to the click, or the window listener would start audio and the click mute it again
+      onPointerDown={(event) => event.stopPropagation()}
+      aria-pressed={!on}
+      aria-label={on ? 'Mute tour audio' : 'Play tour audio'}
+      className={`absolute z-10 rounded bg-black/50 px-3 py-2 text-sm text-white hover:bg-black/70 ${className}`}
+    >
+      {on ? '🔊' : '🔇'}
+      {state === 'blocked' && <span className="ml-2">Tap for sound</span>}
+    </button>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { AutoplayNarration } from '@/types/tour';
+import type { AutoplayStatus } from './multires/autoplay';
+
+interface AutoplayControlsProps {
+  status: AutoplayStatus;
+  narration: AutoplayNarration | null;
+  onPlay: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onSkip: () => void;
+  onStop: () => void;
+}
+
+export default function AutoplayControls({
+  status,
+  narration,
+  onPlay,
+  onPause,
+  onResume,
+  onSkip,
+  onStop,
+}: AutoplayControlsProps) {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const audioUrl = narration?.audioUrl;
+
+  // One clip per waypoint; it only plays while the tour does
+  useEffect(() => {
+    if (!audioUrl) return;
+    const audio = new Audio(audioUrl);
+    audioRef.current = audio;
+    return () => {
+      audio.pause();
+      audioRef.current = null;
+    };
+  }, [audioUrl]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (status === 'playing') {
+      audio.play().catch(() => {
+        /* autoplay policy - the caption still shows */
+      });
+    } else {
+      audio.pause();
+    }
+  }, [status, audioUrl]);
+
+  const active = status !== 'stopped';
+
+  return (
+    <div className="pointer-events-none absolute bottom-4 left-1/2 z-10 flex -translate-x-1/2 flex-col items-center gap-2">
+      {active && narration?.text && (
+        <p aria-live="polite" className="max-w-md rounded bg-black/60 px-4 py-2 text-center text-sm text-white">
+          {narration.text}
+        </p>
+      )}
+      <div className="pointer-events-auto flex gap-2">
+        {!active && (
+          <button
+            onClick={onPlay}
+            className="rounded bg-black/50 px-3 py-2 text-sm text-white hover:bg-black/70"
+          >
+            ▶ Guided tour
+          </button>
+        )}
+        {active && (
+          <>
+            <button
+              onClick={status === 'playing' ? onPause : onResume}
+              className="rounded bg-black/50 px-3 py-2 text-sm text-white hover:bg-black/70"
+            >
+              {status === 'playing' ? '⏸ Pause' : '▶ Resume'}
+            </button>
+            <button
+              onClick={onSkip}
+              className="rounded bg-black/50 px-3 py-2 text-sm text-white hover:bg-black/70"
+            >
+              ⏭ Skip
+            </button>
+            <button
+              onClick={onStop}
+              className="rounded bg-black/50 px-3 py-2 text-sm text-white hover:bg-black/70"
+            >
+              ■ Stop
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,449 @@
+'use client';
+
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import { AutoplayEasing, AutoplaySceneStep, AutoplayScript, AutoplayWaypoint, Scene, Tour } from '@/types/tour';
+import { tourService } from '@/services/tourService';
+import type { MultiresViewerHandle } from './MultiresViewer';
+import { parseAutoplayScript } from './multires/autoplay';
+import { AutoplayRecorder } from './multires/autoplay-recorder';
+
+interface AutoplayRecorderPanelProps {
+  tour: Tour;
+  scenes: Scene[];
+  currentSceneId: string;
+  viewerRef: RefObject<MultiresViewerHandle | null>;
+  // Open a scene from the timeline (not used while recording)
+  onSceneRequest: (sceneId: string) => void;
+  onRecordingChange: (recording: boolean) => void;
+  // Draft script to play in the viewer, null to stop previewing
+  onPreview: (autoplayJson: string | null) => void;
+  onUpdate?: (tour: Tour) => void;
+  onClose: () => void;
+}
+
+interface Selection {
+  step: number;
+  waypoint: number;
+}
+
+const SAMPLE_INTERVAL_MS = 100;
+const EASINGS: AutoplayEasing[] = ['ease-in-out', 'ease-in', 'ease-out', 'linear'];
+
+const seconds = (ms: number) => Math.round(ms / 100) / 10;
+
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= items.length) return items;
+  const next = items.slice();
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+// Recorded steps continue the draft; a recording that starts in the draft's last scene extends it
+function appendSteps(draft: AutoplaySceneStep[], recorded: AutoplaySceneStep[]): AutoplaySceneStep[] {
+  if (!recorded.length) return draft;
+  const last = draft[draft.length - 1];
+  if (last && last.sceneId === recorded[0].sceneId) {
+    return [
+      ...draft.slice(0, -1),
+      { ...last, waypoints: [...last.waypoints, ...recorded[0].waypoints] },
+      ...recorded.slice(1),
+    ];
+  }
+  return [...draft, ...recorded];
+}
+
+export default function AutoplayRecorderPanel({
+  tour,
+  scenes,
+  currentSceneId,
+  viewerRef,
+  onSceneRequest,
+  onRecordingChange,
+  onPreview,
+  onUpdate,
+  onClose,
+}: AutoplayRecorderPanelProps) {
+  const [script] = useState(() => parseAutoplayScript(tour.autoplay_json));
+  const [steps, setSteps] = useState<AutoplaySceneStep[]>(() => script?.scenes ?? []);
+  const [loop, setLoop] = useState(!!script?.loop);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [keyframeCount, setKeyframeCount] = useState(0);
+  const [previewing, setPreviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const recorderRef = useRef<AutoplayRecorder | null>(null);
+
+  const buildScript = (): AutoplayScript => ({
+    version: 1,
+    scenes: steps,
+    loop,
+    idleResumeMs: script?.idleResumeMs,
+  });
+
+  const updateSteps = (next: AutoplaySceneStep[]) => {
+    setSteps(next.filter((step) => step.waypoints.length > 0));
+    setSaved(false);
+  };
+
+  const updateWaypoint = (target: Selection, patch: Partial<AutoplayWaypoint>) => {
+    updateSteps(steps.map((step, stepIndex) => stepIndex !== target.step ? step : {
+      ...step,
+      waypoints: step.waypoints.map((waypoint, index) => index === target.waypoint ? { ...waypoint, ...patch } : waypoint),
+    }));
+  };
+
+  // Sample the view while recording
+  useEffect(() => {
+    if (!recording) return;
+    const timer = window.setInterval(() => {
+      const view = viewerRef.current?.getView();
+      const recorder = recorderRef.current;
+      if (!view || !recorder) return;
+      recorder.sample(performance.now(), view);
+      setKeyframeCount(recorder.keyframeCount);
+    }, SAMPLE_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [recording, viewerRef]);
+
+  // Following a navigation hotspot while recording becomes a scene jump
+  useEffect(() => {
+    recorderRef.current?.jumpToScene(performance.now(), currentSceneId);
+  }, [currentSceneId]);
+
+  useEffect(() => {
+    onRecordingChange(recording);
+  }, [recording, onRecordingChange]);
+
+  // Stop any preview when the panel goes away
+  useEffect(() => () => onPreview(null), [onPreview]);
+
+  // Re-send the draft while previewing, so retimed, reordered or deleted keyframes show straight away
+  useEffect(() => {
+    if (!previewing) return;
+    onPreview(steps.length ? JSON.stringify(buildScript()) : null);
+  }, [previewing, steps, loop]);
+
+  const startRecording = () => {
+    const view = viewerRef.current?.getView();
+    if (!view || !currentSceneId) return;
+    if (previewing) togglePreview();
+    recorderRef.current = new AutoplayRecorder(performance.now(), currentSceneId, view);
+    setKeyframeCount(recorderRef.current.keyframeCount);
+    setSelection(null);
+    setRecording(true);
+  };
+
+  const stopRecording = () => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    setRecording(false);
+    if (recorder) updateSteps(appendSteps(steps, recorder.finish(performance.now())));
+  };
+
+  const captureKeyframe = () => {
+    const view = viewerRef.current?.getView();
+    if (!view || !recorderRef.current) return;
+    recorderRef.current.capture(performance.now(), view);
+    setKeyframeCount(recorderRef.current.keyframeCount);
+  };
+
+  const togglePreview = () => {
+    const next = !previewing;
+    setPreviewing(next);
+    if (!next) onPreview(null);
+  };
+
+  const goToKeyframe = (target: Selection) => {
+    setSelection(target);
+    const step = steps[target.step];
+    const waypoint = step?.waypoints[target.waypoint];
+    if (!step || !waypoint || recording) return;
+    if (step.sceneId !== currentSceneId) onSceneRequest(step.sceneId);
+    // Let the scene switch settle before turning the view
+    window.setTimeout(() => viewerRef.current?.setView(waypoint), step.sceneId !== currentSceneId ? 800 : 0);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const updated = await tourService.updateTour(tour.id, {
+        autoplay_json: steps.length ? JSON.stringify(buildScript()) : ''
+      });
+      onUpdate?.(updated);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save autoplay');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const totalMs = steps.reduce(
+    (total, step) => total + step.waypoints.reduce((sum, waypoint) => sum + waypoint.moveMs + waypoint.dwellMs, 0),
+    0,
+  );
+  const selectedStep = selection ? steps[selection.step] : undefined;
+  const selectedWaypoint = selection ? selectedStep?.waypoints[selection.waypoint] : undefined;
+  const sceneName = (sceneId: string) => scenes.find((scene) => scene.id === sceneId)?.name ?? 'Missing scene';
+
+  return (
+    <div className="bg-white rounded-lg shadow-xl p-4 w-[420px] max-h-[calc(100vh-2rem)] overflow-y-auto">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold">Autoplay Path</h3>
+        <button onClick={onClose} disabled={recording} className="text-gray-500 hover:text-gray-700 disabled:opacity-50">
+          ✕
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-100 text-red-700 rounded text-sm">{error}</div>
+      )}
+
+      {/* Recording */}
+      <div className="flex gap-2 mb-3">
+        {recording ? (
+          <>
+            <button
+              onClick={stopRecording}
+              className="flex-1 px-3 py-2 bg-red-600 text-white rounded text-sm font-medium hover:bg-red-700"
+            >
+              ■ Stop ({keyframeCount} keyframes)
+            </button>
+            <button
+              onClick={captureKeyframe}
+              className="px-3 py-2 bg-gray-200 text-gray-800 rounded text-sm hover:bg-gray-300"
+            >
+              + Keyframe
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={startRecording}
+              className="flex-1 px-3 py-2 bg-red-50 text-red-700 border border-red-200 rounded text-sm font-medium hover:bg-red-100"
+            >
+              ● Record
+            </button>
+            <button
+              onClick={togglePreview}
+              disabled={!steps.length}
+              className="px-3 py-2 bg-gray-200 text-gray-800 rounded text-sm hover:bg-gray-300 disabled:opacity-50"
+            >
+              {previewing ? '■ Stop preview' : '▶ Preview'}
+            </button>
+          </>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        {recording
+          ? 'Look around - a keyframe is taken each time the view comes to rest. Click a navigation hotspot to continue in another scene.'
+          : 'Recording adds to the end of the path.'}
+      </p>
+
+      {/* Timeline: block widths follow move + hold time */}
+      {steps.length > 0 && (
+        <div className="mb-3">
+          <div className="flex justify-between text-xs text-gray-500 mb-1">
+            <span>Timeline</span>
+            <span>{seconds(totalMs)}s</span>
+          </div>
+          <div className="flex h-8 rounded overflow-hidden border">
+            {steps.map((step, stepIndex) => step.waypoints.map((waypoint, index) => {
+              const selected = selection?.step === stepIndex && selection.waypoint === index;
+              const duration = Math.max(1, waypoint.moveMs + waypoint.dwellMs);
+              return (
+                <button
+                  key={`${stepIndex}-${index}`}
+                  onClick={() => goToKeyframe({ step: stepIndex, waypoint: index })}
+                  title={`${sceneName(step.sceneId)} - keyframe ${index + 1}`}
+                  style={{ flexGrow: duration, flexBasis: 0 }}
+                  className={`min-w-[6px] flex ${index === 0 && stepIndex > 0 ? 'border-l-2 border-gray-800' : 'border-l border-white'}`}
+                >
+                  <span
+                    style={{ flexGrow: Math.max(1, waypoint.moveMs) }}
+                    className={selected ? 'bg-blue-300' : 'bg-blue-100'}
+                  />
+                  <span
+                    style={{ flexGrow: Math.max(1, waypoint.dwellMs) }}
+                    className={selected ? 'bg-blue-600' : 'bg-blue-400'}
+                  />
+                </button>
+              );
+            }))}
+          </div>
+        </div>
+      )}
+
+      {/* Scenes and their keyframes */}
+      <div className="space-y-2 mb-3">
+        {steps.map((step, stepIndex) => (
+          <div key={stepIndex} className="border rounded p-2">
+            <div className="flex items-center justify-between text-sm font-medium mb-1">
+              <span className="truncate">{stepIndex + 1}. {sceneName(step.sceneId)}</span>
+              <span className="flex gap-1 text-gray-500">
+                <button onClick={() => updateSteps(moveItem(steps, stepIndex, stepIndex - 1))} title="Move scene earlier">▲</button>
+                <button onClick={() => updateSteps(moveItem(steps, stepIndex, stepIndex + 1))} title="Move scene later">▼</button>
+                <button
+                  onClick={() => {
+                    updateSteps(steps.filter((_, index) => index !== stepIndex));
+                    setSelection(null);
+                  }}
+                  title="Remove scene from the path"
+                  className="text-red-500 hover:text-red-700"
+                >
+                  ✕
+                </button>
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {step.waypoints.map((waypoint, index) => (
+                <button
+                  key={index}
+                  onClick={() => goToKeyframe({ step: stepIndex, waypoint: index })}
+                  className={`px-2 py-0.5 rounded text-xs ${
+                    selection?.step === stepIndex && selection.waypoint === index
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {index + 1} · {seconds(waypoint.moveMs + waypoint.dwellMs)}s
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+        {!steps.length && <p className="text-gray-500 text-sm italic">No autoplay path yet</p>}
+      </div>
+
+      {/* Selected keyframe */}
+      {selection && selectedStep && selectedWaypoint && (
+        <div className="border rounded p-3 mb-3 bg-gray-50 space-y-2">
+          <div className="flex items-center justify-between text-sm font-medium">
+            <span>Keyframe {selection.waypoint + 1}</span>
+            <span className="text-xs text-gray-500">
+              {selectedWaypoint.yaw.toFixed(0)}° / {selectedWaypoint.pitch.toFixed(0)}° · fov {selectedWaypoint.fov !== undefined ? selectedWaypoint.fov.toFixed(0) : '-'}
+            </span>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-600">
+              Move (s)
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={seconds(selectedWaypoint.moveMs)}
+                onChange={(e) => updateWaypoint(selection, { moveMs: Math.max(0, parseFloat(e.target.value) || 0) * 1000 })}
+                className="w-full px-2 py-1 border rounded text-sm"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Hold (s)
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={seconds(selectedWaypoint.dwellMs)}
+                onChange={(e) => updateWaypoint(selection, { dwellMs: Math.max(0, parseFloat(e.target.value) || 0) * 1000 })}
+                className="w-full px-2 py-1 border rounded text-sm"
+              />
+            </label>
+          </div>
+          <select
+            value={selectedWaypoint.easing ?? 'ease-in-out'}
+            onChange={(e) => updateWaypoint(selection, { easing: e.target.value as AutoplayEasing })}
+            className="w-full px-2 py-1 border rounded text-sm"
+          >
+            {EASINGS.map((easing) => (
+              <option key={easing} value={easing}>{easing}</option>
+            ))}
+          </select>
+          <textarea
+            value={selectedWaypoint.narration?.text ?? ''}
+            onChange={(e) => updateWaypoint(selection, {
+              narration: e.target.value ? { ...selectedWaypoint.narration, text: e.target.value } : undefined,
+            })}
+            placeholder="Narration caption (optional)"
+            rows={2}
+            className="w-full px-2 py-1 border rounded text-sm resize-none"
+          />
+          <div className="flex flex-wrap gap-2 text-sm">
+            <button
+              onClick={() => {
+                updateSteps(steps.map((step, stepIndex) => stepIndex !== selection.step ? step : {
+                  ...step,
+                  waypoints: moveItem(step.waypoints, selection.waypoint, selection.waypoint - 1),
+                }));
+                setSelection({ ...selection, waypoint: Math.max(0, selection.waypoint - 1) });
+              }}
+              className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300"
+            >
+              ◀ Earlier
+            </button>
+            <button
+              onClick={() => {
+                updateSteps(steps.map((step, stepIndex) => stepIndex !== selection.step ? step : {
+                  ...step,
+                  waypoints: moveItem(step.waypoints, selection.waypoint, selection.waypoint + 1),
+                }));
+                setSelection({ ...selection, waypoint: Math.min(selectedStep.waypoints.length - 1, selection.waypoint + 1) });
+              }}
+              className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300"
+            >
+              Later ▶
+            </button>
+            <button
+              onClick={() => {
+                const view = viewerRef.current?.getView();
+                if (view && selectedStep.sceneId === currentSceneId) updateWaypoint(selection, view);
+              }}
+              disabled={recording || selectedStep.sceneId !== currentSceneId}
+              className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+            >
+              Use current view
+            </button>
+            <button
+              onClick={() => {
+                updateSteps(steps.map((step, stepIndex) => stepIndex !== selection.step ? step : {
+                  ...step,
+                  waypoints: step.waypoints.filter((_, index) => index !== selection.waypoint),
+                }));
+                setSelection(null);
+              }}
+              className="px-2 py-1 text-red-600 hover:text-red-800"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-sm mb-3">
+        <input
+          type="checkbox"
+          checked={loop}
+          onChange={(e) => {
+            setLoop(e.target.checked);
+            setSaved(false);
+          }}
+        />
+        Start over after the last scene
+      </label>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={saving || recording}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Autoplay'}
+        </button>
+        {saved && <span className="text-sm text-green-600">Saved</span>}
+      </div>
+    </div>
+  );
+}
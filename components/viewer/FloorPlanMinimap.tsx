@@ -0,0 +1,147 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { Scene, Tour } from '@/types/tour';
+import { findScenePin, parseFloorPlans, pinYawOrigin, viewConePath } from './multires/floor-plan';
+
+// Cone length on the plan (px)
+const CONE_RADIUS = 28;
+
+interface FloorPlanMinimapProps {
+  tour: Tour;
+  scenes: Scene[];
+  currentSceneId: string;
+  // Read every frame for the view cone; fov is horizontal, in degrees
+  getView: () => { yaw: number; fov: number };
+  onSelectScene: (sceneId: string) => void;
+  // Positioning within the viewer
+  className?: string;
+}
+
+export default function FloorPlanMinimap({
+  tour,
+  scenes,
+  currentSceneId,
+  getView,
+  onSelectScene,
+  className = 'top-4 right-4',
+}: FloorPlanMinimapProps) {
+  const plans = useMemo(() => parseFloorPlans(tour.floor_plans_json), [tour.floor_plans_json]);
+  const current = useMemo(() => findScenePin(plans, currentSceneId), [plans, currentSceneId]);
+  const [planId, setPlanId] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState(false);
+  const coneRef = useRef<SVGSVGElement>(null);
+  const conePathRef = useRef<SVGPathElement>(null);
+
+  // Follow the visitor onto the floor they walked to
+  const currentPlanId = current?.plan.id ?? null;
+  useEffect(() => {
+    if (currentPlanId) setPlanId(currentPlanId);
+  }, [currentPlanId]);
+
+  const plan = plans.find((candidate) => candidate.id === planId) ?? current?.plan ?? plans[0];
+  const currentScene = scenes.find((scene) => scene.id === currentSceneId);
+  const yawOrigin = current && current.plan.id === plan?.id
+    ? pinYawOrigin(current.plan, current.pin, currentScene)
+    : null;
+  const showCone = !collapsed && yawOrigin !== null;
+
+  // The cone turns with the camera without re-rendering the map
+  const getViewRef = useRef(getView);
+  useEffect(() => {
+    getViewRef.current = getView;
+  }, [getView]);
+
+  useEffect(() => {
+    if (!showCone) return;
+    let frame = 0;
+    let lastAngle = NaN;
+    let lastSpread = NaN;
+    const update = () => {
+      frame = requestAnimationFrame(update);
+      const { yaw, fov } = getViewRef.current();
+      const angle = Math.round(((yawOrigin as number) + yaw) * 10) / 10;
+      const spread = Math.round(fov);
+      if (angle !== lastAngle && coneRef.current) {
+        lastAngle = angle;
+        coneRef.current.style.transform = `translate(-50%, -50%) rotate(${angle}deg)`;
+      }
+      if (spread !== lastSpread && conePathRef.current) {
+        lastSpread = spread;
+        conePathRef.current.setAttribute('d', viewConePath(spread, CONE_RADIUS));
+      }
+    };
+    update();
+    return () => cancelAnimationFrame(frame);
+  }, [showCone, yawOrigin]);
+
+  if (!plan) return null;
+
+  return (
+    <div className={`absolute z-10 w-60 rounded bg-black/60 p-2 text-white ${className}`}>
+      <div className="flex items-center gap-1">
+        {plans.length > 1 ? (
+          <div className="flex flex-1 gap-1 overflow-x-auto">
+            {plans.map((candidate) => (
+              <button
+                key={candidate.id}
+                onClick={() => {
+                  setPlanId(candidate.id);
+                  setCollapsed(false);
+                }}
+                className={`whitespace-nowrap rounded px-2 py-1 text-xs ${candidate.id === plan.id ? 'bg-cyan-600' : 'hover:bg-white/20'}`}
+              >
+                {candidate.name || 'Floor plan'}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <span className="flex-1 truncate px-1 text-xs">{plan.name || 'Floor plan'}</span>
+        )}
+        <button
+          onClick={() => setCollapsed((value) => !value)}
+          aria-expanded={!collapsed}
+          aria-label={collapsed ? 'Show floor plan' : 'Hide floor plan'}
+          className="rounded px-2 py-1 text-xs hover:bg-white/20"
+        >
+          {collapsed ? '▾' : '▴'}
+        </button>
+      </div>
+
+      {!collapsed && (
+        <div className="relative mt-2 overflow-hidden rounded bg-white">
+          <img src={plan.imageUrl} alt={plan.name || 'Floor plan'} className="block w-full select-none" draggable={false} />
+          {showCone && current && (
+            <svg
+              ref={coneRef}
+              width={CONE_RADIUS * 2}
+              height={CONE_RADIUS * 2}
+              className="pointer-events-none absolute"
+              style={{ left: `${current.pin.x * 100}%`, top: `${current.pin.y * 100}%`, transform: 'translate(-50%, -50%)' }}
+            >
+              <path ref={conePathRef} fill="rgba(0, 188, 212, 0.35)" stroke="rgba(0, 188, 212, 0.9)" strokeWidth="1" />
+            </svg>
+          )}
+          {plan.pins.map((pin) => {
+            const scene = scenes.find((candidate) => candidate.id === pin.sceneId);
+            if (!scene) return null;
+            const isCurrent = pin.sceneId === currentSceneId;
+            return (
+              <button
+                key={pin.sceneId}
+                onClick={() => !isCurrent && onSelectScene(pin.sceneId)}
+                title={scene.name}
+                aria-label={isCurrent ? `${scene.name} (you are here)` : `Go to ${scene.name}`}
+                aria-current={isCurrent ? 'location' : undefined}
+                className={`absolute -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow ${
+                  isCurrent ? 'h-4 w-4 bg-cyan-500' : 'h-3 w-3 bg-gray-700 hover:bg-cyan-400'
+                }`}
+                style={{ left: `${pin.x * 100}%`, top: `${pin.y * 100}%` }}
+              />
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
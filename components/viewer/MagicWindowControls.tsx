@@ -0,0 +1,89 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  DeviceOrientationLook,
+  isOrientationLookSupported,
+  requestOrientationPermission,
+} from './multires/device-orientation';
+
+type MagicWindowState = 'unsupported' | 'off' | 'on' | 'denied';
+
+/**
+ * Device-orientation look-around for a viewer: the viewer polls lookRef each frame
+ */
+export function useMagicWindow() {
+  const lookRef = useRef<DeviceOrientationLook | null>(null);
+  const [state, setState] = useState<MagicWindowState>('unsupported');
+
+  useEffect(() => {
+    setState(isOrientationLookSupported() ? 'off' : 'unsupported');
+    return () => lookRef.current?.stop();
+  }, []);
+
+  const toggle = useCallback(async () => {
+    if (lookRef.current?.active) {
+      lookRef.current.stop();
+      setState('off');
+      return;
+    }
+    if (!(await requestOrientationPermission())) {
+      setState('denied');
+      return;
+    }
+    const look = lookRef.current ?? new DeviceOrientationLook();
+    lookRef.current = look;
+    look.start();
+    setState('on');
+  }, []);
+
+  const recenter = useCallback(() => {
+    lookRef.current?.recalibrate();
+  }, []);
+
+  return { lookRef, state, toggle, recenter };
+}
+
+interface MagicWindowControlsProps {
+  state: MagicWindowState;
+  onToggle: () => void;
+  onRecenter: () => void;
+  // Positioning within the viewer
+  className?: string;
+}
+
+export default function MagicWindowControls({
+  state,
+  onToggle,
+  onRecenter,
+  className = 'bottom-4 right-4',
+}: MagicWindowControlsProps) {
+  if (state === 'unsupported') return null;
+
+  return (
+    <div className={`absolute z-10 flex flex-col items-end gap-2 ${className}`}>
+      {state === 'denied' && (
+        <p className="max-w-[14rem] rounded bg-black/60 px-3 py-2 text-xs text-white">
+          Motion access was blocked. Allow it in your browser settings to look around by moving your phone.
+        </p>
+      )}
+      <div className="flex gap-2">
+        {state === 'on' && (
+          <button
+            onClick={onRecenter}
+            className="rounded bg-black/50 px-3 py-2 text-sm text-white hover:bg-black/70"
+          >
+            Recenter
+          </button>
+        )}
+        <button
+          onClick={onToggle}
+          aria-pressed={state === 'on'}
+          className={`rounded px-3 py-2 text-sm text-white ${state === 'on' ? 'bg-cyan-600' : 'bg-black/50 hover:bg-black/70'}`}
+        >
+          {state === 'on' ? 'Motion on' : 'Look with motion'}
+        </button>
+      </div>
+    </div>
+  );
+}
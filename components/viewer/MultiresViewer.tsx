@@ -1,21 +1,47 @@
 'use client';
 
-import { useCallback, useEffect, useMemo, useRef, type MutableRefObject } from 'react';
+import { useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState, type KeyboardEvent as ReactKeyboardEvent, type MutableRefObject, type Ref } from 'react';
 import * as THREE from 'three';
-import { Tour, Scene, Hotspot } from '@/types/tour';
-import { calculateVisibleTiles, getAppropriateLevel } from '@/lib/multires-utils';
+import { Tour, Scene, Hotspot, SceneTransitionStyle } from '@/types/tour';
+import { calculateVisibleTiles, getAppropriateLevel, TILE_QUALITY_PRESETS } from '@/lib/multires-utils';
+import type { TileQuality } from '@/lib/multires-utils';
 import {
-  MAX_CONCURRENT_TILE_LOADS,
   SPHERE_RADIUS,
+  LOOK_PAN_SPEED,
+  LOOK_ZOOM_SPEED,
+  SCENE_PREFETCH_ANGLE,
   TILE_CACHE_LIMIT,
   TILE_UNLOAD_COOLDOWN,
   TILE_UPDATE_INTERVAL_MS,
+  TILE_UPLOAD_BUDGET_PX,
 } from './multires/constants';
-import { createHotspotSprite } from './multires/hotspots';
-import { buildTileUrl, parseSceneManifest } from './multires/manifest';
+import AutoplayControls from './AutoplayControls';
+import MagicWindowControls, { useMagicWindow } from './MagicWindowControls';
+import AudioControls, { useTourAudio } from './AudioControls';
+import FloorPlanMinimap from './FloorPlanMinimap';
+import { createFocusRing, createHotspotSprite, getHotspotLabel, getHotspotTargetSceneId } from './multires/hotspots';
+import { GamepadInput, isLookKey, keyboardAxes, normalizeKey } from './multires/input';
+import { buildTileUrl, getTileCacheKey, getTileCacheStamp, parseSceneManifest } from './multires/manifest';
+import type { TileCacheStamp } from './multires/manifest';
+import { detectDecodableFormats, negotiateTileFormat } from './multires/formats';
 import { createTileGeometry, getTileKey, vectorToYawPitch, yawPitchToVector } from './multires/geometry';
+import { hasNorthOffset, headingToYaw, normalizeYaw, yawToHeading } from './multires/compass';
+import { AutoplayPlayer, parseAutoplayScript } from './multires/autoplay';
+import type { AutoplayStatus } from './multires/autoplay';
+import { TileCancelledError, TileDecoder } from './multires/decoder';
+import { ScenePrefetcher } from './multires/prefetch';
+import { advanceTileFades, selectRenderedTiles } from './multires/quadtree';
 import { disposeTileEntry } from './multires/tiles';
-import type { ExtendedManifest, TileEntry, TileRequest } from './multires/types';
+import {
+  getHotspotTransition,
+  TRANSITION_MAX_WAIT_MS,
+  TRANSITION_TIMINGS,
+  TransitionSnapshot,
+  ZOOM_APPROACH_FOV_SCALE,
+  ZOOM_APPROACH_MIN_FOV,
+} from './multires/transitions';
+import { isImmersiveVrSupported, XrHotspotPicker } from './multires/xr';
+import type { DecodedTile, ExtendedManifest, TileEntry, TileRequest, ViewerPose } from './multires/types';
 
 interface MultiresViewerProps {
   tour: Tour;
@@ -27,6 +53,23 @@ interface MultiresViewerProps {
   onHotspotCreate?: (yaw: number, pitch: number) => void;
   onHotspotUpdate?: (hotspot: Hotspot) => void;
   hotspots?: Hotspot[];
+  // Tile resolution preference; defaults to 'balanced', or 'data-saver' when the browser sends Save-Data
+  quality?: TileQuality;
+  // Play the tour's guided autoplay script, or turn slowly (tour.default_yaw_speed) when it
+  // has none; defaults to tour.autoplay_enabled outside edit mode
+  autoplay?: boolean;
+  // Where the floor plan minimap sits, for hosts with their own overlays top right
+  floorPlanClassName?: string;
+  ref?: Ref<MultiresViewerHandle>;
+}
+
+/**
+ * Imperative control for hosts that drive the view (embeds, scripted tours)
+ */
+export interface MultiresViewerHandle {
+  getView: () => ViewerPose;
+  // Glide to the given yaw/pitch; fields left out keep their current value
+  setView: (view: Partial<ViewerPose>) => void;
 }
 
 const PICKING_SPHERE = new THREE.Sphere(new THREE.Vector3(), SPHERE_RADIUS);
@@ -63,6 +106,7 @@ function usePreviewLoader(
   textureLoaderRef: MutableRefObject<THREE.TextureLoader | null>,
   previewMeshRef: MutableRefObject<THREE.Mesh | null>,
   sceneRef: MutableRefObject<THREE.Scene | null>,
+  previewSceneIdRef: MutableRefObject<string | null>,
 ) {
   return useCallback(() => {
     const manifest = manifestRef.current;
@@ -123,13 +167,15 @@ function usePreviewLoader(
           material.needsUpdate = true;
           previewMeshRef.current.visible = true;
         }
+        previewSceneIdRef.current = activeScene.id;
       },
       undefined,
       () => {
-        /* ignore preview errors */
+        /* ignore preview errors - transitions stop waiting for it */
+        previewSceneIdRef.current = activeScene.id;
       },
     );
-  }, [manifestRef, currentSceneRef, textureLoaderRef, previewMeshRef, sceneRef]);
+  }, [manifestRef, currentSceneRef, textureLoaderRef, previewMeshRef, sceneRef, previewSceneIdRef]);
 }
 
 export default function MultiresViewer({
@@ -142,6 +188,10 @@ export default function MultiresViewer({
   onHotspotCreate,
   onHotspotUpdate,
   hotspots = [],
+  quality,
+  autoplay,
+  floorPlanClassName,
+  ref,
 }: MultiresViewerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
@@ -155,10 +205,57 @@ export default function MultiresViewer({
   const originalHotspotRef = useRef<Hotspot | null>(null);
 
   const tileCacheRef = useRef<Map<string, TileEntry>>(new Map());
+  const qualityRef = useRef<TileQuality>('balanced');
   const geometryCacheRef = useRef<Map<string, THREE.BufferGeometry>>(new Map());
-  const tileQueueRef = useRef<TileRequest[]>([]);
+  // Requested tiles until their mesh exists (fetching, decoding or waiting for upload)
+  const inflightRef = useRef<Map<string, TileRequest>>(new Map());
+  const decodedQueueRef = useRef<DecodedTile[]>([]);
+  const decoderRef = useRef<TileDecoder | null>(null);
+  const prefetcherRef = useRef<ScenePrefetcher | null>(null);
+  const snapshotRef = useRef<TransitionSnapshot | null>(null);
+  // Keyboard/gamepad state: held look keys, the focused hotspot and where the camera is easing to
+  const keysRef = useRef<Set<string>>(new Set());
+  const gamepadRef = useRef(new GamepadInput());
+  const focusRingRef = useRef<THREE.Sprite | null>(null);
+  const focusedHotspotRef = useRef<Hotspot | null>(null);
+  const lookAtRef = useRef<{ yaw: number; pitch: number } | null>(null);
+  const lastInputTimeRef = useRef(0);
+  const autoplayRequested = !isEditMode && (autoplay ?? !!tour.autoplay_enabled);
+  const autoplayRef = useRef(autoplayRequested);
+  const autoplayPlayerRef = useRef<AutoplayPlayer | null>(null);
+  const [autoplayUi, setAutoplayUi] = useState<{ status: AutoplayStatus; narration: AutoplayPlayer['narration'] }>({
+    status: 'stopped',
+    narration: null,
+  });
+  // Scene changes asked for from inside the render loop (autoplay)
+  const changeSceneRef = useRef<(sceneId: string) => void>(() => {});
+  const onSceneChangeRef = useRef(onSceneChange);
+  const [announcement, setAnnouncement] = useState('');
+  // WebXR: the camera sits in a rig that is turned to line the headset up with the scene
+  const xrRigRef = useRef<THREE.Group | null>(null);
+  const xrPickerRef = useRef<XrHotspotPicker | null>(null);
+  // Yaw to face once the headset pose is known (session start, scene change)
+  const xrAlignYawRef = useRef<number | null>(null);
+  const activateHotspotRef = useRef<(hotspot: Hotspot) => void>(() => {});
+  const [xrSupported, setXrSupported] = useState(false);
+  const [xrActive, setXrActive] = useState(false);
+  const magicWindow = useMagicWindow();
+  const magicWindowLookRef = magicWindow.lookRef;
+  const recenterMagicWindow = magicWindow.recenter;
+  const tourAudio = useTourAudio(tour, currentScene, hotspots);
+  const tourAudioRef = tourAudio.audioRef;
+  // Scene whose preview texture is on the sphere
+  const previewSceneIdRef = useRef<string | null>(null);
   const transitionRef = useRef({
     targetSceneId: null as string | null,
+    targetScene: null as Scene | null,
+    style: 'fade' as SceneTransitionStyle,
+    // approach: moving towards the hotspot in the old scene; reveal: easing into the new one
+    phase: 'reveal' as 'approach' | 'reveal',
+    // The reveal clock starts once the new scene has something to show
+    revealStarted: false,
+    // Clicked hotspot, reported once the approach is over
+    hotspot: null as Hotspot | null,
     startTime: 0,
     duration: 600,
     startYaw: 0,
@@ -167,12 +264,13 @@ export default function MultiresViewer({
     endPitch: 0,
     startFov: 75,
     endFov: 75,
+    // Yaw in the target scene facing the same compass heading (both scenes have a north offset)
+    headingYaw: null as number | null,
   });
 
-  const pendingSetRef = useRef<Set<string>>(new Set());
-  const activeLoadsRef = useRef(0);
 
   const manifestRef = useRef<ExtendedManifest | null>(null);
+  const cacheStampRef = useRef<TileCacheStamp | null>(null);
   const currentSceneRef = useRef<Scene | null>(null);
   const currentSceneIdRef = useRef<string>('');
 
@@ -198,11 +296,23 @@ export default function MultiresViewer({
     pointerActive: false,
   });
 
+  // Tile formats the browser decodes (null until probed - JPEG meanwhile)
+  const [decodableFormats, setDecodableFormats] = useState<Set<string> | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    detectDecodableFormats().then((formats) => {
+      if (!cancelled) setDecodableFormats(formats);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   const manifest = useMemo(() => {
-    const parsed = parseSceneManifest(currentScene);
+    const parsed = negotiateTileFormat(parseSceneManifest(currentScene), decodableFormats);
     console.log('[MultiresViewer] Parsed manifest for scene:', currentScene.id, parsed);
     return parsed;
-  }, [currentScene]);
+  }, [currentScene, decodableFormats]);
   const updateHotspots = useHotspotUpdater(hotspots, currentScene.id, hotspotsGroupRef);
   const loadPreviewTexture = usePreviewLoader(
     manifestRef,
@@ -210,21 +320,56 @@ export default function MultiresViewer({
     textureLoaderRef,
     previewMeshRef,
     sceneRef,
+    previewSceneIdRef,
   );
 
-  const startSceneTransition = useCallback((hotspot: Hotspot) => {
+  // Leave the current scene: freeze its last frame for the dissolve and hand the
+  // click (or, without a hotspot, the scene id) to the parent, which switches currentScene
+  const commitSceneSwap = useCallback((now: number) => {
+    const transition = transitionRef.current;
     const controls = controlsRef.current;
-    let targetSceneId = hotspot.target_scene_id || null;
-    if (!targetSceneId && hotspot.payload) {
-      try {
-        const parsed = typeof hotspot.payload === 'string' ? JSON.parse(hotspot.payload) : hotspot.payload;
-        if (parsed && typeof parsed === 'object' && parsed.targetSceneId) {
-          targetSceneId = parsed.targetSceneId;
-        }
-      } catch (err) {
-        /* ignore parse errors */
-      }
+    const targetScene = transition.targetScene;
+    if (!targetScene) return;
+
+    const renderer = rendererRef.current;
+    if (transition.style !== 'cut' && renderer && sceneRef.current && cameraRef.current) {
+      snapshotRef.current?.capture(renderer, sceneRef.current, cameraRef.current);
+    } else {
+      snapshotRef.current?.clear();
+    }
+
+    // Keep facing the same real-world direction when both scenes know where north is
+    const activeScene = currentSceneRef.current;
+    const headingYaw = hasNorthOffset(activeScene) && hasNorthOffset(targetScene)
+      ? headingToYaw(yawToHeading(controls.yaw, activeScene), targetScene)
+      : null;
+
+    Object.assign(transition, {
+      phase: 'reveal',
+      revealStarted: false,
+      startTime: now,
+      duration: TRANSITION_TIMINGS[transition.style].revealMs,
+      startYaw: controls.yaw,
+      startPitch: controls.pitch,
+      endYaw: headingYaw !== null ? controls.yaw : targetScene.yaw ?? controls.yaw,
+      endPitch: targetScene.pitch ?? controls.pitch,
+      startFov: controls.fov,
+      endFov: targetScene.fov ?? controls.fov,
+      headingYaw,
+    });
+
+    const hotspot = transition.hotspot;
+    transition.hotspot = null;
+    if (hotspot) {
+      onHotspotClick?.(hotspot);
+    } else {
+      onSceneChangeRef.current?.(targetScene.id);
     }
+  }, [onHotspotClick]);
+
+  const startSceneTransition = useCallback((hotspot: Hotspot) => {
+    const controls = controlsRef.current;
+    const targetSceneId = getHotspotTargetSceneId(hotspot);
 
     if (!targetSceneId) {
       onHotspotClick?.(hotspot);
@@ -255,60 +400,51 @@ export default function MultiresViewer({
     controls.velocityYaw = 0;
     controls.velocityPitch = 0;
 
-    transitionRef.current = {
-      targetSceneId,
-      startTime: typeof performance !== 'undefined' ? performance.now() : Date.now(),
-      duration: 700,
+    // The dissolve is a screen-space overlay with no headset equivalent
+    const style = rendererRef.current?.xr.isPresenting ? 'cut' : getHotspotTransition(hotspot);
+    const now = performance.now();
+    const transition = transitionRef.current;
+    Object.assign(transition, { targetSceneId, targetScene, style, hotspot, headingYaw: null });
+
+    if (style !== 'zoom') {
+      commitSceneSwap(now);
+      return;
+    }
+
+    // Walk towards the hotspot first (the short way round), then switch
+    const yawDelta = normalizeYaw(hotspot.yaw - controls.yaw);
+    Object.assign(transition, {
+      phase: 'approach',
+      startTime: now,
+      duration: TRANSITION_TIMINGS.zoom.approachMs,
       startYaw: controls.yaw,
       startPitch: controls.pitch,
-      endYaw: targetScene.yaw ?? controls.yaw,
-      endPitch: targetScene.pitch ?? controls.pitch,
+      endYaw: controls.yaw + yawDelta,
+      endPitch: hotspot.pitch,
       startFov: controls.fov,
-      endFov: targetScene.fov ?? controls.fov,
-    } as typeof transitionRef.current;
-
-    onHotspotClick?.(hotspot);
-  }, [onHotspotClick, scenes]);
-
-  const removeOverlappingTiles = useCallback((level: number, col: number, row: number) => {
-    const manifestSnapshot = manifestRef.current;
-    if (!manifestSnapshot) return;
-
-    const targetLevelInfo = manifestSnapshot.levels[level];
-    if (!targetLevelInfo) return;
-
-    const targetCols = targetLevelInfo.cols || targetLevelInfo.tilesX || 1;
-    const targetRows = targetLevelInfo.rows || targetLevelInfo.tilesY || 1;
-
-    tileCacheRef.current.forEach((entry, key) => {
-      if (entry.level === level && entry.col === col && entry.row === row && entry.sceneId === currentSceneIdRef.current) {
-        return;
-      }
-
-      const entryLevelInfo = manifestSnapshot.levels[entry.level];
-      if (!entryLevelInfo) return;
+      endFov: Math.max(ZOOM_APPROACH_MIN_FOV, controls.fov * ZOOM_APPROACH_FOV_SCALE),
+    });
+  }, [onHotspotClick, scenes, commitSceneSwap]);
 
-      const entryCols = entryLevelInfo.cols || entryLevelInfo.tilesX || 1;
-      const entryRows = entryLevelInfo.rows || entryLevelInfo.tilesY || 1;
+  // Dissolve to a scene without going through a hotspot
+  const changeScene = useCallback((sceneId: string) => {
+    const transition = transitionRef.current;
+    const targetScene = scenes?.find((scene) => scene.id === sceneId);
+    if (!targetScene || transition.targetSceneId !== null || sceneId === currentSceneIdRef.current) return;
 
-      if (entry.level < level) {
-        return;
-      }
+    const controls = controlsRef.current;
+    controls.pointerActive = false;
+    controls.velocityYaw = 0;
+    controls.velocityPitch = 0;
+    const style = rendererRef.current?.xr.isPresenting ? 'cut' : 'fade';
+    Object.assign(transition, { targetSceneId: sceneId, targetScene, style, hotspot: null, headingYaw: null });
+    commitSceneSwap(performance.now());
+  }, [scenes, commitSceneSwap]);
 
-      if (entry.level > level) {
-        const colScale = (entryCols / targetCols) || 1;
-        const rowScale = (entryRows / targetRows) || 1;
-        const childColStart = Math.floor(col * colScale);
-        const childColEnd = Math.ceil((col + 1) * colScale);
-        const childRowStart = Math.floor(row * rowScale);
-        const childRowEnd = Math.ceil((row + 1) * rowScale);
-        if (entry.col >= childColStart && entry.col < childColEnd && entry.row >= childRowStart && entry.row < childRowEnd) {
-          disposeTileEntry(entry);
-          tileCacheRef.current.delete(key);
-        }
-      }
-    });
-  }, []);
+  useEffect(() => {
+    changeSceneRef.current = changeScene;
+    onSceneChangeRef.current = onSceneChange;
+  }, [changeScene, onSceneChange]);
 
   useEffect(() => {
     THREE.Cache.enabled = true;
@@ -317,179 +453,168 @@ export default function MultiresViewer({
     };
   }, []);
 
-  const processQueue = useCallback(() => {
-    if (activeLoadsRef.current >= MAX_CONCURRENT_TILE_LOADS) {
-      return;
-    }
-
-    const request = tileQueueRef.current.shift();
-    if (!request) {
-      return;
-    }
-
+  const addTileMesh = useCallback((request: TileRequest, bitmap: ImageBitmap) => {
     const manifestSnapshot = manifestRef.current;
-    const targetSceneId = currentSceneIdRef.current;
     const scene = sceneRef.current;
-
-    if (!manifestSnapshot || !scene) {
-      pendingSetRef.current.delete(request.key);
+    const levelInfo = manifestSnapshot?.levels[request.level];
+    if (!manifestSnapshot || !scene || !levelInfo) {
+      bitmap.close();
       return;
     }
 
-    const levelInfo = manifestSnapshot.levels[request.level];
-    if (!levelInfo) {
-      pendingSetRef.current.delete(request.key);
-      processQueue();
-      return;
-    }
-
-    const loader = textureLoaderRef.current ?? new THREE.TextureLoader();
-    textureLoaderRef.current = loader;
-
-    activeLoadsRef.current += 1;
+    // Pyramids differ per scene (tile size, level sizes, gutter), so key on all of them
+    const geometryKey = `${manifestSnapshot.overlap ?? 0}:${manifestSnapshot.tileSize}:${levelInfo.width}x${levelInfo.height}:${request.level}:${request.col}:${request.row}`;
+    const cachedGeometry = geometryCacheRef.current.get(geometryKey);
+    const geometry =
+      cachedGeometry ??
+      (() => {
+        const geom = createTileGeometry(
+          levelInfo,
+          request.col,
+          request.row,
+          manifestSnapshot.overlap ?? 0,
+        );
+        geometryCacheRef.current.set(geometryKey, geom);
+        return geom;
+      })();
+
+    const texture = new THREE.Texture(bitmap);
+    // ImageBitmaps ignore flipY on upload - flip through the UV transform instead
+    texture.flipY = false;
+    texture.repeat.set(1, -1);
+    texture.offset.set(0, 1);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.wrapS = THREE.ClampToEdgeWrapping;
+    texture.wrapT = THREE.ClampToEdgeWrapping;
+    texture.minFilter = THREE.LinearFilter;
+    texture.magFilter = THREE.LinearFilter;
+    texture.generateMipmaps = false;
+    const renderer = rendererRef.current;
+    texture.anisotropy = renderer ? Math.min(8, renderer.capabilities.getMaxAnisotropy()) : 4;
+    texture.needsUpdate = true;
+
+    const material = new THREE.MeshBasicMaterial({
+      map: texture,
+      side: THREE.DoubleSide,  // Use DoubleSide to ensure visibility
+      depthWrite: false,
+      depthTest: true,
+      transparent: true,  // Fades in over the ancestor tiles below it
+      opacity: 0,
+      toneMapped: false,
+    });
 
-    const tileUrl = buildTileUrl(manifestSnapshot, request.sceneId, request.level, request.col, request.row);
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.renderOrder = 10 + request.level;
+    mesh.frustumCulled = false;
+    mesh.visible = true; // Ensure tile is visible
+    scene.add(mesh);
+    // Upload now, inside this frame's budget, rather than on first draw
+    renderer?.initTexture(texture);
 
-    console.log('[MultiresViewer] Loading tile:', {
+    tileCacheRef.current.set(request.key, {
+      key: request.key,
       sceneId: request.sceneId,
       level: request.level,
       col: request.col,
       row: request.row,
-      url: tileUrl
+      mesh,
+      texture,
+      lastUsed: performance.now(),
+      fadeStartedAt: performance.now(),
     });
 
-    loader.load(
-      tileUrl,
-      (texture) => {
-        activeLoadsRef.current = Math.max(0, activeLoadsRef.current - 1);
-
-        if (destroyedRef.current || request.sceneId !== targetSceneId) {
-          texture.dispose();
-          pendingSetRef.current.delete(request.key);
-          processQueue();
-          return;
-        }
-
-        texture.colorSpace = THREE.SRGBColorSpace;
-        texture.wrapS = THREE.ClampToEdgeWrapping;
-        texture.wrapT = THREE.ClampToEdgeWrapping;
-        texture.minFilter = THREE.LinearMipmapLinearFilter;
-        texture.magFilter = THREE.LinearFilter;
-        texture.generateMipmaps = true;
-        const renderer = rendererRef.current;
-        if (renderer) {
-          const maxAnisotropy = renderer.capabilities.getMaxAnisotropy();
-          texture.anisotropy = Math.min(8, maxAnisotropy);
-        } else {
-          texture.anisotropy = 4;
-        }
-
-        const geometryKey = `${manifestSnapshot.overlap ?? 0}:${request.level}:${request.col}:${request.row}`;
-        const cachedGeometry = geometryCacheRef.current.get(geometryKey);
-        const geometry =
-          cachedGeometry ??
-          (() => {
-            const geom = createTileGeometry(
-              levelInfo,
-              request.col,
-              request.row,
-              manifestSnapshot.overlap ?? 0,
-            );
-            geometryCacheRef.current.set(geometryKey, geom);
-            return geom;
-          })();
-
-        texture.colorSpace = THREE.SRGBColorSpace;
-        texture.wrapS = THREE.ClampToEdgeWrapping;
-        texture.wrapT = THREE.ClampToEdgeWrapping;
-        texture.minFilter = THREE.LinearFilter;
-        texture.magFilter = THREE.LinearFilter;
-        texture.needsUpdate = true;
-        
-        const material = new THREE.MeshBasicMaterial({
-          map: texture,
-          side: THREE.DoubleSide,  // Use DoubleSide to ensure visibility
-          depthWrite: false,
-          depthTest: true,
-          transparent: true,  // Enable transparency for smooth transitions
-          opacity: 1.0,
-          toneMapped: false,
-        });
-
-        const mesh = new THREE.Mesh(geometry, material);
-        mesh.renderOrder = 10 + request.level;
-        mesh.frustumCulled = false;
-        mesh.visible = true; // Ensure tile is visible
-        scene.add(mesh);
-        console.log('[MultiresViewer] Tile loaded successfully:', request.key, 'Visible:', mesh.visible);
-
-        tileCacheRef.current.set(request.key, {
-          key: request.key,
-          sceneId: request.sceneId,
-          level: request.level,
-          col: request.col,
-          row: request.row,
-          mesh,
-          texture,
-          lastUsed: performance.now(),
-        });
-
-        removeOverlappingTiles(request.level, request.col, request.row);
-
-        // Keep preview visible until we have enough tiles loaded
-        const tileCount = tileCacheRef.current.size;
-        if (previewMeshRef.current && tileCount > 4) {
-          // Fade out preview gradually
-          const material = previewMeshRef.current.material as THREE.MeshBasicMaterial;
-          if (material.opacity > 0.1) {
-            material.transparent = true;
-            material.opacity = Math.max(0, material.opacity - 0.1);
-          } else {
-            previewMeshRef.current.visible = false;
-          }
-        }
-
-        if (tileCacheRef.current.size > TILE_CACHE_LIMIT) {
-          const entries = Array.from(tileCacheRef.current.values()).sort(
-            (a, b) => (a.lastUsed ?? 0) - (b.lastUsed ?? 0),
-          );
-          while (tileCacheRef.current.size > TILE_CACHE_LIMIT && entries.length) {
-            const entry = entries.shift();
-            if (!entry) break;
-            disposeTileEntry(entry);
-            tileCacheRef.current.delete(entry.key);
-          }
-        }
+    if (tileCacheRef.current.size > TILE_CACHE_LIMIT) {
+      const entries = Array.from(tileCacheRef.current.values()).sort(
+        (a, b) => (a.lastUsed ?? 0) - (b.lastUsed ?? 0),
+      );
+      while (tileCacheRef.current.size > TILE_CACHE_LIMIT && entries.length) {
+        const entry = entries.shift();
+        if (!entry) break;
+        disposeTileEntry(entry);
+        tileCacheRef.current.delete(entry.key);
+      }
+    }
+  }, []);
 
-        pendingSetRef.current.delete(request.key);
-        processQueue();
-      },
-      undefined,
-      (error) => {
-        console.error('[MultiresViewer] Failed to load tile:', request.key, error);
-        activeLoadsRef.current = Math.max(0, activeLoadsRef.current - 1);
-        pendingSetRef.current.delete(request.key);
-        processQueue();
-      },
-    );
+  /**
+   * Turn decoded bitmaps into tile meshes, nearest the view centre first, until
+   * this frame's upload budget is spent (always at least one tile)
+   */
+  const uploadDecodedTiles = useCallback(() => {
+    const queue = decodedQueueRef.current;
+    if (!queue.length) return;
+
+    queue.sort((a, b) => a.request.priority - b.request.priority);
+    let budget = TILE_UPLOAD_BUDGET_PX;
+    while (queue.length) {
+      const { request, bitmap } = queue[0];
+      const pixels = bitmap.width * bitmap.height;
+      if (pixels > budget && budget < TILE_UPLOAD_BUDGET_PX) break;
+
+      queue.shift();
+      budget -= pixels;
+      inflightRef.current.delete(request.key);
+      if (request.sceneId !== currentSceneIdRef.current) {
+        bitmap.close();
+        continue;
+      }
+      addTileMesh(request, bitmap);
+    }
+  }, [addTileMesh]);
+
+  const cancelTile = useCallback((key: string) => {
+    inflightRef.current.delete(key);
+    decoderRef.current?.cancel(key);
+    decodedQueueRef.current = decodedQueueRef.current.filter(({ request, bitmap }) => {
+      if (request.key !== key) return true;
+      bitmap.close();
+      return false;
+    });
   }, []);
 
   const scheduleTile = useCallback(
     (level: number, col: number, row: number, priority: number) => {
       const sceneId = currentSceneIdRef.current;
-      if (!sceneId) return;
+      const manifestSnapshot = manifestRef.current;
+      const decoder = decoderRef.current;
+      if (!sceneId || !manifestSnapshot || !decoder || !manifestSnapshot.levels[level]) return;
 
       const key = getTileKey(sceneId, level, col, row);
-      if (tileCacheRef.current.has(key) || pendingSetRef.current.has(key)) {
+      if (tileCacheRef.current.has(key)) {
         return;
       }
+      const inflight = inflightRef.current.get(key);
+      if (inflight) {
+        // Still loading - just follow the view for upload ordering
+        inflight.priority = priority;
+        return;
+      }
+
+      const request: TileRequest = { key, sceneId, level, col, row, priority };
+      inflightRef.current.set(key, request);
+      const tileUrl = buildTileUrl(manifestSnapshot, sceneId, level, col, row);
+      const stamp = cacheStampRef.current;
+      const cacheKey = stamp ? getTileCacheKey(manifestSnapshot, stamp, level, col, row) : undefined;
 
-      pendingSetRef.current.add(key);
-      tileQueueRef.current.push({ key, sceneId, level, col, row, priority });
-      tileQueueRef.current.sort((a, b) => a.priority - b.priority);
-      processQueue();
+      decoder.load(key, tileUrl, cacheKey).then(
+        (bitmap) => {
+          if (destroyedRef.current || inflightRef.current.get(key) !== request) {
+            bitmap.close();
+            return;
+          }
+          decodedQueueRef.current.push({ request, bitmap });
+        },
+        (error) => {
+          if (inflightRef.current.get(key) === request) {
+            inflightRef.current.delete(key);
+          }
+          if (!(error instanceof TileCancelledError)) {
+            console.error('[MultiresViewer] Failed to load tile:', key, tileUrl, error);
+          }
+        },
+      );
     },
-    [processQueue],
+    [],
   );
 
   const updateVisibleTiles = useCallback(() => {
@@ -507,10 +632,21 @@ export default function MultiresViewer({
     }
 
     const controls = controlsRef.current;
+    // In a headset, resolution comes from the per-eye framebuffer rather than the page
+    const xrLayer = rendererRef.current?.xr.isPresenting
+      ? rendererRef.current.xr.getSession()?.renderState.baseLayer
+      : null;
+    const viewportWidth = xrLayer ? xrLayer.framebufferWidth / 2 : container.clientWidth || window.innerWidth;
+    const viewportHeight = xrLayer ? xrLayer.framebufferHeight : container.clientHeight || window.innerHeight;
     const levelIndex = getAppropriateLevel(
       controls.fov,
       manifestSnapshot.levels,
-      container.clientWidth || window.innerWidth,
+      viewportWidth,
+      {
+        ...TILE_QUALITY_PRESETS[qualityRef.current],
+        devicePixelRatio: xrLayer ? 1 : rendererRef.current?.getPixelRatio() ?? window.devicePixelRatio,
+        viewportHeight,
+      },
     );
 
     const levelInfo = manifestSnapshot.levels[levelIndex];
@@ -518,24 +654,44 @@ export default function MultiresViewer({
       return;
     }
 
+    // The camera eases towards controls.fov - cover whichever view is wider
+    const camera = cameraRef.current;
+    const viewport = {
+      yaw: controls.yaw,
+      pitch: controls.pitch,
+      fov: Math.max(controls.fov, camera?.fov ?? controls.fov),
+      aspect: xrLayer ? viewportWidth / viewportHeight : camera?.aspect ?? container.clientWidth / (container.clientHeight || 1),
+    };
     const visible = calculateVisibleTiles(
-      { yaw: controls.yaw, pitch: controls.pitch, fov: controls.fov },
+      viewport,
       levelInfo,
       manifestSnapshot.originalWidth,
       manifestSnapshot.originalHeight,
     );
 
-    const keep = new Set<string>();
-    const colCenter = ((controls.yaw + 180) / 360) * levelInfo.cols;
-    const rowCenter = ((controls.pitch + 90) / 180) * levelInfo.rows;
+    const wanted = new Set<string>();
+    const request = (level: number, col: number, row: number, priority: number) => {
+      wanted.add(getTileKey(sceneId, level, col, row));
+      scheduleTile(level, col, row, priority);
+    };
+
+    // The coarsest level is a few small files - load it ahead of everything so
+    // every missing tile has an ancestor to fall back on
+    if (levelIndex > 0 && manifestSnapshot.levels[0]) {
+      calculateVisibleTiles(viewport, manifestSnapshot.levels[0], manifestSnapshot.originalWidth, manifestSnapshot.originalHeight)
+        .forEach(({ col, row }) => request(0, col, row, -1));
+    }
+
+    // Nearest the view centre loads first
+    visible.forEach(({ col, row, distance }) => request(levelIndex, col, row, distance));
 
-    visible.forEach(({ col, row }) => {
-      const key = getTileKey(sceneId, levelIndex, col, row);
-      keep.add(key);
-      const priority = Math.abs(col - colCenter) + Math.abs(row - rowCenter);
-      scheduleTile(levelIndex, col, row, priority);
+    // Abort fetches for tiles that left the view before they arrived
+    Array.from(inflightRef.current.keys()).forEach((key) => {
+      if (!wanted.has(key)) cancelTile(key);
     });
 
+    const rendered = selectRenderedTiles(tileCacheRef.current, sceneId, manifestSnapshot.levels, levelIndex, visible);
+
     const now = performance.now();
     tileCacheRef.current.forEach((entry, key) => {
       if (entry.sceneId !== sceneId) {
@@ -544,20 +700,15 @@ export default function MultiresViewer({
         return;
       }
 
-      if (keep.has(key)) {
+      if (rendered.has(key)) {
         entry.lastUsed = now;
         entry.pendingRemovalAt = undefined;
-        entry.mesh.visible = true; // Always show tiles that should be visible
+        entry.mesh.visible = true;
         return;
       }
 
-      // Keep tiles from other levels visible to prevent flashing
-      // Only hide if it's the same level but out of view
-      if (entry.level === levelIndex) {
-        entry.mesh.visible = false; // Hide same-level tiles that are out of view
-      } else {
-        entry.mesh.visible = true; // Keep other level tiles visible for smooth transition
-      }
+      // Neither wanted nor standing in for a missing tile
+      entry.mesh.visible = false;
 
       if (!entry.pendingRemovalAt) {
         entry.pendingRemovalAt = now;
@@ -566,13 +717,325 @@ export default function MultiresViewer({
         tileCacheRef.current.delete(key);
       }
     });
-  }, [scheduleTile]);
+  }, [scheduleTile, cancelTile]);
 
   const updateVisibleTilesRef = useRef(() => {});
   useEffect(() => {
     updateVisibleTilesRef.current = updateVisibleTiles;
   }, [updateVisibleTiles]);
 
+  // Target scene manifests, parsed the first time one of their hotspots comes near the view centre
+  const getTargetManifest = useMemo(() => {
+    const parsed = new Map<string, ExtendedManifest | null>();
+    return (sceneId: string) => {
+      if (!parsed.has(sceneId)) {
+        const targetScene = scenes.find((scene) => scene.id === sceneId);
+        parsed.set(sceneId, targetScene ? negotiateTileFormat(parseSceneManifest(targetScene), decodableFormats) : null);
+      }
+      return parsed.get(sceneId) ?? null;
+    };
+  }, [scenes, decodableFormats]);
+
+  const prefetchNearbyScenes = useCallback(() => {
+    const prefetcher = prefetcherRef.current;
+    // Wait for the format probe - tiles are cached per format
+    if (!prefetcher || !decodableFormats || transitionRef.current.targetSceneId) return;
+    if (qualityRef.current === 'data-saver') return;
+
+    const controls = controlsRef.current;
+    const viewDirection = yawPitchToVector(controls.yaw, controls.pitch, 1);
+    const nearby = new Set<string>();
+
+    hotspots.forEach((hotspot) => {
+      if (hotspot.scene_id !== currentScene.id) return;
+      const targetSceneId = getHotspotTargetSceneId(hotspot);
+      if (!targetSceneId || targetSceneId === currentScene.id) return;
+
+      const angle = THREE.MathUtils.radToDeg(viewDirection.angleTo(yawPitchToVector(hotspot.yaw, hotspot.pitch, 1)));
+      if (angle > SCENE_PREFETCH_ANGLE) return;
+
+      const targetManifest = getTargetManifest(targetSceneId);
+      if (!targetManifest) return;
+
+      nearby.add(targetSceneId);
+      prefetcher.request(targetSceneId, targetManifest, angle);
+    });
+
+    prefetcher.retain(nearby);
+  }, [hotspots, currentScene.id, decodableFormats, getTargetManifest]);
+
+  const prefetchNearbyScenesRef = useRef(() => {});
+  useEffect(() => {
+    prefetchNearbyScenesRef.current = prefetchNearbyScenes;
+  }, [prefetchNearbyScenes]);
+
+  // Tab order: left to right around the panorama
+  const sceneHotspots = useMemo(
+    () => hotspots.filter((hotspot) => hotspot.scene_id === currentScene.id).sort((a, b) => a.yaw - b.yaw),
+    [hotspots, currentScene.id],
+  );
+
+  const focusHotspot = useCallback((hotspot: Hotspot | null) => {
+    focusedHotspotRef.current = hotspot;
+    const ring = focusRingRef.current;
+    if (ring) {
+      ring.visible = !!hotspot;
+      if (hotspot) ring.position.copy(yawPitchToVector(hotspot.yaw, hotspot.pitch, SPHERE_RADIUS - 6));
+    }
+    if (!hotspot) return;
+
+    // Bring it into view when it is off towards the edges
+    const controls = controlsRef.current;
+    const angle = yawPitchToVector(controls.yaw, controls.pitch, 1).angleTo(yawPitchToVector(hotspot.yaw, hotspot.pitch, 1));
+    if (THREE.MathUtils.radToDeg(angle) > controls.fov * 0.35) {
+      lookAtRef.current = { yaw: hotspot.yaw, pitch: THREE.MathUtils.clamp(hotspot.pitch, -85, 85) };
+    }
+
+    const index = sceneHotspots.indexOf(hotspot);
+    const action = hotspot.kind === 'navigation' ? 'go there' : 'open it';
+    setAnnouncement(`${getHotspotLabel(hotspot, scenes)}, ${index + 1} of ${sceneHotspots.length}. Press Enter to ${action}.`);
+  }, [sceneHotspots, scenes]);
+
+  /**
+   * Move focus to the next/previous hotspot; false once past either end, so Tab can leave the viewer
+   */
+  const cycleHotspotFocus = useCallback((step: 1 | -1): boolean => {
+    const focused = focusedHotspotRef.current;
+    const index = focused ? sceneHotspots.indexOf(focused) : -1;
+    const next = index === -1 && step === -1 ? sceneHotspots.length - 1 : index + step;
+    if (next < 0 || next >= sceneHotspots.length) {
+      focusHotspot(null);
+      return false;
+    }
+    focusHotspot(sceneHotspots[next]);
+    return true;
+  }, [sceneHotspots, focusHotspot]);
+
+  const activateHotspot = useCallback((hotspot: Hotspot) => {
+    if (hotspot.kind === 'navigation') {
+      startSceneTransition(hotspot);
+    } else {
+      onHotspotClick?.(hotspot);
+    }
+  }, [startSceneTransition, onHotspotClick]);
+
+  useEffect(() => {
+    activateHotspotRef.current = activateHotspot;
+  }, [activateHotspot]);
+
+  // Mirror the player's status and narration into React state only when they change
+  const syncAutoplayUi = useCallback((player: AutoplayPlayer) => {
+    const { status, narration } = player;
+    setAutoplayUi((prev) => (prev.status === status && prev.narration === narration ? prev : { status, narration }));
+  }, []);
+
+  // Per-frame keyboard/gamepad look, and easing towards a newly focused hotspot
+  const applyInput = useCallback((now: number) => {
+    const controls = controlsRef.current;
+    const dt = Math.min(0.1, (now - (lastInputTimeRef.current || now)) / 1000);
+    lastInputTimeRef.current = now;
+
+    // Device motion adds to dragging; a recalibration re-places the view at the scene's initial yaw
+    const motion = magicWindowLookRef.current?.poll();
+    if (motion?.recalibrated) {
+      controls.yaw = currentSceneRef.current?.yaw ?? 0;
+      controls.pitch = THREE.MathUtils.clamp(motion.pitch, -85, 85);
+      lookAtRef.current = null;
+    } else if (motion) {
+      controls.yaw += motion.deltaYaw;
+      controls.pitch = THREE.MathUtils.clamp(controls.pitch + motion.deltaPitch, -85, 85);
+    }
+
+    const keyboard = keyboardAxes(keysRef.current);
+    const gamepad = gamepadRef.current.poll();
+    const player = autoplayPlayerRef.current;
+    // Sensor noise is well under this - only a deliberate turn of the device counts
+    const deviceTurned = !!motion && Math.abs(motion.deltaYaw) + Math.abs(motion.deltaPitch) > 0.5;
+    if (
+      player && (controls.pointerActive || deviceTurned || gamepad?.actions.length
+        || keyboard.yaw || keyboard.pitch || keyboard.fov
+        || gamepad?.axes.yaw || gamepad?.axes.pitch || gamepad?.axes.fov)
+    ) {
+      player.interrupt(now);
+    }
+    gamepad?.actions.forEach((action) => {
+      if (action === 'activate') {
+        if (focusedHotspotRef.current) activateHotspot(focusedHotspotRef.current);
+        return;
+      }
+      // No Tab order to hand back to - wrap around
+      const step = action === 'next' ? 1 : -1;
+      if (!cycleHotspotFocus(step)) cycleHotspotFocus(step);
+    });
+
+    const yaw = THREE.MathUtils.clamp(keyboard.yaw + (gamepad?.axes.yaw ?? 0), -1, 1);
+    const pitch = THREE.MathUtils.clamp(keyboard.pitch + (gamepad?.axes.pitch ?? 0), -1, 1);
+    const fov = THREE.MathUtils.clamp(keyboard.fov + (gamepad?.axes.fov ?? 0), -1, 1);
+
+    if (yaw || pitch || fov || controls.pointerActive) {
+      lookAtRef.current = null;
+    }
+    if (yaw || pitch || fov) {
+      const panSpeed = LOOK_PAN_SPEED * (controls.fov / 75) * dt;
+      controls.velocityYaw = 0;
+      controls.velocityPitch = 0;
+      controls.yaw += yaw * panSpeed;
+      controls.pitch = THREE.MathUtils.clamp(controls.pitch + pitch * panSpeed, -85, 85);
+      controls.fov = THREE.MathUtils.clamp(controls.fov + fov * LOOK_ZOOM_SPEED * dt, 35, 100);
+      return;
+    }
+
+    const autoplayStep = player?.update(now, controls, currentSceneIdRef.current);
+    if (player) syncAutoplayUi(player);
+    if (autoplayStep?.sceneId) {
+      changeSceneRef.current(autoplayStep.sceneId);
+      return;
+    }
+    if (autoplayStep?.pose) {
+      lookAtRef.current = null;
+      Object.assign(controls, autoplayStep.pose, { velocityYaw: 0, velocityPitch: 0 });
+      return;
+    }
+
+    const target = lookAtRef.current;
+    if (target) {
+      const yawDelta = normalizeYaw(target.yaw - controls.yaw);
+      const pitchDelta = target.pitch - controls.pitch;
+      if (Math.abs(yawDelta) < 0.5 && Math.abs(pitchDelta) < 0.5) {
+        lookAtRef.current = null;
+      } else {
+        controls.yaw += yawDelta * 0.12;
+        controls.pitch += pitchDelta * 0.12;
+      }
+    } else if (autoplayRef.current && !player && !controls.pointerActive) {
+      // default_yaw_speed is degrees per frame at 60fps
+      controls.yaw += (tour.default_yaw_speed || 0.5) * 60 * dt;
+    }
+  }, [activateHotspot, cycleHotspotFocus, magicWindowLookRef, syncAutoplayUi, tour.default_yaw_speed]);
+
+  useEffect(() => {
+    autoplayRef.current = autoplayRequested;
+  }, [autoplayRequested]);
+
+  // Keyed on scene ids so a fresh scenes array with the same scenes keeps the player
+  const sceneIdsKey = scenes.map((scene) => scene.id).join(',');
+  const autoplayPlayer = useMemo(() => {
+    const script = parseAutoplayScript(tour.autoplay_json);
+    if (!script) return null;
+    const sceneIds = new Set(sceneIdsKey.split(','));
+    const steps = script.scenes.filter((step) => sceneIds.has(step.sceneId));
+    return steps.length ? new AutoplayPlayer({ ...script, scenes: steps }) : null;
+  }, [tour.autoplay_json, sceneIdsKey]);
+
+  useEffect(() => {
+    autoplayPlayerRef.current = autoplayPlayer;
+    if (!autoplayPlayer) return;
+    if (autoplayRequested) {
+      autoplayPlayer.start(currentSceneIdRef.current);
+    }
+    syncAutoplayUi(autoplayPlayer);
+    return () => {
+      autoplayPlayer.stop();
+      autoplayPlayerRef.current = null;
+    };
+  }, [autoplayPlayer, autoplayRequested, syncAutoplayUi]);
+
+  const controlAutoplay = useCallback((action: 'play' | 'pause' | 'resume' | 'skip' | 'stop') => {
+    const player = autoplayPlayerRef.current;
+    if (!player) return;
+    if (action === 'play') player.start(currentSceneIdRef.current);
+    else if (action === 'pause') player.pause();
+    else if (action === 'resume') player.resume();
+    else if (action === 'skip') player.skip();
+    else player.stop();
+    syncAutoplayUi(player);
+  }, [syncAutoplayUi]);
+
+  useImperativeHandle(ref, () => ({
+    getView: () => {
+      const { yaw, pitch, fov } = controlsRef.current;
+      return { yaw, pitch, fov };
+    },
+    setView: (view) => {
+      const controls = controlsRef.current;
+      if (transitionRef.current.targetSceneId !== null) return;
+      autoplayPlayerRef.current?.interrupt(performance.now());
+      controls.velocityYaw = 0;
+      controls.velocityPitch = 0;
+      if (view.fov !== undefined) controls.fov = THREE.MathUtils.clamp(view.fov, 35, 100);
+      lookAtRef.current = {
+        yaw: view.yaw ?? controls.yaw,
+        pitch: THREE.MathUtils.clamp(view.pitch ?? controls.pitch, -85, 85),
+      };
+    },
+  }), []);
+
+  const applyInputRef = useRef<(now: number) => void>(() => {});
+  useEffect(() => {
+    applyInputRef.current = applyInput;
+  }, [applyInput]);
+
+  const handleKeyDown = (event: ReactKeyboardEvent<HTMLDivElement>) => {
+    if (event.altKey || event.ctrlKey || event.metaKey) return;
+    autoplayPlayerRef.current?.interrupt(performance.now());
+
+    if (event.key === 'Tab') {
+      if (cycleHotspotFocus(event.shiftKey ? -1 : 1)) event.preventDefault();
+      return;
+    }
+    if ((event.key === 'Enter' || event.key === ' ') && focusedHotspotRef.current) {
+      event.preventDefault();
+      activateHotspot(focusedHotspotRef.current);
+      return;
+    }
+    if (event.key === 'Escape') {
+      focusHotspot(null);
+      return;
+    }
+
+    const key = normalizeKey(event.key);
+    if (isLookKey(key)) {
+      event.preventDefault();
+      keysRef.current.add(key);
+    }
+  };
+
+  const handleKeyUp = (event: ReactKeyboardEvent<HTMLDivElement>) => {
+    keysRef.current.delete(normalizeKey(event.key));
+  };
+
+  const handleBlur = () => {
+    keysRef.current.clear();
+    focusHotspot(null);
+  };
+
+  // New scene: drop the old focus and tell screen readers where we are
+  const hotspotCount = sceneHotspots.length;
+  useEffect(() => {
+    focusedHotspotRef.current = null;
+    lookAtRef.current = null;
+    if (focusRingRef.current) focusRingRef.current.visible = false;
+    setAnnouncement(hotspotCount
+      ? `${currentScene.name}. ${hotspotCount} hotspot${hotspotCount === 1 ? '' : 's'}, press Tab to move between them.`
+      : currentScene.name);
+  }, [currentScene.id, currentScene.name, hotspotCount]);
+
+  useEffect(() => {
+    let cancelled = false;
+    isImmersiveVrSupported().then((supported) => {
+      if (!cancelled) setXrSupported(supported);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    const connection = (navigator as Navigator & { connection?: { saveData?: boolean } }).connection;
+    qualityRef.current = quality ?? (connection?.saveData ? 'data-saver' : 'balanced');
+    updateVisibleTilesRef.current();
+  }, [quality]);
+
   useEffect(() => {
     const container = containerRef.current;
     if (!container) return;
@@ -591,8 +1054,13 @@ export default function MultiresViewer({
     renderer.setSize(width, height, false);
     renderer.outputColorSpace = THREE.SRGBColorSpace;
     renderer.toneMapping = THREE.NoToneMapping;
+    renderer.xr.enabled = true;
+    renderer.xr.setReferenceSpaceType('local');
     container.appendChild(renderer.domElement);
     rendererRef.current = renderer;
+    decoderRef.current = new TileDecoder();
+    prefetcherRef.current = new ScenePrefetcher();
+    snapshotRef.current = new TransitionSnapshot();
     
     console.log('[MultiresViewer] Renderer initialized:', {
       containerSize: { width, height },
@@ -613,7 +1081,11 @@ export default function MultiresViewer({
     camera.position.set(0, 0, 0);  // Camera should be at the center of the sphere
     camera.lookAt(yawPitchToVector(controlsRef.current.yaw, controlsRef.current.pitch, 1));
     camera.updateProjectionMatrix();
-    scene.add(camera);
+    const xrRig = new THREE.Group();
+    xrRig.add(camera);
+    scene.add(xrRig);
+    xrRigRef.current = xrRig;
+    xrPickerRef.current = new XrHotspotPicker(renderer, xrRig);
     cameraRef.current = camera;
     console.log('[MultiresViewer] Camera initialized at origin');
 
@@ -621,6 +1093,67 @@ export default function MultiresViewer({
     hotspotGroup.name = 'hotspots';
     scene.add(hotspotGroup);
     hotspotsGroupRef.current = hotspotGroup;
+    const focusRing = createFocusRing();
+    scene.add(focusRing);
+    focusRingRef.current = focusRing;
+
+    const handleXrSessionStart = () => {
+      // Keep looking where the page view was
+      xrAlignYawRef.current = controlsRef.current.yaw;
+      // The headset owns the view
+      autoplayPlayerRef.current?.stop();
+      setXrActive(true);
+    };
+
+    const handleXrSessionEnd = () => {
+      xrRig.rotation.y = 0;
+      xrAlignYawRef.current = null;
+      if (focusRingRef.current) focusRingRef.current.visible = false;
+      setXrActive(false);
+      handleResize();
+    };
+
+    const xrDirection = new THREE.Vector3();
+    let xrDwell = 0;
+    // Drive controls from the headset so tile loading and prefetching follow the pose
+    const updateXrView = () => {
+      const xrCamera = renderer.xr.getCamera();
+      const eye = xrCamera.cameras[0];
+      if (!eye) return;
+
+      const controls = controlsRef.current;
+      xrCamera.getWorldDirection(xrDirection);
+      const head = vectorToYawPitch(xrDirection);
+      const alignYaw = xrAlignYawRef.current;
+      if (alignYaw !== null) {
+        xrRig.rotation.y += THREE.MathUtils.degToRad(head.yaw - alignYaw);
+        xrRig.updateMatrixWorld();
+        xrAlignYawRef.current = null;
+        head.yaw = alignYaw;
+      }
+
+      controls.yaw = head.yaw;
+      controls.pitch = head.pitch;
+      controls.fov = THREE.MathUtils.radToDeg(2 * Math.atan(1 / eye.projectionMatrix.elements[5]));
+      controls.velocityYaw = 0;
+      controls.velocityPitch = 0;
+
+      const picker = xrPickerRef.current;
+      const group = hotspotsGroupRef.current;
+      if (!picker || !group) return;
+      const { hovered, dwell, activated } = picker.update(performance.now(), group.children, xrCamera);
+      const ring = focusRingRef.current;
+      if (ring) {
+        ring.visible = !!hovered;
+        if (hovered) {
+          ring.position.copy(yawPitchToVector(hovered.yaw, hovered.pitch, SPHERE_RADIUS - 6));
+        }
+      }
+      xrDwell = hovered ? dwell : 0;
+      if (activated && transitionRef.current.targetSceneId === null) {
+        activateHotspotRef.current(activated);
+      }
+    };
 
     const handleResize = () => {
       if (!rendererRef.current || !cameraRef.current || !containerRef.current) return;
@@ -641,12 +1174,28 @@ export default function MultiresViewer({
       const now = performance.now();
 
       const isTransitioning = transition.targetSceneId !== null;
+      let snapshotOpacity = 0;
 
       if (isTransitioning) {
-        const duration = transition.duration > 0 ? transition.duration : 600;
-        const elapsed = now - transition.startTime;
-        const progress = Math.min(1, elapsed / duration);
+        if (transition.phase === 'reveal' && !transition.revealStarted) {
+          // Hold the old frame until the new scene's preview is up (a cut only waits for the switch)
+          const arrived = currentSceneIdRef.current === transition.targetSceneId;
+          const ready = arrived && (transition.style === 'cut' || previewSceneIdRef.current === transition.targetSceneId);
+          if (ready || now - transition.startTime > TRANSITION_MAX_WAIT_MS) {
+            transition.revealStarted = true;
+            transition.startTime = now;
+          }
+        }
+
+        const running = transition.phase === 'approach' || transition.revealStarted;
+        const elapsed = running ? now - transition.startTime : 0;
+        const progress = transition.duration > 0
+          ? Math.min(1, elapsed / transition.duration)
+          : running ? 1 : 0;
         const eased = progress * progress * (3 - 2 * progress);
+        if (transition.phase === 'reveal') {
+          snapshotOpacity = 1 - eased;
+        }
 
         controls.velocityYaw = 0;
         controls.velocityPitch = 0;
@@ -659,23 +1208,34 @@ export default function MultiresViewer({
           controls.pitch = transition.endPitch;
           controls.fov = transition.endFov;
 
-          if (currentSceneIdRef.current === transition.targetSceneId) {
-            transition.targetSceneId = null;
+          if (transition.phase === 'approach') {
+            commitSceneSwap(now);
           } else {
-            transition.startTime = now;
-            transition.startYaw = controls.yaw;
-            transition.startPitch = controls.pitch;
-            transition.startFov = controls.fov;
+            transition.targetSceneId = null;
+            transition.targetScene = null;
+            snapshotRef.current?.clear();
+            if (renderer.xr.isPresenting) {
+              xrAlignYawRef.current = transition.endYaw;
+            }
           }
         }
-      } else if (!controls.pointerActive) {
+      } else {
+        applyInputRef.current(now);
+      }
+
+      if (!isTransitioning && !controls.pointerActive) {
         controls.velocityYaw *= 0.85;  // Increased dampening from 0.92 to 0.85 for quicker stop
         controls.velocityPitch *= 0.85;  // Increased dampening from 0.92 to 0.85
         controls.yaw += controls.velocityYaw;
         controls.pitch += controls.velocityPitch;
       }
 
+      if (renderer.xr.isPresenting) {
+        updateXrView();
+      }
+
       controls.pitch = Math.max(-85, Math.min(85, controls.pitch));
+      tourAudioRef.current?.updateListener(controls.yaw, controls.pitch);
       cameraRef.current.lookAt(yawPitchToVector(controls.yaw, controls.pitch, 1));
 
       const fovDiff = controls.fov - cameraRef.current.fov;
@@ -684,9 +1244,13 @@ export default function MultiresViewer({
         cameraRef.current.updateProjectionMatrix();
       }
 
+      uploadDecodedTiles();
+      advanceTileFades(tileCacheRef.current, now);
+
       if (now - lastTileUpdateRef.current > TILE_UPDATE_INTERVAL_MS) {
         lastTileUpdateRef.current = now;
         updateVisibleTilesRef.current();
+        prefetchNearbyScenesRef.current();
       }
 
       if (hotspotsGroupRef.current) {
@@ -696,9 +1260,14 @@ export default function MultiresViewer({
             child.scale.setScalar(spriteScale);
           }
         });
+        // Gaze dwell: the ring closes in on the hotspot until it fires
+        focusRingRef.current?.scale.setScalar(spriteScale * 1.6 * (1 - 0.4 * xrDwell));
       }
 
       rendererRef.current.render(sceneRef.current, cameraRef.current);
+      if (snapshotOpacity > 0) {
+        snapshotRef.current?.render(rendererRef.current, snapshotOpacity);
+      }
       
       // Debug: Log scene state periodically
       if (Math.random() < 0.01) { // Log 1% of frames
@@ -719,6 +1288,8 @@ export default function MultiresViewer({
 
     renderer.setAnimationLoop(animate);
     window.addEventListener('resize', handleResize);
+    renderer.xr.addEventListener('sessionstart', handleXrSessionStart);
+    renderer.xr.addEventListener('sessionend', handleXrSessionEnd);
 
     const pickHotspot = (event: PointerEvent): Hotspot | null => {
       const renderer = rendererRef.current;
@@ -753,6 +1324,7 @@ export default function MultiresViewer({
 
     const handlePointerDown = (event: PointerEvent) => {
       if (!rendererRef.current) return;
+      autoplayPlayerRef.current?.interrupt(performance.now());
       pointerStateRef.current.isPointerDown = true;
       pointerStateRef.current.startX = event.clientX;
       pointerStateRef.current.startY = event.clientY;
@@ -840,6 +1412,7 @@ export default function MultiresViewer({
 
     const handleWheel = (event: WheelEvent) => {
       event.preventDefault();
+      autoplayPlayerRef.current?.interrupt(performance.now());
       controlsRef.current.fov = THREE.MathUtils.clamp(controlsRef.current.fov + event.deltaY * 0.02, 35, 100);
     };
 
@@ -857,12 +1430,35 @@ export default function MultiresViewer({
       renderer.domElement.removeEventListener('pointerup', handlePointerUp);
       renderer.domElement.removeEventListener('pointerleave', handlePointerUp);
       renderer.domElement.removeEventListener('wheel', handleWheel);
+      renderer.xr.removeEventListener('sessionstart', handleXrSessionStart);
+      renderer.xr.removeEventListener('sessionend', handleXrSessionEnd);
+      renderer.xr.getSession()?.end().catch(() => {});
       renderer.setAnimationLoop(null);
 
+      xrPickerRef.current?.dispose();
+      xrPickerRef.current = null;
+      xrRigRef.current = null;
+
+      decoderRef.current?.dispose();
+      decoderRef.current = null;
+      prefetcherRef.current?.dispose();
+      prefetcherRef.current = null;
+      snapshotRef.current?.dispose();
+      snapshotRef.current = null;
+      inflightRef.current.clear();
+      decodedQueueRef.current.forEach(({ bitmap }) => bitmap.close());
+      decodedQueueRef.current = [];
       tileCacheRef.current.forEach((entry) => disposeTileEntry(entry));
       tileCacheRef.current.clear();
       transitionRef.current.targetSceneId = null;
 
+      if (focusRingRef.current) {
+        const material = focusRingRef.current.material;
+        material.map?.dispose();
+        material.dispose();
+        focusRingRef.current = null;
+      }
+
       if (previewMeshRef.current) {
         if (previewMeshRef.current.material instanceof THREE.Material) {
           previewMeshRef.current.material.dispose();
@@ -879,7 +1475,7 @@ export default function MultiresViewer({
       renderer.dispose();
       rendererRef.current = null;
     };
-  }, [isEditMode, onHotspotClick, onHotspotCreate, onHotspotUpdate]);
+  }, [isEditMode, onHotspotClick, onHotspotCreate, onHotspotUpdate, uploadDecodedTiles, commitSceneSwap, tourAudioRef]);
 
   useEffect(() => {
     console.log('[MultiresViewer] Scene changed:', currentScene.id, {
@@ -888,12 +1484,14 @@ export default function MultiresViewer({
       manifest: manifest
     });
     manifestRef.current = manifest;
+    cacheStampRef.current = manifest ? getTileCacheStamp(manifest, currentScene.id) : null;
     currentSceneRef.current = currentScene;
     currentSceneIdRef.current = currentScene.id;
 
-    tileQueueRef.current = [];
-    pendingSetRef.current.clear();
-    activeLoadsRef.current = 0;
+    Array.from(inflightRef.current.keys()).forEach((key) => decoderRef.current?.cancel(key));
+    inflightRef.current.clear();
+    decodedQueueRef.current.forEach(({ bitmap }) => bitmap.close());
+    decodedQueueRef.current = [];
     if (transitionRef.current.targetSceneId !== currentScene.id) {
       transitionRef.current.targetSceneId = null;
     }
@@ -923,6 +1521,17 @@ export default function MultiresViewer({
       controls.yaw = currentScene.yaw ?? 0;
       controls.pitch = currentScene.pitch ?? 0;
       controls.fov = currentScene.fov ?? tour?.default_fov ?? 75;
+      recenterMagicWindow();
+      if (rendererRef.current?.xr.isPresenting) {
+        xrAlignYawRef.current = controls.yaw;
+      }
+    } else if (transition.headingYaw !== null) {
+      // Same heading in the new scene's frame - no visible rotation across the switch
+      controls.yaw = transition.headingYaw;
+      transition.startYaw = transition.headingYaw;
+      transition.endYaw = transition.headingYaw;
+      transition.endPitch = currentScene.pitch ?? transition.endPitch;
+      transition.endFov = currentScene.fov ?? transition.endFov;
     } else {
       transition.endYaw = currentScene.yaw ?? transition.endYaw;
       transition.endPitch = currentScene.pitch ?? transition.endPitch;
@@ -931,7 +1540,7 @@ export default function MultiresViewer({
 
     controls.velocityYaw = 0;
     controls.velocityPitch = 0;
-  }, [currentScene, tour?.default_fov]);
+  }, [currentScene, tour?.default_fov, recenterMagicWindow]);
 
   useEffect(() => {
     onSceneChange?.(currentScene.id);
@@ -954,14 +1563,82 @@ export default function MultiresViewer({
     loader.load(absoluteUrl, () => {}, undefined, () => {});
   }, [currentScene.id, scenes]);
 
+  const enterVr = useCallback(async () => {
+    const renderer = rendererRef.current;
+    if (!renderer || !navigator.xr || renderer.xr.isPresenting) return;
+    try {
+      const session = await navigator.xr.requestSession('immersive-vr', { optionalFeatures: ['local-floor'] });
+      await renderer.xr.setSession(session);
+    } catch (error) {
+      console.error('[MultiresViewer] Failed to start VR session:', error);
+    }
+  }, []);
+
+  // Minimap view cone: where the camera points and how wide it sees
+  const getPlanView = useCallback(() => {
+    const { yaw, fov } = controlsRef.current;
+    const aspect = cameraRef.current?.aspect ?? 1;
+    const horizontalFov = 2 * THREE.MathUtils.radToDeg(Math.atan(Math.tan(THREE.MathUtils.degToRad(fov) / 2) * aspect));
+    return { yaw, fov: horizontalFov };
+  }, []);
+
+  const goToPinnedScene = useCallback((sceneId: string) => {
+    autoplayPlayerRef.current?.interrupt(performance.now());
+    changeScene(sceneId);
+  }, [changeScene]);
+
   const missingMedia = !manifest && !currentScene.src_original_url;
 
   return (
     <div className="absolute inset-0 bg-black">
-      <div 
-        ref={containerRef} 
-        className="absolute inset-0"
+      <div
+        ref={containerRef}
+        tabIndex={0}
+        role="application"
+        aria-label={`360° view of ${currentScene.name}. Arrow keys or WASD to look around, plus and minus to zoom, Tab to move between hotspots.`}
+        onKeyDown={handleKeyDown}
+        onKeyUp={handleKeyUp}
+        onBlur={handleBlur}
+        className="absolute inset-0 outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-cyan-400"
       />
+      <MagicWindowControls
+        state={magicWindow.state}
+        onToggle={magicWindow.toggle}
+        onRecenter={recenterMagicWindow}
+      />
+      <AudioControls state={tourAudio.state} onToggle={tourAudio.toggle} />
+      {tour.floor_plans_json && !isEditMode && !xrActive && (
+        <FloorPlanMinimap
+          tour={tour}
+          scenes={scenes}
+          currentSceneId={currentScene.id}
+          getView={getPlanView}
+          onSelectScene={goToPinnedScene}
+          className={floorPlanClassName}
+        />
+      )}
+      {autoplayPlayer && !isEditMode && !xrActive && (
+        <AutoplayControls
+          status={autoplayUi.status}
+          narration={autoplayUi.narration}
+          onPlay={() => controlAutoplay('play')}
+          onPause={() => controlAutoplay('pause')}
+          onResume={() => controlAutoplay('resume')}
+          onSkip={() => controlAutoplay('skip')}
+          onStop={() => controlAutoplay('stop')}
+        />
+      )}
+      {xrSupported && !xrActive && (
+        <button
+          onClick={enterVr}
+          className="absolute bottom-4 left-4 z-10 rounded bg-black/50 px-3 py-2 text-sm text-white hover:bg-black/70"
+        >
+          Enter VR
+        </button>
+      )}
+      <div aria-live="polite" aria-atomic="true" className="sr-only">
+        {announcement}
+      </div>
       {missingMedia && (
         <div className="pointer-events-none absolute inset-0 flex items-center justify-center text-sm text-gray-400">
           No imagery available for this scene.
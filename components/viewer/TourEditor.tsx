@@ -1,16 +1,21 @@
 'use client';
 // frontend/components/viewer/TourEditor.tsx
-import { useState, useCallback, useEffect } from 'react';
-import MultiresViewer from './MultiresViewer';
-import { Tour, Scene, Hotspot } from '@/types/tour';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import MultiresViewer, { type MultiresViewerHandle } from './MultiresViewer';
+import AutoplayRecorderPanel from './AutoplayRecorderPanel';
+import { AUDIO_DEFAULT_HOTSPOT_VOLUME } from './multires/constants';
+import AudioTrackUploader from '@/components/upload/AudioTrackUploader';
+import { Tour, Scene, Hotspot, AudioHotspotPayload } from '@/types/tour';
 import { HotspotsAPI } from '@/lib/api/hotspots';
+import { parseTileQuality } from '@/lib/multires-utils';
 
 interface TourEditorProps {
   tour: Tour;
   scenes: Scene[];
+  onTourUpdate?: (tour: Tour) => void;
 }
 
-export default function TourEditor({ tour, scenes }: TourEditorProps) {
+export default function TourEditor({ tour, scenes, onTourUpdate }: TourEditorProps) {
   const [currentSceneId, setCurrentSceneId] = useState(scenes[0]?.id || '');
   const [isEditMode, setIsEditMode] = useState(false);
   const [hotspots, setHotspots] = useState<Hotspot[]>([]);
@@ -20,7 +25,19 @@ export default function TourEditor({ tour, scenes }: TourEditorProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [editPanel, setEditPanel] = useState<'hotspots' | 'overlays' | null>('hotspots');
-  const [hotspotType, setHotspotType] = useState<'navigation' | 'info' | 'link'>('navigation');
+  const [hotspotType, setHotspotType] = useState<'navigation' | 'info' | 'link' | 'audio'>('navigation');
+  const [audioDraft, setAudioDraft] = useState<AudioHotspotPayload>({ audioUrl: '', volume: AUDIO_DEFAULT_HOTSPOT_VOLUME });
+  const [audioUploading, setAudioUploading] = useState(false);
+  const [showAutoplayPanel, setShowAutoplayPanel] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  // Unsaved autoplay path being previewed in the viewer
+  const [previewAutoplayJson, setPreviewAutoplayJson] = useState<string | null>(null);
+  const viewerRef = useRef<MultiresViewerHandle>(null);
+
+  const viewerTour = useMemo(
+    () => (previewAutoplayJson ? { ...tour, autoplay_json: previewAutoplayJson } : tour),
+    [tour, previewAutoplayJson]
+  );
 
   const currentScene = scenes.find(s => s.id === currentSceneId) || scenes[0];
 
@@ -72,13 +89,21 @@ export default function TourEditor({ tour, scenes }: TourEditorProps) {
   }, []);
 
   const createHotspot = useCallback(async () => {
-    if (!pendingHotspot || !selectedTargetScene) return;
+    if (!pendingHotspot) return;
+    const isAudio = hotspotType === 'audio';
+    if (isAudio ? !audioDraft.audioUrl : !selectedTargetScene) return;
 
     try {
       setIsLoading(true);
       const newHotspot = await HotspotsAPI.createHotspot(
         tour.id,
-        {
+        isAudio ? {
+          kind: 'audio',
+          yaw: pendingHotspot.yaw,
+          pitch: pendingHotspot.pitch,
+          scene_id: currentSceneId,
+          payload: audioDraft
+        } : {
           kind: 'navigation',
           yaw: pendingHotspot.yaw,
           pitch: pendingHotspot.pitch,
@@ -102,6 +127,7 @@ export default function TourEditor({ tour, scenes }: TourEditorProps) {
       setShowHotspotDialog(false);
       setPendingHotspot(null);
       setSelectedTargetScene('');
+      setAudioDraft({ audioUrl: '', volume: AUDIO_DEFAULT_HOTSPOT_VOLUME });
       setError(null);
     } catch (err) {
       console.error('Failed to create hotspot:', err);
@@ -109,7 +135,7 @@ export default function TourEditor({ tour, scenes }: TourEditorProps) {
     } finally {
       setIsLoading(false);
     }
-  }, [pendingHotspot, selectedTargetScene, tour.id, currentSceneId, hotspots]);
+  }, [pendingHotspot, hotspotType, audioDraft, selectedTargetScene, tour.id, currentSceneId, hotspots]);
 
   const updateHotspot = useCallback(async (updatedHotspot: Hotspot) => {
     if (!updatedHotspot.id) return;
@@ -170,15 +196,19 @@ export default function TourEditor({ tour, scenes }: TourEditorProps) {
   return (
     <div className="absolute inset-0">
       <MultiresViewer
-        tour={tour}
+        ref={viewerRef}
+        tour={viewerTour}
         currentScene={currentScene}
         scenes={scenes}
         onSceneChange={handleSceneChange}
         onHotspotClick={handleHotspotClick}
-        isEditMode={isEditMode}
+        isEditMode={isEditMode && !isRecording}
+        autoplay={previewAutoplayJson !== null}
         onHotspotCreate={handleHotspotCreate}
         onHotspotUpdate={updateHotspot}
         hotspots={hotspots}
+        quality={parseTileQuality(tour.tile_quality)}
+        floorPlanClassName="top-28 right-4"
       />
 
       {/* Edit Controls Panel */}
@@ -187,6 +217,12 @@ export default function TourEditor({ tour, scenes }: TourEditorProps) {
           {/* Edit Mode Toggle */}
           <div className="flex items-center justify-between mb-4">
             <h3 className="text-lg font-semibold">Editor Controls</h3>
+            <button
+              onClick={() => setShowAutoplayPanel(true)}
+              className="ml-auto mr-2 px-3 py-1 rounded-full text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+            >
+              Autoplay
+            </button>
             <button
               onClick={() => setIsEditMode(!isEditMode)}
               className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
@@ -255,6 +291,7 @@ export default function TourEditor({ tour, scenes }: TourEditorProps) {
                               {hotspot.kind === 'navigation' && '🔄'}
                               {hotspot.kind === 'info' && 'ℹ️'}
                               {hotspot.kind === 'link' && '🔗'}
+                              {hotspot.kind === 'audio' && '🔊'}
                               {' '}{targetScene?.name || hotspot.kind}
                             </span>
                             {hotspot?.id && (
@@ -287,6 +324,23 @@ export default function TourEditor({ tour, scenes }: TourEditorProps) {
         </div>
       </div>
 
+      {/* Autoplay path recorder */}
+      {showAutoplayPanel && (
+        <div className="absolute top-4 left-4 z-30">
+          <AutoplayRecorderPanel
+            tour={tour}
+            scenes={scenes}
+            currentSceneId={currentSceneId}
+            viewerRef={viewerRef}
+            onSceneRequest={handleSceneChange}
+            onRecordingChange={setIsRecording}
+            onPreview={setPreviewAutoplayJson}
+            onUpdate={onTourUpdate}
+            onClose={() => setShowAutoplayPanel(false)}
+          />
+        </div>
+      )}
+
       {/* Scene selector */}
       <div className="absolute top-4 right-4 z-30">
         <div className="bg-white rounded-lg shadow-lg p-3">
@@ -334,7 +388,7 @@ export default function TourEditor({ tour, scenes }: TourEditorProps) {
               <label className="block text-sm font-medium mb-2">
                 Hotspot Type
               </label>
-              <div className="grid grid-cols-3 gap-2">
+              <div className="grid grid-cols-2 gap-2">
                 <button
                   onClick={() => setHotspotType('navigation')}
                   className={`px-3 py-2 rounded border text-sm font-medium transition-colors ${
@@ -365,6 +419,16 @@ export default function TourEditor({ tour, scenes }: TourEditorProps) {
                 >
                   🔗 Link
                 </button>
+                <button
+                  onClick={() => setHotspotType('audio')}
+                  className={`px-3 py-2 rounded border text-sm font-medium transition-colors ${
+                    hotspotType === 'audio'
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  🔊 Audio
+                </button>
               </div>
             </div>
 
@@ -416,6 +480,32 @@ export default function TourEditor({ tour, scenes }: TourEditorProps) {
               </div>
             )}
 
+            {hotspotType === 'audio' && (
+              <div className="mb-4 space-y-3">
+                <div>
+                  <label className="block text-sm font-medium mb-2">
+                    Title
+                  </label>
+                  <input
+                    type="text"
+                    value={audioDraft.title ?? ''}
+                    onChange={(e) => setAudioDraft({ ...audioDraft, title: e.target.value || undefined })}
+                    placeholder="e.g. Fountain"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  />
+                </div>
+                <AudioTrackUploader
+                  label="Sound (loops, heard from this direction)"
+                  url={audioDraft.audioUrl}
+                  volume={audioDraft.volume ?? AUDIO_DEFAULT_HOTSPOT_VOLUME}
+                  keyPrefix={`tours/${tour.id}/audio/hotspots`}
+                  onChange={(audioUrl, volume) => setAudioDraft({ ...audioDraft, audioUrl, volume })}
+                  onError={setError}
+                  onUploadingChange={setAudioUploading}
+                />
+              </div>
+            )}
+
             <div className="mb-4 p-3 bg-gray-100 rounded">
               <p className="text-sm">
                 <strong>Position:</strong> Yaw {pendingHotspot?.yaw.toFixed(1)}°, Pitch {pendingHotspot?.pitch.toFixed(1)}°
@@ -425,7 +515,10 @@ export default function TourEditor({ tour, scenes }: TourEditorProps) {
             <div className="flex gap-2">
               <button
                 onClick={createHotspot}
-                disabled={hotspotType === 'navigation' && !selectedTargetScene}
+                disabled={
+                  (hotspotType === 'navigation' && !selectedTargetScene)
+                  || (hotspotType === 'audio' && (!audioDraft.audioUrl || audioUploading))
+                }
                 className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 Create Hotspot
@@ -436,6 +529,7 @@ export default function TourEditor({ tour, scenes }: TourEditorProps) {
                   setPendingHotspot(null);
                   setSelectedTargetScene('');
                   setHotspotType('navigation');
+                  setAudioDraft({ audioUrl: '', volume: AUDIO_DEFAULT_HOTSPOT_VOLUME });
                 }}
                 className="flex-1 px-4 py-2 bg-gray-300 text-gray-800 rounded-lg hover:bg-gray-400"
               >
@@ -4,6 +4,9 @@ import { useEffect, useRef, useState } from 'react';
 import * as THREE from 'three';
 import { Tour, Scene, Hotspot } from '@/types/tour';
 import TourEditor from './TourEditor';
+import MagicWindowControls, { useMagicWindow } from './MagicWindowControls';
+import AudioControls, { useTourAudio } from './AudioControls';
+import FloorPlanMinimap from './FloorPlanMinimap';
 
 // frontend/components/viewer/VirtualTourViewer.tsx
 interface VirtualTourViewerProps {
@@ -12,6 +15,7 @@ interface VirtualTourViewerProps {
   scenes: Scene[];
   onSceneChange?: (sceneId: string) => void;
   onHotspotClick?: (hotspot: Hotspot) => void;
+  onTourUpdate?: (tour: Tour) => void;
 }
 
 export default function VirtualTourViewer({
@@ -19,6 +23,7 @@ export default function VirtualTourViewer({
   currentScene,
   onSceneChange,
   onHotspotClick,
+  onTourUpdate,
   scenes
 }: VirtualTourViewerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -30,6 +35,17 @@ export default function VirtualTourViewer({
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isAutoplay, setIsAutoplay] = useState(tour.autoplay_enabled || false);
+  const magicWindow = useMagicWindow();
+  const magicWindowLookRef = magicWindow.lookRef;
+  const recenterMagicWindow = magicWindow.recenter;
+  // MultiresViewer plays the tour's audio itself for tiled scenes
+  const ownsAudio = !currentScene.tiles_manifest;
+  const tourAudio = useTourAudio(
+    ownsAudio ? tour : undefined,
+    ownsAudio ? currentScene : undefined,
+    currentScene.hotspots ?? [],
+  );
+  const tourAudioRef = tourAudio.audioRef;
   
   // Mouse/touch controls state
   const mouseDown = useRef(false);
@@ -56,6 +72,7 @@ export default function VirtualTourViewer({
     return <TourEditor 
       tour={tour} 
       scenes={scenes}
+      onTourUpdate={onTourUpdate}
     />;
   }
 
@@ -98,6 +115,16 @@ export default function VirtualTourViewer({
         lon.current += tour.default_yaw_speed || 0.5;
       }
 
+      // Device motion adds to dragging; a recalibration re-places the view at the scene's initial yaw
+      const motion = magicWindowLookRef.current?.poll();
+      if (motion?.recalibrated) {
+        lon.current = currentScene.yaw || 0;
+        lat.current = motion.pitch;
+      } else if (motion) {
+        lon.current += motion.deltaYaw;
+        lat.current += motion.deltaPitch;
+      }
+
       // Update camera rotation
       lat.current = Math.max(-85, Math.min(85, lat.current));
       phi.current = THREE.MathUtils.degToRad(90 - lat.current);
@@ -109,6 +136,7 @@ export default function VirtualTourViewer({
       target.z = 500 * Math.sin(phi.current) * Math.sin(theta.current);
 
       camera.lookAt(target);
+      tourAudioRef.current?.updateListener(lon.current, lat.current);
       renderer.render(scene, camera);
     }
 
@@ -161,6 +189,14 @@ export default function VirtualTourViewer({
         const manifest = await response.json();
         console.log('Manifest loaded:', manifest);
         
+        // Face entries may be relative to the manifest (or to manifest.basePath)
+        const faceBase = new URL(
+          manifest.basePath
+            ? `${String(manifest.basePath).replace(/\/$/, '')}/`
+            : currentScene.cubemap_manifest_url!,
+          window.location.href
+        ).toString();
+        
         // Load textures for each face
         const textureLoader = new THREE.TextureLoader();
         const materials = [];
@@ -169,7 +205,8 @@ export default function VirtualTourViewer({
         const faceOrder = ['px', 'nx', 'py', 'ny', 'pz', 'nz'];
         
         for (const face of faceOrder) {
-          const texture = await textureLoader.loadAsync(manifest.faces[face]);
+          const texture = await textureLoader.loadAsync(new URL(manifest.faces[face], faceBase).toString());
+          texture.colorSpace = THREE.SRGBColorSpace;
           materials.push(new THREE.MeshBasicMaterial({ 
             map: texture,
             side: THREE.BackSide
@@ -355,11 +392,12 @@ export default function VirtualTourViewer({
   useEffect(() => {
     lon.current = currentScene.yaw || 0;
     lat.current = currentScene.pitch || 0;
+    recenterMagicWindow();
     if (cameraRef.current) {
       cameraRef.current.fov = currentScene.fov || tour.default_fov || 75;
       cameraRef.current.updateProjectionMatrix();
     }
-  }, [currentScene.yaw, currentScene.pitch, currentScene.fov, tour.default_fov]);
+  }, [currentScene.yaw, currentScene.pitch, currentScene.fov, tour.default_fov, recenterMagicWindow]);
 
   // Update autoplay state
   useEffect(() => {
@@ -418,6 +456,14 @@ export default function VirtualTourViewer({
     onHotspotClick?.(hotspot);
   };
 
+  // Minimap view cone, read every frame
+  const getPlanView = () => {
+    const camera = cameraRef.current;
+    const fov = camera?.fov ?? tour.default_fov ?? 75;
+    const horizontalFov = 2 * THREE.MathUtils.radToDeg(Math.atan(Math.tan(THREE.MathUtils.degToRad(fov) / 2) * (camera?.aspect ?? 1)));
+    return { yaw: lon.current, fov: horizontalFov };
+  };
+
   return (
     <div className="absolute inset-0 bg-black">
       <div
@@ -489,6 +535,16 @@ export default function VirtualTourViewer({
         <p className="text-sm opacity-75">{tour.name}</p>
       </div>
 
+      {tour.floor_plans_json && (
+        <FloorPlanMinimap
+          tour={tour}
+          scenes={scenes}
+          currentSceneId={currentScene.id}
+          getView={getPlanView}
+          onSelectScene={(sceneId) => onSceneChange?.(sceneId)}
+        />
+      )}
+
       {/* Controls */}
       <div className="absolute bottom-4 right-4 flex gap-2 z-10">
         <button
@@ -521,6 +577,14 @@ export default function VirtualTourViewer({
         </button>
       </div>
 
+      <MagicWindowControls
+        state={magicWindow.state}
+        onToggle={magicWindow.toggle}
+        onRecenter={recenterMagicWindow}
+        className="bottom-16 right-4"
+      />
+      <AudioControls state={tourAudio.state} onToggle={tourAudio.toggle} className="bottom-28 right-4" />
+
       {/* Scene navigation */}
       {tour.tour_scenes && tour.tour_scenes.length > 1 && (
         <div className="absolute bottom-4 left-4 flex gap-2 z-10">
@@ -0,0 +1,249 @@
+import { AUDIO_CROSSFADE_MS } from './constants';
+
+// Tour sound: a music loop, the current scene's ambient loop and looping sources
+// at audio hotspots, panned by where they sit relative to the view. Nothing is
+// built until unlock() runs from a user gesture, which is when browsers allow
+// an AudioContext to start
+
+export interface PositionalSource {
+  id: string;
+  url: string;
+  yaw: number;
+  pitch: number;
+  volume: number;
+}
+
+interface Track {
+  url: string;
+  volume: number;
+  element: HTMLAudioElement;
+  source: MediaElementAudioSourceNode;
+  gain: GainNode;
+}
+
+interface PositionalTrack extends Track {
+  panner: StereoPannerNode;
+  yaw: number;
+  pitch: number;
+}
+
+// Quietest a source gets when directly behind the view
+const BEHIND_GAIN = 0.3;
+// Smoothing for per-frame pan/gain changes (seconds)
+const LISTENER_TIME_CONSTANT = 0.05;
+
+const degToRad = (degrees: number) => (degrees * Math.PI) / 180;
+
+export function isWebAudioSupported(): boolean {
+  return typeof window !== 'undefined' && typeof window.AudioContext === 'function';
+}
+
+export class TourAudio {
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private muted = false;
+  private music: Track | null = null;
+  private ambient: Track | null = null;
+  private readonly positional = new Map<string, PositionalTrack>();
+  // What should be playing - kept while there is no context yet
+  private wanted = {
+    music: null as { url: string; volume: number } | null,
+    ambient: null as { url: string; volume: number } | null,
+    positional: [] as PositionalSource[],
+  };
+  private listener = { yaw: 0, pitch: 0 };
+
+  get running(): boolean {
+    return this.context?.state === 'running';
+  }
+
+  /**
+   * Start (or restart) audio; call from a click/keydown handler. False while the
+   * browser still refuses
+   */
+  async unlock(): Promise<boolean> {
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.master = this.context.createGain();
+      this.master.gain.value = this.muted ? 0 : 1;
+      this.master.connect(this.context.destination);
+    }
+    try {
+      await this.context.resume();
+    } catch {
+      return false;
+    }
+    if (!this.running) return false;
+    this.sync();
+    return true;
+  }
+
+  setMuted(muted: boolean) {
+    this.muted = muted;
+    if (!this.context || !this.master) return;
+    this.ramp(this.master, muted ? 0 : 1, 200);
+    const tracks = [this.music, this.ambient, ...this.positional.values()];
+    tracks.forEach((track) => {
+      if (!track) return;
+      if (muted) {
+        // Stop downloading/decoding once the fade is over
+        window.setTimeout(() => this.muted && track.element.pause(), 250);
+      } else {
+        this.play(track);
+      }
+    });
+  }
+
+  setMusic(url: string | null, volume: number) {
+    this.wanted.music = url ? { url, volume } : null;
+    this.sync();
+  }
+
+  /**
+   * Scene changes crossfade from the old loop to the new one
+   */
+  setAmbient(url: string | null, volume: number) {
+    this.wanted.ambient = url ? { url, volume } : null;
+    this.sync();
+  }
+
+  setPositionalSources(sources: PositionalSource[]) {
+    this.wanted.positional = sources;
+    this.sync();
+  }
+
+  /**
+   * Pan and level hotspot sources for the current view direction; call every frame
+   */
+  updateListener(yaw: number, pitch: number) {
+    this.listener = { yaw, pitch };
+    if (!this.context) return;
+    const now = this.context.currentTime;
+    this.positional.forEach((track) => {
+      const { pan, gain } = this.placement(track);
+      track.panner.pan.setTargetAtTime(pan, now, LISTENER_TIME_CONSTANT);
+      track.gain.gain.setTargetAtTime(track.volume * gain, now, LISTENER_TIME_CONSTANT);
+    });
+  }
+
+  dispose() {
+    [this.music, this.ambient, ...this.positional.values()].forEach((track) => track && this.release(track));
+    this.music = null;
+    this.ambient = null;
+    this.positional.clear();
+    this.context?.close().catch(() => {});
+    this.context = null;
+    this.master = null;
+  }
+
+  private sync() {
+    if (!this.context) return;
+    this.music = this.syncTrack(this.music, this.wanted.music);
+    this.ambient = this.syncTrack(this.ambient, this.wanted.ambient);
+
+    const wanted = new Map(this.wanted.positional.map((source) => [source.id, source]));
+    this.positional.forEach((track, id) => {
+      const source = wanted.get(id);
+      if (source && source.url === track.url) return;
+      this.retire(track);
+      this.positional.delete(id);
+    });
+    wanted.forEach((source, id) => {
+      const existing = this.positional.get(id);
+      if (existing) {
+        Object.assign(existing, { yaw: source.yaw, pitch: source.pitch, volume: source.volume });
+        return;
+      }
+      const track = this.createTrack(source.url, source.volume, true) as PositionalTrack;
+      Object.assign(track, { yaw: source.yaw, pitch: source.pitch });
+      this.positional.set(id, track);
+      this.ramp(track.gain, source.volume * this.placement(track).gain, AUDIO_CROSSFADE_MS);
+    });
+    this.updateListener(this.listener.yaw, this.listener.pitch);
+  }
+
+  private syncTrack(track: Track | null, wanted: { url: string; volume: number } | null): Track | null {
+    if (track && wanted && track.url === wanted.url) {
+      if (track.volume !== wanted.volume) {
+        track.volume = wanted.volume;
+        this.ramp(track.gain, wanted.volume, 200);
+      }
+      return track;
+    }
+    if (track) this.retire(track);
+    if (!wanted) return null;
+    const next = this.createTrack(wanted.url, wanted.volume, false);
+    this.ramp(next.gain, wanted.volume, AUDIO_CROSSFADE_MS);
+    return next;
+  }
+
+  private createTrack(url: string, volume: number, positional: boolean): Track {
+    const context = this.context as AudioContext;
+    const element = new Audio();
+    // Without CORS the element plays silence through WebAudio
+    element.crossOrigin = 'anonymous';
+    element.loop = true;
+    element.preload = 'auto';
+    element.src = url;
+
+    const source = context.createMediaElementSource(element);
+    const gain = context.createGain();
+    gain.gain.value = 0;
+    source.connect(gain);
+
+    const track: Track = { url, volume, element, source, gain };
+    if (positional) {
+      const panner = context.createStereoPanner();
+      gain.connect(panner).connect(this.master as GainNode);
+      (track as PositionalTrack).panner = panner;
+    } else {
+      gain.connect(this.master as GainNode);
+    }
+    this.play(track);
+    return track;
+  }
+
+  private play(track: Track) {
+    if (this.muted || !this.running) return;
+    track.element.play().catch((error) => {
+      console.warn('[TourAudio] Could not play', track.url, error);
+    });
+  }
+
+  // Fade out, then let go of the element and nodes
+  private retire(track: Track) {
+    this.ramp(track.gain, 0, AUDIO_CROSSFADE_MS);
+    window.setTimeout(() => this.release(track), AUDIO_CROSSFADE_MS + 50);
+  }
+
+  private release(track: Track) {
+    track.element.pause();
+    track.element.removeAttribute('src');
+    track.element.load();
+    track.source.disconnect();
+    track.gain.disconnect();
+    (track as Partial<PositionalTrack>).panner?.disconnect();
+  }
+
+  private ramp(node: GainNode, value: number, ms: number) {
+    if (!this.context) return;
+    const now = this.context.currentTime;
+    node.gain.cancelScheduledValues(now);
+    node.gain.setValueAtTime(node.gain.value, now);
+    node.gain.linearRampToValueAtTime(value, now + ms / 1000);
+  }
+
+  // Left/right from the yaw difference; quieter the further the source is from the view centre
+  private placement(track: PositionalTrack): { pan: number; gain: number } {
+    const yawDelta = degToRad(track.yaw - this.listener.yaw);
+    const sourcePitch = degToRad(track.pitch);
+    const viewPitch = degToRad(this.listener.pitch);
+    const cosAngle = Math.sin(sourcePitch) * Math.sin(viewPitch)
+      + Math.cos(sourcePitch) * Math.cos(viewPitch) * Math.cos(yawDelta);
+    return {
+      // Positive yaw is clockwise, i.e. to the right
+      pan: Math.max(-1, Math.min(1, Math.sin(yawDelta) * Math.cos(sourcePitch))),
+      gain: BEHIND_GAIN + (1 - BEHIND_GAIN) * (1 + cosAngle) / 2,
+    };
+  }
+}
@@ -0,0 +1,127 @@
+import type { AutoplaySceneStep, AutoplayWaypoint } from '@/types/tour';
+import type { ViewerPose } from './types';
+
+// Turns the author's looking around into autoplay waypoints: every time the view
+// comes to rest a keyframe is taken, timed by how long the move before it took
+// and how long the view stayed put afterwards
+
+// Smaller changes between samples count as holding still (degrees)
+const MOTION_EPSILON = 0.25;
+// Still for this long after moving = the move is over
+const SETTLE_MS = 500;
+// Scene changes animate the view for a moment - not the author's doing
+const SCENE_ENTRY_IGNORE_MS = 1500;
+// Playback glides from the scene's starting view to its first keyframe over this long
+export const SCENE_ENTRY_MOVE_MS = 1000;
+
+const angleBetween = (a: ViewerPose, b: ViewerPose) =>
+  Math.abs((((a.yaw - b.yaw + 180) % 360) + 360) % 360 - 180)
+  + Math.abs(a.pitch - b.pitch)
+  + Math.abs(a.fov - b.fov);
+
+const roundPose = (pose: ViewerPose) => ({
+  yaw: Math.round(pose.yaw * 10) / 10,
+  pitch: Math.round(pose.pitch * 10) / 10,
+  fov: Math.round(pose.fov * 10) / 10,
+});
+
+export class AutoplayRecorder {
+  private readonly steps: AutoplaySceneStep[] = [];
+  private lastPose: ViewerPose | null = null;
+  private moving = false;
+  private moveStartedAt = 0;
+  private lastMovedAt = 0;
+  // When the view last came to rest - the latest keyframe's dwell runs from here
+  private restStartedAt = 0;
+  // Take the scene's first keyframe once its entry animation has played out
+  private sceneEntryAt: number | null = null;
+
+  constructor(now: number, sceneId: string, pose: ViewerPose) {
+    this.steps.push({ sceneId, waypoints: [] });
+    this.addWaypoint(now, pose, SCENE_ENTRY_MOVE_MS);
+  }
+
+  private get step(): AutoplaySceneStep {
+    return this.steps[this.steps.length - 1];
+  }
+
+  private get lastWaypoint(): AutoplayWaypoint | undefined {
+    return this.step.waypoints[this.step.waypoints.length - 1];
+  }
+
+  get keyframeCount(): number {
+    return this.steps.reduce((count, step) => count + step.waypoints.length, 0);
+  }
+
+  /**
+   * Feed the current view a few times a second
+   */
+  sample(now: number, pose: ViewerPose) {
+    if (this.sceneEntryAt !== null) {
+      if (now < this.sceneEntryAt) return;
+      this.sceneEntryAt = null;
+      this.addWaypoint(now, pose, SCENE_ENTRY_MOVE_MS);
+      return;
+    }
+
+    const previous = this.lastPose;
+    this.lastPose = { ...pose };
+    if (!previous) return;
+
+    if (angleBetween(previous, pose) > MOTION_EPSILON) {
+      if (!this.moving) {
+        this.moving = true;
+        this.moveStartedAt = now;
+        this.closeDwell(now);
+      }
+      this.lastMovedAt = now;
+    } else if (this.moving && now - this.lastMovedAt >= SETTLE_MS) {
+      this.moving = false;
+      this.addWaypoint(this.lastMovedAt, pose, this.lastMovedAt - this.moveStartedAt);
+    }
+  }
+
+  /**
+   * Keyframe the current view now, without waiting for it to settle
+   */
+  capture(now: number, pose: ViewerPose) {
+    if (this.sceneEntryAt !== null) return;
+    const moveMs = this.moving ? now - this.moveStartedAt : 0;
+    if (!this.moving) this.closeDwell(now);
+    this.moving = false;
+    this.addWaypoint(now, pose, moveMs);
+  }
+
+  /**
+   * The author followed a navigation hotspot into another scene
+   */
+  jumpToScene(now: number, sceneId: string) {
+    if (sceneId === this.step.sceneId) return;
+    if (!this.moving) this.closeDwell(now);
+    this.moving = false;
+    if (!this.step.waypoints.length) this.steps.pop();
+    this.steps.push({ sceneId, waypoints: [] });
+    this.sceneEntryAt = now + SCENE_ENTRY_IGNORE_MS;
+  }
+
+  finish(now: number): AutoplaySceneStep[] {
+    if (!this.moving && this.sceneEntryAt === null) this.closeDwell(now);
+    return this.steps.filter((step) => step.waypoints.length > 0);
+  }
+
+  private addWaypoint(at: number, pose: ViewerPose, moveMs: number) {
+    this.step.waypoints.push({
+      ...roundPose(pose),
+      moveMs: Math.round(moveMs),
+      dwellMs: 0,
+      easing: 'ease-in-out',
+    });
+    this.lastPose = { ...pose };
+    this.restStartedAt = at;
+  }
+
+  private closeDwell(now: number) {
+    const waypoint = this.lastWaypoint;
+    if (waypoint) waypoint.dwellMs = Math.max(0, Math.round(now - this.restStartedAt));
+  }
+}
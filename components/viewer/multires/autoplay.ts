@@ -0,0 +1,244 @@
+import type {
+  AutoplayEasing,
+  AutoplayNarration,
+  AutoplaySceneStep,
+  AutoplayScript,
+  AutoplayWaypoint,
+} from '@/types/tour';
+import { isFiniteNumber, normalizeYaw } from '@/lib/number-utils';
+import { AUTOPLAY_IDLE_RESUME_MS } from './constants';
+import type { ViewerPose } from './types';
+
+// Guided autoplay: per scene, move to each waypoint and hold it, then on to the
+// next scene. The viewer feeds the current pose in every frame and applies the
+// pose (or scene change) handed back
+
+// interrupted: the viewer took over; playback resumes by itself after the idle timeout
+export type AutoplayStatus = 'stopped' | 'playing' | 'paused' | 'interrupted';
+
+export interface AutoplayStep {
+  pose?: ViewerPose;
+  // Scene to switch to before the next waypoint
+  sceneId?: string;
+}
+
+const EASINGS: Record<AutoplayEasing, (t: number) => number> = {
+  linear: (t) => t,
+  'ease-in': (t) => t * t * t,
+  'ease-out': (t) => 1 - Math.pow(1 - t, 3),
+  'ease-in-out': (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+};
+
+function parseWaypoint(value: unknown): AutoplayWaypoint | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  if (!isFiniteNumber(raw.yaw) || !isFiniteNumber(raw.pitch)) return null;
+
+  const narration = raw.narration as AutoplayNarration | undefined;
+  return {
+    yaw: raw.yaw,
+    pitch: Math.max(-85, Math.min(85, raw.pitch)),
+    fov: isFiniteNumber(raw.fov) ? Math.max(35, Math.min(100, raw.fov)) : undefined,
+    moveMs: isFiniteNumber(raw.moveMs) ? Math.max(0, raw.moveMs) : 2000,
+    dwellMs: isFiniteNumber(raw.dwellMs) ? Math.max(0, raw.dwellMs) : 3000,
+    easing: typeof raw.easing === 'string' && raw.easing in EASINGS ? raw.easing as AutoplayEasing : 'ease-in-out',
+    narration: narration && typeof narration === 'object' && (narration.text || narration.audioUrl)
+      ? {
+        text: typeof narration.text === 'string' ? narration.text : undefined,
+        audioUrl: typeof narration.audioUrl === 'string' ? narration.audioUrl : undefined,
+      }
+      : undefined,
+  };
+}
+
+/**
+ * Script stored in tour.autoplay_json; null when missing or unusable. Malformed
+ * waypoints and scenes without any are dropped
+ */
+export function parseAutoplayScript(json?: string): AutoplayScript | null {
+  if (!json) return null;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!raw || typeof raw !== 'object' || !Array.isArray((raw as AutoplayScript).scenes)) return null;
+
+  const script = raw as AutoplayScript;
+  const scenes = script.scenes
+    .map((step): AutoplaySceneStep | null => {
+      if (!step || typeof step.sceneId !== 'string' || !Array.isArray(step.waypoints)) return null;
+      const waypoints = step.waypoints.map(parseWaypoint).filter((waypoint): waypoint is AutoplayWaypoint => !!waypoint);
+      return waypoints.length ? { sceneId: step.sceneId, waypoints } : null;
+    })
+    .filter((step): step is AutoplaySceneStep => !!step);
+
+  if (!scenes.length) return null;
+  return {
+    version: 1,
+    scenes,
+    loop: !!script.loop,
+    idleResumeMs: isFiniteNumber(script.idleResumeMs) ? Math.max(0, script.idleResumeMs) : undefined,
+  };
+}
+
+export class AutoplayPlayer {
+  private statusValue: AutoplayStatus = 'stopped';
+  private sceneIndex = 0;
+  private waypointIndex = 0;
+  // scene: waiting to be in the step's scene; move/dwell: the current waypoint
+  private phase: 'scene' | 'move' | 'dwell' = 'scene';
+  private phaseStart = 0;
+  // The move (re)starts from wherever the view is on the next update
+  private moveFromCurrent = true;
+  private sceneRequested = false;
+  private from: ViewerPose = { yaw: 0, pitch: 0, fov: 75 };
+  private to: ViewerPose = { yaw: 0, pitch: 0, fov: 75 };
+  private resumeAt = Infinity;
+
+  constructor(private readonly script: AutoplayScript) {}
+
+  get status(): AutoplayStatus {
+    return this.statusValue;
+  }
+
+  get narration(): AutoplayNarration | null {
+    if (this.statusValue === 'stopped' || this.phase === 'scene') return null;
+    return this.waypoint?.narration ?? null;
+  }
+
+  private get step(): AutoplaySceneStep | undefined {
+    return this.script.scenes[this.sceneIndex];
+  }
+
+  private get waypoint(): AutoplayWaypoint | undefined {
+    return this.step?.waypoints[this.waypointIndex];
+  }
+
+  /**
+   * Play from the first step in the given scene (the start of the script otherwise)
+   */
+  start(currentSceneId: string) {
+    const index = this.script.scenes.findIndex((step) => step.sceneId === currentSceneId);
+    this.sceneIndex = Math.max(0, index);
+    this.enterScene();
+    this.statusValue = 'playing';
+  }
+
+  stop() {
+    this.statusValue = 'stopped';
+  }
+
+  pause() {
+    if (this.statusValue === 'stopped') return;
+    this.statusValue = 'paused';
+  }
+
+  resume() {
+    if (this.statusValue === 'stopped' || this.statusValue === 'playing') return;
+    this.statusValue = 'playing';
+    this.restartWaypoint();
+  }
+
+  /**
+   * The viewer looked around by hand: hold off until they've been idle for a while
+   */
+  interrupt(now: number) {
+    if (this.statusValue !== 'playing' && this.statusValue !== 'interrupted') return;
+    this.statusValue = 'interrupted';
+    this.resumeAt = now + (this.script.idleResumeMs ?? AUTOPLAY_IDLE_RESUME_MS);
+  }
+
+  /**
+   * On to the next waypoint, or the next scene while still waiting for this one
+   */
+  skip() {
+    if (this.statusValue === 'stopped') return;
+    const more = this.phase === 'scene' ? this.nextScene() : this.advance();
+    this.statusValue = more ? 'playing' : 'stopped';
+  }
+
+  update(now: number, pose: ViewerPose, currentSceneId: string): AutoplayStep | null {
+    if (this.statusValue === 'interrupted' && now >= this.resumeAt) this.resume();
+    if (this.statusValue !== 'playing') return null;
+
+    const step = this.step;
+    if (!step) return null;
+
+    if (this.phase === 'scene') {
+      if (currentSceneId !== step.sceneId) {
+        if (this.sceneRequested) return null;
+        this.sceneRequested = true;
+        return { sceneId: step.sceneId };
+      }
+      this.phase = 'move';
+      this.moveFromCurrent = true;
+    }
+
+    const waypoint = this.waypoint;
+    if (!waypoint) return null;
+
+    if (this.moveFromCurrent) {
+      this.moveFromCurrent = false;
+      this.phaseStart = now;
+      this.from = { ...pose };
+      // The short way round
+      const yawDelta = normalizeYaw(waypoint.yaw - pose.yaw);
+      this.to = { yaw: pose.yaw + yawDelta, pitch: waypoint.pitch, fov: waypoint.fov ?? pose.fov };
+    }
+
+    if (this.phase === 'move') {
+      const progress = waypoint.moveMs > 0 ? Math.min(1, (now - this.phaseStart) / waypoint.moveMs) : 1;
+      const eased = EASINGS[waypoint.easing ?? 'ease-in-out'](progress);
+      if (progress >= 1) {
+        this.phase = 'dwell';
+        this.phaseStart = now;
+      }
+      return {
+        pose: {
+          yaw: this.from.yaw + (this.to.yaw - this.from.yaw) * eased,
+          pitch: this.from.pitch + (this.to.pitch - this.from.pitch) * eased,
+          fov: this.from.fov + (this.to.fov - this.from.fov) * eased,
+        },
+      };
+    }
+
+    if (now - this.phaseStart >= waypoint.dwellMs && !this.advance()) {
+      this.statusValue = 'stopped';
+    }
+    return { pose: { ...this.to } };
+  }
+
+  private restartWaypoint() {
+    if (this.phase === 'scene') {
+      this.sceneRequested = false;
+    } else {
+      this.phase = 'move';
+      this.moveFromCurrent = true;
+    }
+  }
+
+  // Both return false once a non-looping script has run out (ready to start over)
+  private advance(): boolean {
+    this.waypointIndex++;
+    if (!this.waypoint) return this.nextScene();
+    this.phase = 'move';
+    this.moveFromCurrent = true;
+    return true;
+  }
+
+  private nextScene(): boolean {
+    this.sceneIndex++;
+    const ended = this.sceneIndex >= this.script.scenes.length;
+    if (ended) this.sceneIndex = 0;
+    this.enterScene();
+    return !ended || !!this.script.loop;
+  }
+
+  private enterScene() {
+    this.waypointIndex = 0;
+    this.phase = 'scene';
+    this.sceneRequested = false;
+  }
+}
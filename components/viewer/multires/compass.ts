@@ -0,0 +1,27 @@
+import type { Scene } from '@/types/tour';
+import { normalizeYaw } from '@/lib/number-utils';
+
+// Yaw is panorama-relative (0 = image centre, positive = clockwise);
+// Scene.north_offset is the compass heading of yaw 0
+
+export { normalizeYaw };
+
+export function hasNorthOffset<T extends Pick<Scene, 'north_offset'>>(
+  scene: T | null | undefined,
+): scene is T & { north_offset: number } {
+  return typeof scene?.north_offset === 'number' && Number.isFinite(scene.north_offset);
+}
+
+/**
+ * Compass heading (0-360, clockwise from north) for a yaw in the given scene
+ */
+export function yawToHeading(yaw: number, scene: Pick<Scene, 'north_offset'>): number {
+  return (((yaw + (scene.north_offset ?? 0)) % 360) + 360) % 360;
+}
+
+/**
+ * Yaw in the given scene that faces a compass heading
+ */
+export function headingToYaw(heading: number, scene: Pick<Scene, 'north_offset'>): number {
+  return normalizeYaw(heading - (scene.north_offset ?? 0));
+}
@@ -1,7 +1,27 @@
 export const SPHERE_RADIUS = 500;
-export const MAX_CONCURRENT_TILE_LOADS = 4;
 export const TILE_CACHE_LIMIT = 160;
+// Byte budget of the persistent (Cache Storage) tier behind the in-memory cache
+export const PERSISTENT_TILE_CACHE_BYTES = 256 * 1024 * 1024;
 export const TILE_UNLOAD_COOLDOWN = 5000;
 export const TILE_UPDATE_INTERVAL_MS = 150;
+export const TILE_FADE_MS = 300;
+// Texels uploaded to the GPU per frame (two 1024px tiles); at least one tile always goes
+export const TILE_UPLOAD_BUDGET_PX = 2 * 1024 * 1024;
+// Navigation hotspots this close to the view centre (degrees) get their target scene prefetched
+export const SCENE_PREFETCH_ANGLE = 30;
+// Bytes scene prefetching may download per rolling window
+export const SCENE_PREFETCH_BUDGET_BYTES = 6 * 1024 * 1024;
+export const SCENE_PREFETCH_WINDOW_MS = 60_000;
+// Keyboard/gamepad look speed in degrees per second (panning scales with the fov, 75° = 1x)
+export const LOOK_PAN_SPEED = 90;
+export const LOOK_ZOOM_SPEED = 45;
+// Autoplay picks up again this long after the viewer stops interacting (scripts can override)
+export const AUTOPLAY_IDLE_RESUME_MS = 10_000;
 export const NAV_HOTSPOT_COLOR = '#00BCD4';
 export const INFO_HOTSPOT_COLOR = '#FFB300';
+export const AUDIO_HOTSPOT_COLOR = '#AB47BC';
+// Tour audio: gain when the tour/scene doesn't set one, and scene-to-scene crossfade time
+export const AUDIO_DEFAULT_MUSIC_VOLUME = 0.4;
+export const AUDIO_DEFAULT_AMBIENT_VOLUME = 0.6;
+export const AUDIO_DEFAULT_HOTSPOT_VOLUME = 0.8;
+export const AUDIO_CROSSFADE_MS = 1500;
@@ -0,0 +1,102 @@
+import { fetchTile } from './tile-cache';
+import type { TileCacheKey } from './tile-cache';
+
+// Tile fetch + decode to ImageBitmap, in a worker when the browser allows it
+
+interface PendingDecode {
+  resolve: (bitmap: ImageBitmap) => void;
+  reject: (error: Error) => void;
+  // Main-thread fallback only
+  controller?: AbortController;
+}
+
+type DecoderResponse =
+  | { type: 'loaded'; id: string; bitmap: ImageBitmap }
+  | { type: 'error'; id: string; message: string };
+
+export class TileCancelledError extends Error {
+  constructor(id: string) {
+    super(`Tile load cancelled: ${id}`);
+    this.name = 'TileCancelledError';
+  }
+}
+
+export class TileDecoder {
+  private worker: Worker | null = null;
+  private pending = new Map<string, PendingDecode>();
+
+  constructor() {
+    if (typeof Worker === 'undefined' || typeof createImageBitmap === 'undefined') return;
+    try {
+      this.worker = new Worker(new URL('./tile-decoder.worker.ts', import.meta.url));
+      this.worker.onmessage = (event: MessageEvent<DecoderResponse>) => this.settle(event.data);
+    } catch (error) {
+      console.warn('[TileDecoder] Worker unavailable, decoding on the main thread', error);
+      this.worker = null;
+    }
+  }
+
+  /**
+   * Fetch (through the persistent cache when a key is given) and decode a tile;
+   * rejects with TileCancelledError when cancelled
+   */
+  load(id: string, url: string, cacheKey?: TileCacheKey): Promise<ImageBitmap> {
+    this.cancel(id);
+    return new Promise<ImageBitmap>((resolve, reject) => {
+      if (this.worker) {
+        this.pending.set(id, { resolve, reject });
+        this.worker.postMessage({ type: 'load', id, url, cacheKey });
+        return;
+      }
+
+      const controller = new AbortController();
+      this.pending.set(id, { resolve, reject, controller });
+      fetchTile(url, cacheKey, controller.signal)
+        .then((blob) => createImageBitmap(blob))
+        .then((bitmap) => {
+          // Don't settle a newer load of the same tile with this cancelled one
+          if (controller.signal.aborted) {
+            bitmap.close();
+            return;
+          }
+          this.settle({ type: 'loaded', id, bitmap });
+        })
+        .catch((error: Error) => {
+          if (!controller.signal.aborted) this.settle({ type: 'error', id, message: error.message });
+        });
+    });
+  }
+
+  cancel(id: string) {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+    this.pending.delete(id);
+    if (entry.controller) {
+      entry.controller.abort();
+    } else {
+      this.worker?.postMessage({ type: 'cancel', id });
+    }
+    entry.reject(new TileCancelledError(id));
+  }
+
+  dispose() {
+    Array.from(this.pending.keys()).forEach((id) => this.cancel(id));
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private settle(response: DecoderResponse) {
+    const entry = this.pending.get(response.id);
+    if (!entry) {
+      // Cancelled while the result was in flight
+      if (response.type === 'loaded') response.bitmap.close();
+      return;
+    }
+    this.pending.delete(response.id);
+    if (response.type === 'loaded') {
+      entry.resolve(response.bitmap);
+    } else {
+      entry.reject(new Error(response.message));
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import * as THREE from 'three';
+import { normalizeYaw } from '@/lib/number-utils';
+
+// "Magic window" look-around: the phone is a window into the panorama. Motion
+// is handed out as deltas so it adds to touch dragging instead of fighting it
+
+export interface OrientationMotion {
+  deltaYaw: number;
+  deltaPitch: number;
+  // Where the back of the device points above/below the horizon
+  pitch: number;
+  // First reading since start()/recalibrate() - place the view instead of moving it
+  recalibrated: boolean;
+}
+
+type PermissionedOrientationEvent = typeof DeviceOrientationEvent & {
+  requestPermission?: () => Promise<'granted' | 'denied'>;
+};
+
+// Camera looks out of the back of the device, not out of its top edge. Turning the
+// screen to landscape only rolls the camera around that direction, and the view
+// keeps the horizon level, so yaw/pitch need no correction for it - readings
+// taken mid-rotation are unreliable though, so motion is re-based afterwards
+const DEVICE_TO_CAMERA = new THREE.Quaternion(-Math.sqrt(0.5), 0, 0, Math.sqrt(0.5));
+// Yaw is meaningless looking straight up/down - hold it there
+const MAX_YAW_PITCH = 80;
+
+export function isOrientationLookSupported(): boolean {
+  return typeof window !== 'undefined'
+    && 'DeviceOrientationEvent' in window
+    && window.matchMedia('(pointer: coarse)').matches;
+}
+
+/**
+ * iOS only reports orientation after the user allows it, and only asks from a
+ * user gesture - call this from a click handler
+ */
+export async function requestOrientationPermission(): Promise<boolean> {
+  const event = DeviceOrientationEvent as PermissionedOrientationEvent;
+  if (typeof event.requestPermission !== 'function') return true;
+  try {
+    return (await event.requestPermission()) === 'granted';
+  } catch {
+    return false;
+  }
+}
+
+export class DeviceOrientationLook {
+  private reading: { alpha: number; beta: number; gamma: number } | null = null;
+  private last: { yaw: number; pitch: number } | null = null;
+  private listening = false;
+  private rebase = false;
+  private readonly euler = new THREE.Euler();
+  private readonly quaternion = new THREE.Quaternion();
+  private readonly direction = new THREE.Vector3();
+
+  private readonly handleOrientation = (event: DeviceOrientationEvent) => {
+    if (event.alpha === null || event.beta === null || event.gamma === null) return;
+    this.reading = { alpha: event.alpha, beta: event.beta, gamma: event.gamma };
+  };
+
+  private readonly handleScreenChange = () => {
+    this.rebase = true;
+  };
+
+  get active(): boolean {
+    return this.listening;
+  }
+
+  start() {
+    if (this.listening) return;
+    this.listening = true;
+    this.recalibrate();
+    window.addEventListener('deviceorientation', this.handleOrientation);
+    window.addEventListener('orientationchange', this.handleScreenChange);
+    screen.orientation?.addEventListener('change', this.handleScreenChange);
+  }
+
+  stop() {
+    this.listening = false;
+    this.reading = null;
+    window.removeEventListener('deviceorientation', this.handleOrientation);
+    window.removeEventListener('orientationchange', this.handleScreenChange);
+    screen.orientation?.removeEventListener('change', this.handleScreenChange);
+  }
+
+  /**
+   * Make the next poll() report recalibrated, so the view is re-placed
+   */
+  recalibrate() {
+    this.last = null;
+  }
+
+  /**
+   * Device rotation since the previous poll; null while there is no reading
+   */
+  poll(): OrientationMotion | null {
+    if (!this.listening || !this.reading) return null;
+
+    const degToRad = THREE.MathUtils.degToRad;
+    const { alpha, beta, gamma } = this.reading;
+    this.euler.set(degToRad(beta), degToRad(alpha), -degToRad(gamma), 'YXZ');
+    this.quaternion.setFromEuler(this.euler).multiply(DEVICE_TO_CAMERA);
+    this.direction.set(0, 0, -1).applyQuaternion(this.quaternion);
+
+    const pitch = THREE.MathUtils.radToDeg(Math.asin(THREE.MathUtils.clamp(this.direction.y, -1, 1)));
+    const yaw = Math.abs(pitch) > MAX_YAW_PITCH && this.last
+      ? this.last.yaw
+      : THREE.MathUtils.radToDeg(Math.atan2(this.direction.x, -this.direction.z));
+
+    const previous = this.last;
+    this.last = { yaw, pitch };
+    if (!previous || this.rebase) {
+      this.rebase = false;
+      return { deltaYaw: 0, deltaPitch: 0, pitch, recalibrated: !previous };
+    }
+    return {
+      deltaYaw: normalizeYaw(yaw - previous.yaw),
+      deltaPitch: pitch - previous.pitch,
+      pitch,
+      recalibrated: false,
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import type { FloorPlan, FloorPlanPin, Scene } from '@/types/tour';
+import { isFiniteNumber } from '@/lib/number-utils';
+import { hasNorthOffset, yawToHeading } from './compass';
+
+// Floor plans stored in tour.floor_plans_json: a pin per scene, and where on the
+// plan the view is pointing. Plan angles are degrees clockwise from the image's up
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+function parsePin(value: unknown): FloorPlanPin | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.sceneId !== 'string' || !isFiniteNumber(raw.x) || !isFiniteNumber(raw.y)) return null;
+  return {
+    sceneId: raw.sceneId,
+    x: clamp01(raw.x),
+    y: clamp01(raw.y),
+    rotation: isFiniteNumber(raw.rotation) ? raw.rotation : undefined,
+  };
+}
+
+/**
+ * Plans stored on the tour; malformed plans and pins are dropped
+ */
+export function parseFloorPlans(json?: string): FloorPlan[] {
+  if (!json) return [];
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((value): FloorPlan[] => {
+    if (!value || typeof value !== 'object') return [];
+    const plan = value as Record<string, unknown>;
+    if (typeof plan.id !== 'string' || typeof plan.imageUrl !== 'string' || !plan.imageUrl) return [];
+    const pins = Array.isArray(plan.pins)
+      ? plan.pins.map(parsePin).filter((pin): pin is FloorPlanPin => !!pin)
+      : [];
+    return [{
+      id: plan.id,
+      name: typeof plan.name === 'string' ? plan.name : '',
+      imageUrl: plan.imageUrl,
+      northAngle: isFiniteNumber(plan.northAngle) ? plan.northAngle : undefined,
+      pins,
+    }];
+  });
+}
+
+/**
+ * The plan a scene is pinned on (the first one, if several)
+ */
+export function findScenePin(plans: FloorPlan[], sceneId: string): { plan: FloorPlan; pin: FloorPlanPin } | null {
+  for (const plan of plans) {
+    const pin = plan.pins.find((candidate) => candidate.sceneId === sceneId);
+    if (pin) return { plan, pin };
+  }
+  return null;
+}
+
+/**
+ * Plan angle the scene's yaw 0 faces: the pin's own rotation, else worked out from
+ * the plan's north and the scene's north_offset. Null when neither is known
+ */
+export function pinYawOrigin(plan: FloorPlan, pin: FloorPlanPin, scene: Pick<Scene, 'north_offset'> | undefined): number | null {
+  if (isFiniteNumber(pin.rotation)) return pin.rotation;
+  if (isFiniteNumber(plan.northAngle) && hasNorthOffset(scene)) return plan.northAngle + yawToHeading(0, scene);
+  return null;
+}
+
+/**
+ * SVG path of a view cone in a (2 * radius) square, apex at the centre, pointing up
+ */
+export function viewConePath(spread: number, radius: number): string {
+  const half = (Math.max(1, Math.min(179, spread)) / 2) * (Math.PI / 180);
+  const left = { x: radius - Math.sin(half) * radius, y: radius - Math.cos(half) * radius };
+  const right = { x: radius + Math.sin(half) * radius, y: radius - Math.cos(half) * radius };
+  return `M ${radius} ${radius} L ${left.x.toFixed(2)} ${left.y.toFixed(2)} `
+    + `A ${radius} ${radius} 0 0 1 ${right.x.toFixed(2)} ${right.y.toFixed(2)} Z`;
+}
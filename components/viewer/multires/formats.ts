@@ -0,0 +1,49 @@
+import type { ExtendedManifest } from './types';
+
+// Best first; JPEG is always available
+const FORMAT_PREFERENCE = ['avif', 'webp', 'jpg'];
+
+// 1x1 probes - a browser that can't decode these can't decode the tiles either
+const FORMAT_PROBES: Record<string, string> = {
+  webp: 'data:image/webp;base64,UklGRiQAAABXRUJQVlA4IBgAAAAwAQCdASoBAAEAAsBMJaQAA3AA/veMAAA=',
+  avif:
+    'data:image/avif;base64,AAAAHGZ0eXBhdmlmAAAAAG1pZjFhdmlmbWlhZgAAANZtZXRhAAAAAAAAACFoZGxyAAAAAAAAAABwaWN0AAAAAAAAAAAAAAAAAAAAAA5waXRtAAAAAAABAAAAImlsb2MAAAAAREAAAQABAAAAAAD6AAEAAAAAAAAAFwAAACNpaW5mAAAAAAABAAAAFWluZmUCAAAAAAEAAGF2MDEAAAAAVmlwcnAAAAA4aXBjbwAAAAxhdjFDgSACAAAAABRpc3BlAAAAAAAAAAEAAAABAAAAEHBpeGkAAAAAAwgICAAAABZpcG1hAAAAAAAAAAEAAQOBAgMAAAAfbWRhdBIACgc4AAYQENBpMgoYAAAAQACwEpqY',
+};
+
+let decodableFormats: Promise<Set<string>> | null = null;
+
+function canDecode(src: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const image = new Image();
+    image.onload = () => resolve(image.width > 0 && image.height > 0);
+    image.onerror = () => resolve(false);
+    image.src = src;
+  });
+}
+
+/**
+ * Formats this browser can decode (probed once per page)
+ */
+export function detectDecodableFormats(): Promise<Set<string>> {
+  if (!decodableFormats) {
+    decodableFormats = Promise.all(
+      Object.entries(FORMAT_PROBES).map(async ([format, src]) => ((await canDecode(src)) ? format : null)),
+    ).then((formats) => new Set(['jpg', ...formats.filter((format): format is string => !!format)]));
+  }
+  return decodableFormats;
+}
+
+/**
+ * Point the manifest at the best tile format both it and the browser support
+ */
+export function negotiateTileFormat(
+  manifest: ExtendedManifest | null,
+  decodable: Set<string> | null,
+): ExtendedManifest | null {
+  if (!manifest?.formats?.length || !decodable) {
+    return manifest;
+  }
+
+  const format = FORMAT_PREFERENCE.find((candidate) => manifest.formats?.includes(candidate) && decodable.has(candidate));
+  return format && format !== manifest.format ? { ...manifest, format } : manifest;
+}
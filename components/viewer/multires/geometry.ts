@@ -34,11 +34,20 @@ export function createTileGeometry(
   const cols = levelInfo.cols || levelInfo.tilesX || 1;
   const rows = levelInfo.rows || levelInfo.tilesY || 1;
   
-  const tilePhi = (Math.PI * 2) / cols;
-  const tileTheta = Math.PI / rows;
-
   const tileSize = levelInfo.tileSize || levelInfo.width / cols;
-  const overlapRatio = overlapPx > 0 && tileSize > 0 ? overlapPx / tileSize : 0.002;
+
+  // Edge tiles are narrower when the level size isn't a multiple of the tile size,
+  // so span each tile by its pixel extent within the level
+  const width = levelInfo.width || cols * tileSize;
+  const height = levelInfo.height || rows * tileSize;
+  const tileWidth = Math.min(tileSize, width - col * tileSize);
+  const tileHeight = Math.min(tileSize, height - row * tileSize);
+  const tilePhi = (tileWidth / width) * Math.PI * 2;
+  const tileTheta = (tileHeight / height) * Math.PI;
+
+  // Tiles with a real gutter are cropped through their UVs below; older tile sets
+  // without one still get slightly enlarged geometry to hide the seams
+  const overlapRatio = overlapPx > 0 ? 0 : 0.002;
 
   const phiOverlap = tilePhi * overlapRatio;
   const thetaOverlap = tileTheta * overlapRatio;
@@ -46,7 +55,7 @@ export function createTileGeometry(
   // Correct phi calculation - tiles go from left to right in texture
   // But sphere phi goes counterclockwise from +X axis
   // We need to map texture columns correctly
-  let phiStart = col * tilePhi - phiOverlap;
+  let phiStart = ((col * tileSize) / width) * Math.PI * 2 - phiOverlap;
   let phiLength = tilePhi + phiOverlap * 2;
   const fullPhi = Math.PI * 2;
 
@@ -58,7 +67,7 @@ export function createTileGeometry(
     phiLength = fullPhi - phiStart;
   }
 
-  let thetaStart = row * tileTheta - thetaOverlap;
+  let thetaStart = ((row * tileSize) / height) * Math.PI - thetaOverlap;
   let thetaLength = tileTheta + thetaOverlap * 2;
   const maxTheta = Math.PI;
 
@@ -83,6 +92,21 @@ export function createTileGeometry(
     thetaLength,
   );
   geometry.scale(-1, 1, 1);
+
+  if (overlapPx > 0) {
+    // Texture is (tileWidth + 2 * overlap) px wide; sample only the core region
+    const uv = geometry.getAttribute('uv') as THREE.BufferAttribute;
+    const textureWidth = tileWidth + overlapPx * 2;
+    const textureHeight = tileHeight + overlapPx * 2;
+    for (let i = 0; i < uv.count; i++) {
+      uv.setXY(
+        i,
+        (overlapPx + uv.getX(i) * tileWidth) / textureWidth,
+        (overlapPx + uv.getY(i) * tileHeight) / textureHeight,
+      );
+    }
+    uv.needsUpdate = true;
+  }
   
   console.log('[createTileGeometry] Created tile geometry:', {
     col,
@@ -1,6 +1,12 @@
 import * as THREE from 'three';
-import type { Hotspot } from '@/types/tour';
-import { INFO_HOTSPOT_COLOR, NAV_HOTSPOT_COLOR, SPHERE_RADIUS } from './constants';
+import type { Hotspot, Scene } from '@/types/tour';
+import {
+  AUDIO_DEFAULT_HOTSPOT_VOLUME,
+  AUDIO_HOTSPOT_COLOR,
+  INFO_HOTSPOT_COLOR,
+  NAV_HOTSPOT_COLOR,
+  SPHERE_RADIUS,
+} from './constants';
 import { yawPitchToVector } from './geometry';
 
 const hotspotTextureCache: Record<string, THREE.Texture> = {};
@@ -39,7 +45,10 @@ function createHotspotTexture(color: string): THREE.Texture {
 }
 
 export function createHotspotSprite(hotspot: Hotspot): THREE.Sprite {
-  const texture = createHotspotTexture(hotspot.kind === 'navigation' ? NAV_HOTSPOT_COLOR : INFO_HOTSPOT_COLOR);
+  const color = hotspot.kind === 'navigation'
+    ? NAV_HOTSPOT_COLOR
+    : hotspot.kind === 'audio' ? AUDIO_HOTSPOT_COLOR : INFO_HOTSPOT_COLOR;
+  const texture = createHotspotTexture(color);
   const material = new THREE.SpriteMaterial({
     map: texture,
     transparent: true,
@@ -52,3 +61,81 @@ export function createHotspotSprite(hotspot: Hotspot): THREE.Sprite {
   sprite.userData.hotspot = hotspot;
   return sprite;
 }
+
+/**
+ * Ring drawn around the hotspot that has keyboard focus
+ */
+export function createFocusRing(): THREE.Sprite {
+  const size = 128;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d');
+  if (context) {
+    // Dark halo under a white ring so it reads on bright and dark imagery alike
+    context.lineWidth = 14;
+    context.strokeStyle = 'rgba(0,0,0,0.6)';
+    context.beginPath();
+    context.arc(size / 2, size / 2, size / 2 - 10, 0, Math.PI * 2);
+    context.stroke();
+    context.lineWidth = 7;
+    context.strokeStyle = '#ffffff';
+    context.stroke();
+  }
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  const sprite = new THREE.Sprite(new THREE.SpriteMaterial({
+    map: texture,
+    transparent: true,
+    depthWrite: false,
+    depthTest: false,
+  }));
+  sprite.renderOrder = 10;
+  sprite.visible = false;
+  return sprite;
+}
+
+function parsePayload(hotspot: Hotspot): Record<string, unknown> | null {
+  if (!hotspot.payload) return null;
+  try {
+    const parsed = typeof hotspot.payload === 'string' ? JSON.parse(hotspot.payload) : hotspot.payload;
+    return parsed && typeof parsed === 'object' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Scene a navigation hotspot leads to (target_scene_id, or targetSceneId in its payload)
+ */
+export function getHotspotTargetSceneId(hotspot: Hotspot): string | null {
+  if (hotspot.target_scene_id) return hotspot.target_scene_id;
+  const targetSceneId = parsePayload(hotspot)?.targetSceneId;
+  return typeof targetSceneId === 'string' && targetSceneId ? targetSceneId : null;
+}
+
+/**
+ * Name read out for a hotspot: its title, else where it leads, else its kind
+ */
+export function getHotspotLabel(hotspot: Hotspot, scenes: Scene[]): string {
+  const title = parsePayload(hotspot)?.title;
+  if (typeof title === 'string' && title.trim()) return title.trim();
+
+  const targetSceneId = getHotspotTargetSceneId(hotspot);
+  const target = targetSceneId ? scenes.find((scene) => scene.id === targetSceneId) : undefined;
+  if (target) return `Go to ${target.name}`;
+  return `${hotspot.kind.charAt(0).toUpperCase()}${hotspot.kind.slice(1)} hotspot`;
+}
+
+/**
+ * Sound an 'audio' hotspot plays from its direction; null for other hotspots
+ */
+export function getHotspotAudio(hotspot: Hotspot): { url: string; volume: number } | null {
+  if (hotspot.kind !== 'audio') return null;
+  const payload = parsePayload(hotspot);
+  const url = payload?.audioUrl;
+  if (typeof url !== 'string' || !url) return null;
+  const volume = typeof payload?.volume === 'number' ? Math.max(0, Math.min(1, payload.volume)) : AUDIO_DEFAULT_HOTSPOT_VOLUME;
+  return { url, volume };
+}
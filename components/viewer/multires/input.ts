@@ -0,0 +1,98 @@
+// Keyboard and gamepad look controls. Axes run -1..1: yaw right, pitch up and
+// fov wider are positive
+
+export interface InputAxes {
+  yaw: number;
+  pitch: number;
+  fov: number;
+}
+
+export type GamepadAction = 'activate' | 'next' | 'previous';
+
+const KEY_AXES: Record<string, Partial<InputAxes>> = {
+  ArrowLeft: { yaw: -1 },
+  a: { yaw: -1 },
+  ArrowRight: { yaw: 1 },
+  d: { yaw: 1 },
+  ArrowUp: { pitch: 1 },
+  w: { pitch: 1 },
+  ArrowDown: { pitch: -1 },
+  s: { pitch: -1 },
+  '=': { fov: -1 },
+  '-': { fov: 1 },
+};
+
+// Standard gamepad mapping: A activates, the bumpers cycle hotspots
+const BUTTON_ACTIONS: Array<[number, GamepadAction]> = [
+  [0, 'activate'],
+  [5, 'next'],
+  [4, 'previous'],
+];
+const LEFT_TRIGGER = 6;
+const RIGHT_TRIGGER = 7;
+const STICK_DEAD_ZONE = 0.15;
+
+const clampAxis = (value: number) => Math.max(-1, Math.min(1, value));
+
+/**
+ * Key as tracked while held: letters ignore Shift and +/_ share a key with =/-,
+ * so the key-up always matches its key-down
+ */
+export function normalizeKey(key: string): string {
+  if (key === '+') return '=';
+  if (key === '_') return '-';
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+export function isLookKey(key: string): boolean {
+  return key in KEY_AXES;
+}
+
+export function keyboardAxes(pressed: Set<string>): InputAxes {
+  const axes: InputAxes = { yaw: 0, pitch: 0, fov: 0 };
+  pressed.forEach((key) => {
+    const binding = KEY_AXES[key];
+    axes.yaw += binding?.yaw ?? 0;
+    axes.pitch += binding?.pitch ?? 0;
+    axes.fov += binding?.fov ?? 0;
+  });
+  return { yaw: clampAxis(axes.yaw), pitch: clampAxis(axes.pitch), fov: clampAxis(axes.fov) };
+}
+
+/**
+ * Polls the first connected gamepad: left stick looks around, right stick
+ * (or the triggers) zooms; button actions fire once per press
+ */
+export class GamepadInput {
+  private readonly held = new Set<number>();
+
+  poll(): { axes: InputAxes; actions: GamepadAction[] } | null {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return null;
+    const pad = Array.from(navigator.getGamepads()).find((candidate) => candidate?.connected);
+    if (!pad) {
+      this.held.clear();
+      return null;
+    }
+
+    const stick = (index: number) => {
+      const value = pad.axes[index] ?? 0;
+      return Math.abs(value) < STICK_DEAD_ZONE ? 0 : value;
+    };
+    const triggers = (pad.buttons[LEFT_TRIGGER]?.value ?? 0) - (pad.buttons[RIGHT_TRIGGER]?.value ?? 0);
+
+    const actions: GamepadAction[] = [];
+    BUTTON_ACTIONS.forEach(([index, action]) => {
+      if (!pad.buttons[index]?.pressed) {
+        this.held.delete(index);
+      } else if (!this.held.has(index)) {
+        this.held.add(index);
+        actions.push(action);
+      }
+    });
+
+    return {
+      axes: { yaw: stick(0), pitch: -stick(1), fov: clampAxis(stick(3) + triggers) },
+      actions,
+    };
+  }
+}
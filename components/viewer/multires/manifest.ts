@@ -1,7 +1,24 @@
 import type { Scene } from '@/types/tour';
-import type { MultiresManifest, TileLevel } from '@/lib/multires-utils';
+import type { TileLevel } from '@/lib/multires-utils';
+import type { TileCacheKey } from './tile-cache';
 import type { ExtendedManifest } from './types';
 
+// Level entry as written by the tiler (lib/tiling) - sizes are exact
+interface RecordedLevel {
+  level?: number;
+  width: number;
+  height: number;
+  cols?: number;
+  rows?: number;
+  tilesX?: number;
+  tilesY?: number;
+}
+
+function isRecordedLevel(level: unknown): level is RecordedLevel {
+  const candidate = level as RecordedLevel | null;
+  return typeof candidate?.width === 'number' && typeof candidate?.height === 'number';
+}
+
 function normalizeLevelsFromTiles(tiles: any[], tileSize: number): TileLevel[] {
   const levelsMap = new Map<number, TileLevel>();
 
@@ -60,12 +77,29 @@ export function parseSceneManifest(scene: Scene): ExtendedManifest | null {
   const tileSize = manifestLike.tileSize ?? manifestLike.tile_size ?? 512;
   const tilesArray = Array.isArray(manifestLike.tiles) ? manifestLike.tiles : [];
 
-  let levels = normalizeLevelsFromTiles(tilesArray, tileSize);
+  // Levels recorded by the tiler carry their real pixel sizes; only fall back to
+  // reconstructing them from the tile grid for manifests that predate that
+  const recordedLevels: RecordedLevel[] = Array.isArray(manifestLike.levels)
+    ? manifestLike.levels.filter(isRecordedLevel)
+    : [];
+
+  let levels: TileLevel[] = recordedLevels.length
+    ? recordedLevels.map((level, index) => ({
+        level: typeof level.level === 'number' ? level.level : index,
+        width: level.width,
+        height: level.height,
+        tileSize,
+        cols: level.cols ?? level.tilesX ?? Math.ceil(level.width / tileSize),
+        rows: level.rows ?? level.tilesY ?? Math.ceil(level.height / tileSize),
+        tilesX: level.tilesX ?? level.cols ?? Math.ceil(level.width / tileSize),
+        tilesY: level.tilesY ?? level.rows ?? Math.ceil(level.height / tileSize),
+      }))
+    : normalizeLevelsFromTiles(tilesArray, tileSize);
   if (!levels.length && Array.isArray(manifestLike.levels)) {
     levels = manifestLike.levels.map((level: any, index: number) => ({
       level: typeof level.level === 'number' ? level.level : index,
-      width: level.width ?? (level.cols ?? level.tilesX ?? 1) * tileSize,
-      height: level.height ?? (level.rows ?? level.tilesY ?? 1) * tileSize,
+      width: (level.cols ?? level.tilesX ?? 1) * tileSize,
+      height: (level.rows ?? level.tilesY ?? 1) * tileSize,
       tileSize,
       cols: level.cols ?? level.tilesX ?? 1,
       rows: level.rows ?? level.tilesY ?? 1,
@@ -98,12 +132,53 @@ export function parseSceneManifest(scene: Scene): ExtendedManifest | null {
       : undefined,
     overlap: manifestLike.overlap,
     format: manifestLike.format ?? manifestLike.extension ?? (manifestLike.tiles_format ?? 'jpg'),
+    formats: Array.isArray(manifestLike.formats) ? manifestLike.formats : undefined,
     basePath: manifestLike.basePath ?? manifestLike.base_path ?? manifestLike.baseURL ?? manifestLike.base_url,
+    version: typeof manifestLike.version === 'string' ? manifestLike.version : undefined,
   };
 
   return manifest;
 }
 
+// Identifies a tile set and its contents for the persistent tile cache
+export interface TileCacheStamp {
+  scope: string;
+  version: string;
+}
+
+// FNV-1a - only needs to change when the manifest does
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Cache scope (where the tiles live) and version (what they contain) of a manifest;
+ * manifests written before versions were recorded are versioned by their content
+ */
+export function getTileCacheStamp(manifest: ExtendedManifest, sceneId: string): TileCacheStamp {
+  const scope = manifest.basePath
+    ?? manifest.preview?.replace(/\?.*$/, '').replace(/\/[^/]+$/, '')
+    ?? `scene:${sceneId}`;
+  const version = manifest.version
+    ?? hashString(JSON.stringify([manifest.levels, manifest.tiles?.map((tile) => tile.url), manifest.preview]));
+  return { scope, version };
+}
+
+export function getTileCacheKey(
+  manifest: ExtendedManifest,
+  stamp: TileCacheStamp,
+  level: number,
+  col: number,
+  row: number,
+): TileCacheKey {
+  return { ...stamp, key: `l${level}_${row}_${col}.${manifest.format ?? 'jpg'}` };
+}
+
 export function buildTileUrl(
   manifest: ExtendedManifest,
   sceneId: string,
@@ -116,11 +191,15 @@ export function buildTileUrl(
   );
 
   if (tileEntry?.url) {
-    if (/^https?:\/\//i.test(tileEntry.url)) {
-      console.log('[buildTileUrl] Using absolute URL from tile entry:', tileEntry.url);
-      return tileEntry.url;
+    // Tile entries point at the JPEG (possibly with a ?v= revision); other negotiated formats sit next to it
+    const entryUrl = manifest.format && manifest.formats?.includes(manifest.format)
+      ? tileEntry.url.replace(/\.[a-z]+(\?|$)/i, `.${manifest.format}$1`)
+      : tileEntry.url;
+    if (/^https?:\/\//i.test(entryUrl)) {
+      console.log('[buildTileUrl] Using absolute URL from tile entry:', entryUrl);
+      return entryUrl;
     }
-    const url = new URL(tileEntry.url, window.location.origin).toString();
+    const url = new URL(entryUrl, window.location.origin).toString();
     console.log('[buildTileUrl] Using relative URL from tile entry:', url);
     return url;
   }
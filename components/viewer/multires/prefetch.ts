@@ -0,0 +1,137 @@
+import * as THREE from 'three';
+import { SCENE_PREFETCH_BUDGET_BYTES, SCENE_PREFETCH_WINDOW_MS } from './constants';
+import { buildTileUrl, getTileCacheKey, getTileCacheStamp } from './manifest';
+import { fetchTile } from './tile-cache';
+import type { ExtendedManifest } from './types';
+
+// Warms the preview and level-0 tiles of scenes the user is likely to jump to,
+// one scene at a time and within a rolling byte budget. Previews land in
+// THREE.Cache (decoded), tiles in the persistent tile cache
+
+interface PrefetchTarget {
+  sceneId: string;
+  manifest: ExtendedManifest;
+  // Lower goes first (angular distance of the hotspot from the view centre)
+  priority: number;
+}
+
+type NetworkInformation = { saveData?: boolean; effectiveType?: string };
+
+/**
+ * False when the user asked to save data (Save-Data) or the connection is 2G
+ */
+export function isPrefetchAllowed(): boolean {
+  if (typeof navigator === 'undefined') return false;
+  const connection = (navigator as Navigator & { connection?: NetworkInformation }).connection;
+  return !connection?.saveData && !/2g$/.test(connection?.effectiveType ?? '');
+}
+
+function absoluteUrl(url: string): string {
+  return /^https?:\/\//i.test(url) ? url : new URL(url, window.location.origin).toString();
+}
+
+export class ScenePrefetcher {
+  private queue: PrefetchTarget[] = [];
+  private readonly warmed = new Set<string>();
+  private readonly spent: Array<{ at: number; bytes: number }> = [];
+  private readonly controller = new AbortController();
+  private active = false;
+
+  /**
+   * Queue a scene (or update its priority); scenes already warmed are ignored
+   */
+  request(sceneId: string, manifest: ExtendedManifest, priority: number) {
+    if (this.warmed.has(sceneId) || this.controller.signal.aborted || !isPrefetchAllowed()) return;
+
+    const queued = this.queue.find((target) => target.sceneId === sceneId);
+    if (queued) {
+      queued.priority = priority;
+    } else {
+      this.queue.push({ sceneId, manifest, priority });
+    }
+    this.queue.sort((a, b) => a.priority - b.priority);
+    void this.pump();
+  }
+
+  /**
+   * Forget queued scenes that are no longer near the view centre
+   */
+  retain(sceneIds: Set<string>) {
+    this.queue = this.queue.filter((target) => sceneIds.has(target.sceneId));
+  }
+
+  dispose() {
+    this.controller.abort();
+    this.queue = [];
+  }
+
+  private budgetLeft(now: number): number {
+    while (this.spent.length && now - this.spent[0].at > SCENE_PREFETCH_WINDOW_MS) {
+      this.spent.shift();
+    }
+    return SCENE_PREFETCH_BUDGET_BYTES - this.spent.reduce((total, entry) => total + entry.bytes, 0);
+  }
+
+  private async pump() {
+    if (this.active) return;
+    this.active = true;
+    try {
+      // Out of budget: leave the queue alone - the next request() retries once bytes age out
+      while (this.queue.length && this.budgetLeft(performance.now()) > 0 && !this.controller.signal.aborted) {
+        const target = this.queue.shift()!;
+        this.warmed.add(target.sceneId);
+        try {
+          await this.warm(target);
+        } catch (error) {
+          if (this.controller.signal.aborted) return;
+          console.warn('[ScenePrefetcher] Failed to prefetch scene:', target.sceneId, error);
+        }
+      }
+    } finally {
+      this.active = false;
+    }
+  }
+
+  private async warm({ sceneId, manifest }: PrefetchTarget) {
+    const signal = this.controller.signal;
+
+    if (manifest.preview) {
+      const url = absoluteUrl(manifest.preview);
+      // Same key THREE.ImageLoader looks up, so the scene's preview load resolves from memory
+      const imageKey = `image:${url}`;
+      if (!THREE.Cache.get(imageKey)) {
+        const response = await fetch(url, { signal, mode: 'cors', credentials: 'omit' });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const blob = await response.blob();
+        this.spent.push({ at: performance.now(), bytes: blob.size });
+
+        // Decode now so the scene switch only has to upload the texture
+        const objectUrl = URL.createObjectURL(blob);
+        try {
+          const image = new Image();
+          image.src = objectUrl;
+          await image.decode();
+          THREE.Cache.add(imageKey, image);
+        } finally {
+          URL.revokeObjectURL(objectUrl);
+        }
+      }
+    }
+
+    const level = manifest.levels[0];
+    if (!level) return;
+
+    const stamp = getTileCacheStamp(manifest, sceneId);
+    for (let row = 0; row < level.rows; row++) {
+      for (let col = 0; col < level.cols; col++) {
+        if (this.budgetLeft(performance.now()) <= 0) return;
+        const blob = await fetchTile(
+          buildTileUrl(manifest, sceneId, 0, col, row),
+          getTileCacheKey(manifest, stamp, 0, col, row),
+          signal,
+        );
+        this.spent.push({ at: performance.now(), bytes: blob.size });
+      }
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import * as THREE from 'three';
+import type { TileLevel } from '@/lib/multires-utils';
+import { TILE_FADE_MS } from './constants';
+import { getTileKey } from './geometry';
+import type { TileEntry } from './types';
+
+// Levels double in width, so each tile has one parent and up to four children;
+// the helpers below work from pixel extents, so uneven pyramids are handled too
+
+interface TileCoord {
+  col: number;
+  row: number;
+}
+
+// Sharper levels kept on screen while zooming out (2 = up to 16 tiles per missing tile)
+const MAX_DESCENDANT_DEPTH = 2;
+
+function levelGrid(level: TileLevel) {
+  const cols = level.cols || level.tilesX || 1;
+  const rows = level.rows || level.tilesY || 1;
+  const tileSize = level.tileSize || level.width / cols;
+  return {
+    cols,
+    rows,
+    tileSize,
+    width: level.width || cols * tileSize,
+    height: level.height || rows * tileSize,
+  };
+}
+
+/**
+ * Tiles of `toLevel` overlapping tile (col, row) of `fromLevel`
+ */
+export function coveringTiles(levels: TileLevel[], fromLevel: number, col: number, row: number, toLevel: number): TileCoord[] {
+  const from = levels[fromLevel];
+  const to = levels[toLevel];
+  if (!from || !to) return [];
+
+  const source = levelGrid(from);
+  const target = levelGrid(to);
+  const u0 = (col * source.tileSize) / source.width;
+  const u1 = Math.min(source.width, (col + 1) * source.tileSize) / source.width;
+  const v0 = (row * source.tileSize) / source.height;
+  const v1 = Math.min(source.height, (row + 1) * source.tileSize) / source.height;
+
+  // Shrink by a hair so tiles that only share an edge don't count
+  const epsilon = 1e-6;
+  const colStart = Math.max(0, Math.floor((u0 * target.width) / target.tileSize + epsilon));
+  const colEnd = Math.min(target.cols - 1, Math.ceil((u1 * target.width) / target.tileSize - epsilon) - 1);
+  const rowStart = Math.max(0, Math.floor((v0 * target.height) / target.tileSize + epsilon));
+  const rowEnd = Math.min(target.rows - 1, Math.ceil((v1 * target.height) / target.tileSize - epsilon) - 1);
+
+  const tiles: TileCoord[] = [];
+  for (let r = rowStart; r <= rowEnd; r++) {
+    for (let c = colStart; c <= colEnd; c++) {
+      tiles.push({ col: c, row: r });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Loaded and fully faded in - safe to draw on its own
+ */
+export function isTileOpaque(entry: TileEntry | undefined): entry is TileEntry {
+  return !!entry && entry.fadeStartedAt === undefined;
+}
+
+/**
+ * Decide which loaded tiles to draw for the wanted tiles of `level`:
+ * each wanted tile once loaded, plus - until it has faded in - the best loaded
+ * ancestors under it and any sharper descendants already on screen
+ */
+export function selectRenderedTiles(
+  entries: Map<string, TileEntry>,
+  sceneId: string,
+  levels: TileLevel[],
+  level: number,
+  wanted: TileCoord[],
+): Set<string> {
+  const rendered = new Set<string>();
+  const lookup = (lvl: number, col: number, row: number) => {
+    const key = getTileKey(sceneId, lvl, col, row);
+    const entry = entries.get(key);
+    return entry?.sceneId === sceneId ? entry : undefined;
+  };
+
+  wanted.forEach(({ col, row }) => {
+    const entry = lookup(level, col, row);
+    if (entry) rendered.add(entry.key);
+    if (isTileOpaque(entry)) return;
+
+    // Walk down the pyramid until the tile's area is fully covered
+    for (let ancestor = level - 1; ancestor >= 0; ancestor--) {
+      const parents = coveringTiles(levels, level, col, row, ancestor);
+      let covered = true;
+      parents.forEach((parent) => {
+        const parentEntry = lookup(ancestor, parent.col, parent.row);
+        if (isTileOpaque(parentEntry)) {
+          rendered.add(parentEntry.key);
+        } else {
+          covered = false;
+        }
+      });
+      if (covered) break;
+    }
+
+    // Zooming out: keep the sharper tiles that are already there
+    const deepest = Math.min(levels.length - 1, level + MAX_DESCENDANT_DEPTH);
+    for (let descendant = level + 1; descendant <= deepest; descendant++) {
+      coveringTiles(levels, level, col, row, descendant).forEach((child) => {
+        const childEntry = lookup(descendant, child.col, child.row);
+        if (isTileOpaque(childEntry)) rendered.add(childEntry.key);
+      });
+    }
+  });
+
+  return rendered;
+}
+
+/**
+ * Advance tile fade-ins; returns true while any tile is still fading
+ */
+export function advanceTileFades(entries: Map<string, TileEntry>, now: number): boolean {
+  let fading = false;
+  entries.forEach((entry) => {
+    if (entry.fadeStartedAt === undefined) return;
+
+    const progress = Math.min(1, (now - entry.fadeStartedAt) / TILE_FADE_MS);
+    const material = entry.mesh.material as THREE.MeshBasicMaterial;
+    material.opacity = progress;
+    if (progress >= 1) {
+      entry.fadeStartedAt = undefined;
+    } else {
+      fading = true;
+    }
+  });
+  return fading;
+}
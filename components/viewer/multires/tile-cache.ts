@@ -0,0 +1,168 @@
+import { PERSISTENT_TILE_CACHE_BYTES } from './constants';
+
+// Second-tier tile cache in Cache Storage, so repeat visits skip the network.
+// Used from every decode worker, the main thread and other tabs at once: each
+// keeps its own view of the size index and merges it into the shared index.json.
+// Entries are keyed by manifest scope + tile key and stamped with the manifest version
+
+export interface TileCacheKey {
+  // Identifies the tile set (its base URL, or the scene id)
+  scope: string;
+  // Manifest version - a cached tile from any other version is refetched
+  version: string;
+  // Tile file name within the set, e.g. l2_0_3.webp
+  key: string;
+}
+
+interface IndexEntry {
+  size: number;
+  lastUsed: number;
+}
+
+const CACHE_NAME = 'multires-tiles-v1';
+const CACHE_PREFIX = '/__tile-cache';
+const INDEX_URL = `${CACHE_PREFIX}/index.json`;
+const VERSION_HEADER = 'x-tile-version';
+const INDEX_WRITE_DELAY_MS = 2000;
+// Evict down to this share of the budget so every put doesn't evict again
+const EVICT_TARGET = 0.9;
+
+let cachePromise: Promise<Cache | null> | null = null;
+// Sizes and last use of every entry (Cache Storage tracks neither), as of the last sync
+const index = new Map<string, IndexEntry>();
+let totalBytes = 0;
+// Entries written or used here since the last sync
+const pending = new Map<string, IndexEntry>();
+let indexWriteTimer: ReturnType<typeof setTimeout> | null = null;
+let indexWrite: Promise<void> = Promise.resolve();
+
+async function readIndex(cache: Cache): Promise<Record<string, IndexEntry> | null> {
+  const response = await cache.match(INDEX_URL);
+  const stored: { entries?: Record<string, IndexEntry> } | null = response
+    ? await response.json().catch(() => null)
+    : null;
+  return stored?.entries ?? null;
+}
+
+function replaceIndex(entries: Record<string, IndexEntry>) {
+  index.clear();
+  totalBytes = 0;
+  Object.entries(entries).forEach(([id, entry]) => {
+    index.set(id, entry);
+    totalBytes += entry.size;
+  });
+}
+
+async function loadIndex(cache: Cache) {
+  const entries = (await readIndex(cache)) ?? {};
+
+  // Entries nobody accounted for would never be evicted - drop them
+  const keys = await cache.keys();
+  await Promise.all(keys
+    .filter((request) => {
+      const id = new URL(request.url).pathname;
+      return id !== INDEX_URL && !entries[id];
+    })
+    .map((request) => cache.delete(request)));
+
+  replaceIndex(entries);
+}
+
+function openCache(): Promise<Cache | null> {
+  if (!cachePromise) {
+    cachePromise = typeof caches === 'undefined'
+      ? Promise.resolve(null)
+      : caches.open(CACHE_NAME)
+        .then(async (cache) => {
+          await loadIndex(cache);
+          return cache;
+        })
+        // Private browsing / storage disabled - run without the persistent tier
+        .catch(() => null);
+  }
+  return cachePromise;
+}
+
+async function evict(cache: Cache) {
+  if (totalBytes <= PERSISTENT_TILE_CACHE_BYTES) return;
+
+  const oldestFirst = Array.from(index.entries()).sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+  for (const [id, entry] of oldestFirst) {
+    if (totalBytes <= PERSISTENT_TILE_CACHE_BYTES * EVICT_TARGET) break;
+    index.delete(id);
+    totalBytes -= entry.size;
+    await cache.delete(id);
+  }
+}
+
+/**
+ * Re-read the shared index, apply this context's changes on top, evict from the
+ * merged view and write it back - so entries from other contexts are neither
+ * dropped nor left out of the budget
+ */
+async function syncIndex(cache: Cache) {
+  const entries = { ...(await readIndex(cache)), ...Object.fromEntries(pending) };
+  pending.clear();
+  replaceIndex(entries);
+
+  await evict(cache);
+  const body = JSON.stringify({ entries: Object.fromEntries(index) });
+  await cache.put(INDEX_URL, new Response(body, { headers: { 'content-type': 'application/json' } }));
+}
+
+function scheduleIndexWrite(cache: Cache) {
+  if (indexWriteTimer) return;
+  indexWriteTimer = setTimeout(() => {
+    indexWriteTimer = null;
+    indexWrite = indexWrite.then(() => syncIndex(cache)).catch(() => {
+      /* best effort - entries missing from the index are swept on the next load */
+    });
+  }, INDEX_WRITE_DELAY_MS);
+}
+
+function touch(cache: Cache, id: string, size: number) {
+  const entry = { size, lastUsed: Date.now() };
+  totalBytes += size - (index.get(id)?.size ?? 0);
+  index.set(id, entry);
+  pending.set(id, entry);
+  scheduleIndexWrite(cache);
+}
+
+async function store(cache: Cache, id: string, version: string, blob: Blob) {
+  await cache.put(id, new Response(blob, {
+    headers: { 'content-type': blob.type || 'image/jpeg', [VERSION_HEADER]: version },
+  }));
+  // Eviction happens when the index is next synced
+  touch(cache, id, blob.size);
+}
+
+/**
+ * Tile bytes from the persistent cache when the version matches, otherwise from
+ * the network (and stored for next time)
+ */
+export async function fetchTile(url: string, cacheKey: TileCacheKey | undefined, signal?: AbortSignal): Promise<Blob> {
+  const cache = cacheKey ? await openCache() : null;
+  const id = cacheKey && `${CACHE_PREFIX}/${encodeURIComponent(cacheKey.scope)}/${encodeURIComponent(cacheKey.key)}`;
+
+  if (cache && cacheKey && id) {
+    const hit = await cache.match(id);
+    if (hit?.headers.get(VERSION_HEADER) === cacheKey.version) {
+      const blob = await hit.blob();
+      touch(cache, id, blob.size);
+      return blob;
+    }
+  }
+
+  const response = await fetch(url, { signal, mode: 'cors', credentials: 'omit' });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  const blob = await response.blob();
+
+  if (cache && cacheKey && id && !signal?.aborted) {
+    store(cache, id, cacheKey.version, blob).catch(() => {
+      /* quota exceeded - the persistent tier is best effort */
+    });
+  }
+  return blob;
+}
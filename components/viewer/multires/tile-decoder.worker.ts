@@ -0,0 +1,42 @@
+import { fetchTile } from './tile-cache';
+import type { TileCacheKey } from './tile-cache';
+
+// Fetches and decodes tiles off the main thread; bitmaps are transferred back
+
+type DecoderRequest =
+  | { type: 'load'; id: string; url: string; cacheKey?: TileCacheKey }
+  | { type: 'cancel'; id: string };
+
+const controllers = new Map<string, AbortController>();
+
+async function load(id: string, url: string, cacheKey?: TileCacheKey) {
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  try {
+    const bitmap = await createImageBitmap(await fetchTile(url, cacheKey, controller.signal));
+    if (controller.signal.aborted) {
+      bitmap.close();
+      return;
+    }
+    self.postMessage({ type: 'loaded', id, bitmap }, { transfer: [bitmap] });
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      self.postMessage({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+    }
+  } finally {
+    // A newer load for the same tile may have registered since - leave it cancellable
+    if (controllers.get(id) === controller) {
+      controllers.delete(id);
+    }
+  }
+}
+
+self.onmessage = (event: MessageEvent<DecoderRequest>) => {
+  const request = event.data;
+  if (request.type === 'load') {
+    load(request.id, request.url, request.cacheKey);
+  } else {
+    controllers.get(request.id)?.abort();
+  }
+};
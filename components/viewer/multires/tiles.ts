@@ -9,4 +9,8 @@ export function disposeTileEntry(entry: TileEntry) {
     entry.mesh.material.dispose();
   }
   entry.texture.dispose();
+  const image = entry.texture.image;
+  if (typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap) {
+    image.close();
+  }
 }
@@ -0,0 +1,103 @@
+import * as THREE from 'three';
+import type { Hotspot, SceneTransitionStyle } from '@/types/tour';
+
+// Scene change styles:
+// - fade: the last frame of the old scene dissolves into the new one
+// - zoom: walk towards the hotspot (turn + narrow the fov), then dissolve
+// - cut: switch straight to the new scene's starting view
+
+interface TransitionTiming {
+  // Turning/zooming towards the hotspot, still in the old scene
+  approachMs: number;
+  // Dissolve + easing the camera into the new scene's view
+  revealMs: number;
+}
+
+export const TRANSITION_TIMINGS: Record<SceneTransitionStyle, TransitionTiming> = {
+  fade: { approachMs: 0, revealMs: 700 },
+  zoom: { approachMs: 650, revealMs: 550 },
+  cut: { approachMs: 0, revealMs: 0 },
+};
+
+// How far the walk-through narrows the fov before the switch
+export const ZOOM_APPROACH_FOV_SCALE = 0.45;
+export const ZOOM_APPROACH_MIN_FOV = 20;
+// Longest the dissolve waits for the new scene's preview before revealing anyway
+export const TRANSITION_MAX_WAIT_MS = 1500;
+
+/**
+ * Transition style of a navigation hotspot (payload.transition); values written by
+ * older editors ('none', 'slide') map onto the closest style
+ */
+export function getHotspotTransition(hotspot: Hotspot): SceneTransitionStyle {
+  let transition: unknown;
+  try {
+    const parsed = typeof hotspot.payload === 'string' ? JSON.parse(hotspot.payload) : hotspot.payload;
+    transition = parsed && typeof parsed === 'object' ? parsed.transition : undefined;
+  } catch {
+    transition = undefined;
+  }
+
+  if (transition === 'zoom') return 'zoom';
+  if (transition === 'cut' || transition === 'none') return 'cut';
+  return 'fade';
+}
+
+/**
+ * Frozen copy of the last frame before a scene change, drawn over the new
+ * scene with decreasing opacity
+ */
+export class TransitionSnapshot {
+  private readonly target = new THREE.WebGLRenderTarget(1, 1, { type: THREE.HalfFloatType });
+  private readonly overlay = new THREE.Scene();
+  private readonly camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+  private readonly material: THREE.MeshBasicMaterial;
+  private captured = false;
+
+  constructor() {
+    this.material = new THREE.MeshBasicMaterial({
+      map: this.target.texture,
+      transparent: true,
+      depthTest: false,
+      depthWrite: false,
+    });
+    this.overlay.add(new THREE.Mesh(new THREE.PlaneGeometry(2, 2), this.material));
+  }
+
+  get active(): boolean {
+    return this.captured;
+  }
+
+  capture(renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.Camera) {
+    const size = renderer.getDrawingBufferSize(new THREE.Vector2());
+    this.target.setSize(size.x, size.y);
+    renderer.setRenderTarget(this.target);
+    renderer.render(scene, camera);
+    renderer.setRenderTarget(null);
+    this.captured = true;
+  }
+
+  /**
+   * Draw the snapshot over whatever was rendered this frame
+   */
+  render(renderer: THREE.WebGLRenderer, opacity: number) {
+    if (!this.captured || opacity <= 0) return;
+    this.material.opacity = opacity;
+    const autoClear = renderer.autoClear;
+    renderer.autoClear = false;
+    renderer.render(this.overlay, this.camera);
+    renderer.autoClear = autoClear;
+  }
+
+  clear() {
+    this.captured = false;
+  }
+
+  dispose() {
+    this.target.dispose();
+    this.material.dispose();
+    this.overlay.traverse((node) => {
+      if (node instanceof THREE.Mesh) node.geometry.dispose();
+    });
+  }
+}
@@ -10,6 +10,11 @@ export interface TileRequest {
   priority: number;
 }
 
+export interface DecodedTile {
+  request: TileRequest;
+  bitmap: ImageBitmap;
+}
+
 export interface TileEntry {
   key: string;
   sceneId: string;
@@ -20,6 +25,15 @@ export interface TileEntry {
   texture: THREE.Texture;
   lastUsed: number;
   pendingRemovalAt?: number;
+  // Set while the tile fades in over its fallback ancestors
+  fadeStartedAt?: number;
 }
 
-export type ExtendedManifest = MultiresManifest & { basePath?: string };
+// formats: every encoding the tile set was published in (format is the one in use)
+export type ExtendedManifest = MultiresManifest & { basePath?: string; formats?: string[] };
+
+export interface ViewerPose {
+  yaw: number;
+  pitch: number;
+  fov: number;
+}
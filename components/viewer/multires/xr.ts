@@ -0,0 +1,127 @@
+import * as THREE from 'three';
+import type { Hotspot } from '@/types/tour';
+import { SPHERE_RADIUS } from './constants';
+
+// Hotspot picking inside an immersive-vr session: controller rays fire on
+// select (trigger), and without a tracked controller the head gaze activates
+// whatever it rests on for GAZE_DWELL_MS
+
+export const GAZE_DWELL_MS = 1500;
+
+export interface XrPick {
+  // Hotspot under the active ray (controller, else gaze)
+  hovered: Hotspot | null;
+  // Gaze dwell progress on the hovered hotspot, 0..1
+  dwell: number;
+  activated: Hotspot | null;
+}
+
+export async function isImmersiveVrSupported(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.xr) return false;
+  try {
+    return await navigator.xr.isSessionSupported('immersive-vr');
+  } catch {
+    return false;
+  }
+}
+
+function createRayLine(): THREE.Line {
+  const geometry = new THREE.BufferGeometry().setFromPoints([
+    new THREE.Vector3(0, 0, 0),
+    new THREE.Vector3(0, 0, -SPHERE_RADIUS * 0.9),
+  ]);
+  return new THREE.Line(geometry, new THREE.LineBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.6 }));
+}
+
+function hotspotOf(object: THREE.Object3D | null): Hotspot | null {
+  let node = object;
+  while (node && !node.userData?.hotspot) {
+    node = node.parent;
+  }
+  return node?.userData?.hotspot ?? null;
+}
+
+export class XrHotspotPicker {
+  private readonly raycaster = new THREE.Raycaster();
+  private readonly controllers: THREE.XRTargetRaySpace[] = [];
+  private readonly origin = new THREE.Vector3();
+  private readonly direction = new THREE.Vector3();
+  private pendingSelect: THREE.XRTargetRaySpace | null = null;
+  private gazeHotspot: Hotspot | null = null;
+  private gazeStartedAt = 0;
+
+  // Controllers are added to `rig`, the camera's parent, so they turn with the view
+  constructor(renderer: THREE.WebGLRenderer, private readonly rig: THREE.Object3D) {
+    for (let index = 0; index < 2; index++) {
+      const controller = renderer.xr.getController(index);
+      controller.add(createRayLine());
+      controller.visible = false;
+      controller.addEventListener('connected', (event) => {
+        // Gaze "controllers" (screen taps on phone viewers) have no ray worth drawing
+        controller.visible = event.data?.targetRayMode === 'tracked-pointer';
+      });
+      controller.addEventListener('disconnected', () => {
+        controller.visible = false;
+      });
+      controller.addEventListener('select', () => {
+        this.pendingSelect = controller;
+      });
+      rig.add(controller);
+      this.controllers.push(controller);
+    }
+  }
+
+  update(now: number, targets: THREE.Object3D[], camera: THREE.Camera): XrPick {
+    this.raycaster.camera = camera;
+    let activated: Hotspot | null = null;
+
+    if (this.pendingSelect) {
+      this.raycaster.setFromXRController(this.pendingSelect);
+      activated = this.pick(targets);
+      this.pendingSelect = null;
+    }
+
+    const pointer = this.controllers.find((controller) => controller.visible);
+    if (pointer) {
+      this.raycaster.setFromXRController(pointer);
+      this.gazeHotspot = null;
+      return { hovered: this.pick(targets), dwell: 0, activated };
+    }
+
+    camera.getWorldPosition(this.origin);
+    camera.getWorldDirection(this.direction);
+    this.raycaster.set(this.origin, this.direction);
+    const hovered = this.pick(targets);
+    if (hovered !== this.gazeHotspot) {
+      this.gazeHotspot = hovered;
+      this.gazeStartedAt = now;
+    }
+
+    const dwell = hovered ? Math.max(0, Math.min(1, (now - this.gazeStartedAt) / GAZE_DWELL_MS)) : 0;
+    if (hovered && dwell >= 1 && !activated) {
+      activated = hovered;
+      // Look away and back to trigger it again
+      this.gazeStartedAt = Infinity;
+    }
+    return { hovered, dwell, activated };
+  }
+
+  dispose() {
+    this.controllers.forEach((controller) => {
+      this.rig.remove(controller);
+      controller.children.slice().forEach((child) => {
+        controller.remove(child);
+        if (child instanceof THREE.Line) {
+          child.geometry.dispose();
+          (child.material as THREE.Material).dispose();
+        }
+      });
+    });
+    this.controllers.length = 0;
+  }
+
+  private pick(targets: THREE.Object3D[]): Hotspot | null {
+    const hit = this.raycaster.intersectObjects(targets, true)[0];
+    return hotspotOf(hit?.object ?? null);
+  }
+}
@@ -0,0 +1,92 @@
+import { Tour } from '@/types/tour';
+import { isFiniteNumber } from '@/lib/number-utils';
+import {
+  EMBED_MESSAGE_SOURCE,
+  EMBED_PROTOCOL_VERSION,
+  EmbedCommand,
+  EmbedEvent,
+  EmbedMessage,
+  EmbedView,
+} from '@/types/embed';
+
+/**
+ * Origin (scheme://host[:port]) of a URL or origin string; null when it isn't one
+ */
+export function normalizeOrigin(value: string): string | null {
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    return url.origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parent origins a tour may be embedded and controlled from (tour.embed_origins_json).
+ * Entries are origins, or `https://*.example.com` for any subdomain
+ */
+export function parseEmbedOrigins(tour: Tour): string[] {
+  if (!tour.embed_origins_json) return [];
+  try {
+    const parsed = JSON.parse(tour.embed_origins_json);
+    return Array.isArray(parsed) ? parsed.filter((entry): entry is string => typeof entry === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function isOriginAllowed(origin: string, allowlist: string[]): boolean {
+  const normalized = normalizeOrigin(origin);
+  if (!normalized) return false;
+  const { protocol, host } = new URL(normalized);
+
+  return allowlist.some((entry) => {
+    const wildcard = entry.match(/^(https?:)\/\/\*\.(.+)$/);
+    if (wildcard) {
+      return protocol === wildcard[1] && host.endsWith(`.${wildcard[2].toLowerCase()}`);
+    }
+    return normalizeOrigin(entry) === normalized;
+  });
+}
+
+function parseView(value: unknown): Partial<EmbedView> | null {
+  if (!value || typeof value !== 'object') return null;
+  const view: Partial<EmbedView> = {};
+  for (const key of ['yaw', 'pitch', 'fov'] as const) {
+    const field = (value as Record<string, unknown>)[key];
+    if (field === undefined) continue;
+    if (!isFiniteNumber(field)) return null;
+    view[key] = field;
+  }
+  return view;
+}
+
+/**
+ * Command carried by a postMessage payload, or null for anything else
+ * (other scripts' messages, other protocol versions, malformed fields)
+ */
+export function parseEmbedCommand(data: unknown): EmbedCommand | null {
+  if (!data || typeof data !== 'object') return null;
+  const message = data as Record<string, unknown>;
+  if (message.source !== EMBED_MESSAGE_SOURCE || message.version !== EMBED_PROTOCOL_VERSION) return null;
+
+  switch (message.type) {
+    case 'goToScene':
+      return typeof message.sceneId === 'string' ? { type: 'goToScene', sceneId: message.sceneId } : null;
+    case 'setView': {
+      const view = parseView(message.view);
+      return view ? { type: 'setView', view } : null;
+    }
+    case 'startAutoplay':
+    case 'stopAutoplay':
+    case 'getState':
+      return { type: message.type };
+    default:
+      return null;
+  }
+}
+
+export function createEmbedMessage<T extends EmbedCommand | EmbedEvent>(payload: T): EmbedMessage<T> {
+  return { ...payload, source: EMBED_MESSAGE_SOURCE, version: EMBED_PROTOCOL_VERSION };
+}
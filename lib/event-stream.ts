@@ -0,0 +1,42 @@
+// frontend/lib/event-stream.ts
+
+/**
+ * Read a Server-Sent Events response body, calling onEvent for each event
+ * Used instead of EventSource where the request needs an Authorization header
+ * Resolves when the server closes the stream
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: string, data: string) => void
+): Promise<void> {
+  if (!response.body) return;
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffered += value.replace(/\r\n?/g, '\n');
+
+    let boundary = buffered.indexOf('\n\n');
+    while (boundary !== -1) {
+      const block = buffered.slice(0, boundary);
+      buffered = buffered.slice(boundary + 2);
+      boundary = buffered.indexOf('\n\n');
+
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+      if (data.length) {
+        onEvent(event, data.join('\n'));
+      }
+    }
+  }
+}
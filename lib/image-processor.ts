@@ -5,6 +5,9 @@
  * - Maintain 2:1 aspect ratio for equirectangular images
  */
 
+import type { PanoramaValidation } from '@/lib/tiling/types';
+import type { RedactionRegion, Scene } from '@/types/tour';
+
 interface ProcessImageOptions {
   maxWidth?: number;
   maxHeight?: number;
@@ -121,6 +124,89 @@ export async function checkAspectRatio(file: File): Promise<boolean> {
   });
 }
 
+/**
+ * Full panorama check on the server: aspect ratio, resolution, GPano metadata,
+ * projection and whether a partial panorama can be padded instead of stretched
+ */
+export async function inspectPanorama(file: File): Promise<PanoramaValidation> {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('operation', 'validate');
+
+  const response = await fetch('/api/process-image', {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to validate image');
+  }
+
+  const result = await response.json();
+  return result.validation;
+}
+
+/**
+ * Bearer header for the signed-in user, for server routes that check access with the backend
+ */
+export function authHeaders(): HeadersInit | undefined {
+  const token = localStorage.getItem('accessToken');
+  return token ? { Authorization: `Bearer ${token}` } : undefined;
+}
+
+/**
+ * Blur regions out of a published scene. The server checks the change with the
+ * backend, re-renders the tiles it touches from its private original, publishes
+ * a redacted main image and returns the updated scene
+ */
+export async function redactScene(
+  tourId: string,
+  sceneId: string,
+  regions: RedactionRegion[]
+): Promise<{ scene: Scene; count: number }> {
+  const formData = new FormData();
+  formData.append('operation', 'redact');
+  formData.append('tourId', tourId);
+  formData.append('sceneId', sceneId);
+  formData.append('redactions', JSON.stringify(regions));
+
+  const response = await fetch('/api/process-image', {
+    method: 'POST',
+    headers: authHeaders(),
+    body: formData,
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to redact scene');
+  }
+  return result;
+}
+
+/**
+ * Publish a scene's main image without tiles. The server applies the tour's
+ * pole patches and the scene's redactions before it goes to storage
+ */
+export async function publishSceneImage(tourId: string, sceneId: string, image: Blob): Promise<string> {
+  const formData = new FormData();
+  formData.append('operation', 'publish');
+  formData.append('tourId', tourId);
+  formData.append('sceneId', sceneId);
+  formData.append('file', image, 'processed.jpg');
+
+  const response = await fetch('/api/process-image', {
+    method: 'POST',
+    headers: authHeaders(),
+    body: formData,
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to publish scene image');
+  }
+  return result.mainImageUrl;
+}
+
 /**
  * Process and upload image to R2 with presigned URL
  */
@@ -13,6 +13,8 @@ export interface MultiresManifest {
   tiles?: TileInfo[];
   overlap?: number;
   format?: string;
+  // Changes whenever tile contents do (keys the persistent tile cache)
+  version?: string;
 }
 
 export interface TileLevel {
@@ -38,140 +40,216 @@ export interface TileInfo {
 export interface Viewport {
   yaw: number;
   pitch: number;
+  // Vertical field of view in degrees (matches the three.js camera)
   fov: number;
+  // Viewport width / height; defaults to 16:9
+  aspect?: number;
+}
+
+export interface VisibleTile {
+  col: number;
+  row: number;
+  // Angle in degrees between the view centre and the tile centre (load nearest first)
+  distance: number;
+}
+
+type Vec3 = [number, number, number];
+
+const DEFAULT_ASPECT = 16 / 9;
+// Extra frustum on every side so tiles just off-screen are ready when panning
+const FRUSTUM_MARGIN = 0.1;
+// Screen sample grid - catches tiles that contain the whole view
+const SCREEN_SAMPLES = 8;
+const MAX_TILE_SAMPLES = 16;
+
+const DEG = Math.PI / 180;
+
+// Yaw 0 looks along +z, positive yaw turns right (towards +x), pitch +90 is +y
+function direction(yaw: number, pitch: number): Vec3 {
+  const cosPitch = Math.cos(pitch * DEG);
+  return [cosPitch * Math.sin(yaw * DEG), Math.sin(pitch * DEG), cosPitch * Math.cos(yaw * DEG)];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
 }
 
 /**
- * Calculate which tiles are visible in the current viewport
+ * Camera basis and half-extents of the (margin-expanded) view frustum
+ */
+function createFrustum(viewport: Viewport, margin: number) {
+  const tanV = Math.tan((viewport.fov * DEG) / 2);
+  const tanH = tanV * (viewport.aspect || DEFAULT_ASPECT);
+  const forward = direction(viewport.yaw, viewport.pitch);
+  // Horizontal right vector stays defined even looking straight up or down
+  const right: Vec3 = [Math.cos(viewport.yaw * DEG), 0, -Math.sin(viewport.yaw * DEG)];
+  const up: Vec3 = [
+    forward[1] * right[2] - forward[2] * right[1],
+    forward[2] * right[0] - forward[0] * right[2],
+    forward[0] * right[1] - forward[1] * right[0],
+  ];
+  const limitH = tanH * (1 + margin);
+  const limitV = tanV * (1 + margin);
+
+  return {
+    forward,
+    // Angular radius of the frustum's bounding cone
+    radius: Math.atan(Math.hypot(limitH, limitV)) / DEG,
+    contains(dir: Vec3) {
+      const depth = dot(dir, forward);
+      return depth > 0 && Math.abs(dot(dir, right)) <= depth * limitH && Math.abs(dot(dir, up)) <= depth * limitV;
+    },
+    // Direction through a point of the screen, x/y in [-1, 1] (+y up)
+    through(x: number, y: number): Vec3 {
+      return [0, 1, 2].map((i) => forward[i] + x * limitH * right[i] + y * limitV * up[i]) as Vec3;
+    },
+  };
+}
+
+/**
+ * Calculate which tiles of a level intersect the camera frustum projected onto
+ * the sphere. Tile (col, row) covers level pixels from (col, row) * tileSize, with
+ * row 0 at the zenith and column 0 at yaw -180 (the seam)
  */
 export function calculateVisibleTiles(
   viewport: Viewport,
   level: TileLevel,
   originalWidth: number,
-  originalHeight: number
-): Array<{ col: number; row: number }> {
-  const visibleTiles: Array<{ col: number; row: number }> = [];
-  
+  originalHeight: number,
+  margin = FRUSTUM_MARGIN
+): VisibleTile[] {
   // Make sure we have valid level data
   if (!level.cols || !level.rows) {
-    return visibleTiles;
+    return [];
   }
-  
-  // Calculate which tiles are visible based on viewport
-  // Convert yaw/pitch to UV coordinates (0-1 range)
-  const centerU = (viewport.yaw + 180) / 360;
-  const centerV = (viewport.pitch + 90) / 180;
-  
-  // Calculate FOV coverage in UV space
-  const fovRadians = (viewport.fov * Math.PI) / 180;
-  const horizontalCoverage = fovRadians / (2 * Math.PI); // Fraction of 360 degrees
-  const verticalCoverage = fovRadians / Math.PI; // Fraction of 180 degrees
-  
-  // Always load all tiles for better coverage
-  // This ensures no missing tiles at any zoom level
-  for (let row = 0; row < level.rows; row++) {
-    for (let col = 0; col < level.cols; col++) {
-      visibleTiles.push({ col, row });
+
+  const tileSize = level.tileSize || level.width / level.cols;
+  const width = level.width || level.cols * tileSize;
+  const height = level.height || level.rows * tileSize;
+  const frustum = createFrustum(viewport, margin);
+  const visible = new Set<number>();
+  const index = (col: number, row: number) => row * level.cols + col;
+
+  // Tiles under a screen sample (a tile larger than the view has no corner inside it)
+  for (let sy = 0; sy <= SCREEN_SAMPLES; sy++) {
+    for (let sx = 0; sx <= SCREEN_SAMPLES; sx++) {
+      const [x, y, z] = frustum.through((sx / SCREEN_SAMPLES) * 2 - 1, (sy / SCREEN_SAMPLES) * 2 - 1);
+      const u = (Math.atan2(x, z) / DEG + 180) / 360;
+      const v = (90 - Math.asin(y / Math.hypot(x, y, z)) / DEG) / 180;
+      const col = Math.min(level.cols - 1, Math.floor((u * width) / tileSize));
+      const row = Math.min(level.rows - 1, Math.floor((v * height) / tileSize));
+      visible.add(index(col, row));
     }
   }
-  // return visibleTiles;
-  
-  // Add larger margin to ensure complete coverage
-  const margin = 0.5; // 50% margin for better coverage
-  const uMin = centerU - horizontalCoverage * (1 + margin);
-  const uMax = centerU + horizontalCoverage * (1 + margin);
-  const vMin = Math.max(0, centerV - verticalCoverage * (1 + margin));
-  const vMax = Math.min(1, centerV + verticalCoverage * (1 + margin));
-  
-  // Calculate which tiles intersect with the visible area
+
+  // Tiles with any sampled point inside the frustum; samples are spaced well below
+  // the view size so a partly visible tile can't slip between them
+  const spacing = Math.max(0.5, viewport.fov / 4);
   for (let row = 0; row < level.rows; row++) {
-    const tileVMin = row / level.rows;
-    const tileVMax = (row + 1) / level.rows;
-    
-    // Check if tile is in vertical range
-    if (tileVMax < vMin || tileVMin > vMax) {
+    const pitchTop = 90 - ((row * tileSize) / height) * 180;
+    const pitchBottom = 90 - (Math.min(height, (row + 1) * tileSize) / height) * 180;
+    // Whole row outside the frustum's pitch band
+    if (pitchBottom > viewport.pitch + frustum.radius || pitchTop < viewport.pitch - frustum.radius) {
       continue;
     }
-    
+
     for (let col = 0; col < level.cols; col++) {
-      const tileUMin = col / level.cols;
-      const tileUMax = (col + 1) / level.cols;
-      
-      // Check horizontal range with wraparound
-      let isVisible = false;
-      
-      // Handle wraparound at 360 degrees
-      if (uMin < 0) {
-        // Viewport wraps around left edge
-        isVisible = tileUMax >= (1 + uMin) || tileUMin <= uMax;
-      } else if (uMax > 1) {
-        // Viewport wraps around right edge
-        isVisible = tileUMin <= (uMax - 1) || tileUMax >= uMin;
-      } else {
-        // No wraparound
-        isVisible = !(tileUMax < uMin || tileUMin > uMax);
-      }
-      
-      if (isVisible) {
-        visibleTiles.push({ col, row });
+      if (visible.has(index(col, row))) continue;
+
+      const yawLeft = ((col * tileSize) / width) * 360 - 180;
+      const yawRight = (Math.min(width, (col + 1) * tileSize) / width) * 360 - 180;
+      const steps = Math.min(
+        MAX_TILE_SAMPLES,
+        Math.max(2, Math.ceil(Math.max(yawRight - yawLeft, pitchTop - pitchBottom) / spacing))
+      );
+
+      sampling: for (let i = 0; i <= steps; i++) {
+        const pitch = pitchTop + ((pitchBottom - pitchTop) * i) / steps;
+        for (let j = 0; j <= steps; j++) {
+          // At the poles every column meets in one point, so this catches all of them
+          if (frustum.contains(direction(yawLeft + ((yawRight - yawLeft) * j) / steps, pitch))) {
+            visible.add(index(col, row));
+            break sampling;
+          }
+        }
       }
     }
   }
-  
-  return visibleTiles;
+
+  return Array.from(visible, (key) => {
+    const col = key % level.cols;
+    const row = Math.floor(key / level.cols);
+    const centreYaw = (((col + 0.5) * tileSize) / width) * 360 - 180;
+    const centrePitch = 90 - ((Math.min(height, (row + 0.5) * tileSize)) / height) * 180;
+    const cosine = Math.max(-1, Math.min(1, dot(direction(centreYaw, centrePitch), frustum.forward)));
+    return { col, row, distance: Math.acos(cosine) / DEG };
+  }).sort((a, b) => a.distance - b.distance);
+}
+
+export type TileQuality = 'high' | 'balanced' | 'data-saver';
+
+export interface LevelSelectionOptions {
+  // Backing-store pixels per CSS pixel (renderer pixel ratio)
+  devicePixelRatio?: number;
+  // CSS pixels; defaults to a 16:9 viewport of the given width
+  viewportHeight?: number;
+  // Texels wanted per screen pixel at the view centre: >1 sharper, <1 softer and lighter
+  qualityBias?: number;
+  // Never pick a level denser than this (data saver)
+  maxTexelsPerPixel?: number;
+}
+
+export const TILE_QUALITY_PRESETS: Record<TileQuality, Pick<LevelSelectionOptions, 'qualityBias' | 'maxTexelsPerPixel'>> = {
+  high: { qualityBias: 1.5 },
+  balanced: { qualityBias: 1 },
+  'data-saver': { qualityBias: 0.6, maxTexelsPerPixel: 1 },
+};
+
+/**
+ * Quality stored on the tour (tour.tile_quality), or undefined when unset or unknown
+ */
+export function parseTileQuality(value: string | undefined): TileQuality | undefined {
+  return value && Object.keys(TILE_QUALITY_PRESETS).includes(value) ? value as TileQuality : undefined;
 }
 
 /**
- * Get the appropriate level based on current zoom
+ * Texels of a level per device pixel at the centre of the view
+ */
+export function texelsPerPixel(
+  levelWidth: number,
+  fov: number,
+  viewportWidth: number,
+  { devicePixelRatio = 1, viewportHeight }: LevelSelectionOptions = {}
+): number {
+  const height = viewportHeight || (viewportWidth * 9) / 16;
+  // Pixels per radian at the centre of a perspective view with vertical `fov`
+  const screenDensity = (devicePixelRatio * height) / 2 / Math.tan((fov * Math.PI) / 360);
+  const levelDensity = levelWidth / (2 * Math.PI);
+  return levelDensity / screenDensity;
+}
+
+/**
+ * Pick the lowest-resolution level that still gives `qualityBias` texels per
+ * screen pixel at the current zoom, so small and high-DPI screens get the tiles
+ * they can actually show. Levels are ordered lowest resolution first
  */
 export function getAppropriateLevel(
   fov: number,
   levels: TileLevel[],
-  viewportWidth: number
+  viewportWidth: number,
+  options: LevelSelectionOptions = {}
 ): number {
-  // Advanced level selection for smooth transitions
-  // Lower FOV = more zoomed in = need higher resolution (higher level index)
-  
   if (!levels || levels.length === 0) return 0;
-  
-  const numLevels = levels.length;
-  
-  // Skip the automatic calculation for now - use FOV-based selection directly
-  // The pixel-per-degree calculation doesn't work well with our tile setup
-  
-  // Enhanced selection for different level counts
-  // FOV ranges: 5-100 degrees
-  // Level selection based on zoom amount with smoother transitions
-  // USE ALL LEVELS for optimal quality/performance balance
-  if (numLevels === 5) {
-    // Optimized for 5-level pyramid with progressive quality
-    // Remember: after sorting, level 0 is lowest res, level 4 is highest res
-    if (fov <= 15) return 4;      // Ultra zoom - highest resolution
-    else if (fov <= 25) return 3; // High zoom
-    else if (fov <= 40) return 2; // Medium zoom
-    else if (fov <= 60) return 1; // Light zoom
-    else return 0;                // Wide view - base resolution
-  } else if (numLevels === 4) {
-    // 4-level pyramid - use all levels
-    if (fov <= 20) return 3;      // High zoom - highest resolution
-    else if (fov <= 35) return 2; // Medium zoom
-    else if (fov <= 55) return 1; // Light zoom
-    else return 0;                // Wide view - base resolution
-  } else if (numLevels === 2) {
-    // 2-level pyramid: level 0 (low res) and level 1 (full res)
-    // Switch to full resolution early for better quality
-    if (fov <= 90) return 1;      // Use full resolution for most views
-    else return 0;                // Only very wide view uses low resolution
-  } else if (numLevels === 3) {
-    // 3-level pyramid - use all levels
-    if (fov <= 30) return 2;      // High zoom - highest resolution
-    else if (fov <= 60) return 1; // Medium view
-    else return 0;                // Wide view - base resolution
-  } else {
-    // Dynamic selection for other level counts
-    const fovRange = 100 - 5;
-    const levelStep = fovRange / numLevels;
-    const levelIndex = Math.floor((100 - fov) / levelStep);
-    return Math.max(0, Math.min(numLevels - 1, levelIndex));
+
+  const { qualityBias = 1, maxTexelsPerPixel } = options;
+  const density = levels.map((level) => texelsPerPixel(level.width, fov, viewportWidth, options));
+
+  let index = density.findIndex((value) => value >= qualityBias);
+  if (index === -1) index = levels.length - 1;
+
+  if (maxTexelsPerPixel !== undefined) {
+    while (index > 0 && density[index] > maxTexelsPerPixel) index--;
   }
-}
\ No newline at end of file
+
+  return index;
+}
@@ -0,0 +1,15 @@
+/**
+ * Number helpers shared by the viewer, embed parsing and server-side tiling
+ * This file contains only browser-safe code (no Node.js dependencies)
+ */
+
+export const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Wrap an angle in degrees into [-180, 180). Applied to a difference of two
+ * yaws it gives the shortest way round from one to the other
+ */
+export function normalizeYaw(yaw: number): number {
+  return ((yaw + 180) % 360 + 360) % 360 - 180;
+}
@@ -0,0 +1,247 @@
+import sharp from 'sharp';
+import type { TileProgressHandler, TileRecord, TileSink } from './types';
+import { createYielder } from './yielding';
+
+// frontend/lib/tiling/cubemap.ts
+
+// Order for Three.js BoxGeometry: [+X, -X, +Y, -Y, +Z, -Z]
+export const CUBE_FACES = ['px', 'nx', 'py', 'ny', 'pz', 'nz'] as const;
+export type CubeFace = typeof CUBE_FACES[number];
+
+// Axis layout of each BoxGeometry face: image x runs along `u`, image y along `v`,
+// and the face sits at `w` = ±1 (mirrors BoxGeometry's buildPlane arguments)
+const FACE_AXES: Record<CubeFace, { u: number; v: number; w: number; udir: number; vdir: number; wdir: number }> = {
+  px: { u: 2, v: 1, w: 0, udir: -1, vdir: -1, wdir: 1 },
+  nx: { u: 2, v: 1, w: 0, udir: 1, vdir: -1, wdir: -1 },
+  py: { u: 0, v: 2, w: 1, udir: 1, vdir: 1, wdir: 1 },
+  ny: { u: 0, v: 2, w: 1, udir: 1, vdir: -1, wdir: -1 },
+  pz: { u: 0, v: 1, w: 2, udir: 1, vdir: -1, wdir: 1 },
+  nz: { u: 0, v: 1, w: 2, udir: -1, vdir: -1, wdir: -1 },
+};
+
+// Largest face image referenced from manifest.faces (single-texture loaders)
+const FACE_IMAGE_MAX = 2048;
+
+export interface CubemapLevel {
+  level: number;
+  size: number;
+  tilesX: number;
+  tilesY: number;
+}
+
+export interface CubemapManifest {
+  type: 'cubemap';
+  faceSize: number;
+  tileSize: number;
+  levels: CubemapLevel[];
+  // Keys are relative to the manifest URL unless basePath is set
+  faces: Record<CubeFace, string>;
+  tilePattern: string;
+  basePath?: string;
+  preview?: string;
+}
+
+export interface GenerateCubemapOptions {
+  sink: TileSink;
+  tileSize?: number;
+  maxFaceSize?: number;
+  onProgress?: TileProgressHandler;
+}
+
+export interface CubemapPyramid {
+  manifest: CubemapManifest;
+  tiles: TileRecord[];
+}
+
+export function cubeTileKey(face: CubeFace, level: number, row: number, col: number): string {
+  return `${face}_l${level}_${row}_${col}.jpg`;
+}
+
+/**
+ * Pick the face edge: ~width/π keeps the equator's pixel density, rounded up
+ * to tileSize * 2^n so every level splits into whole tiles
+ */
+export function getCubeFaceSize(equirectWidth: number, tileSize: number, maxFaceSize: number): number {
+  const target = equirectWidth / Math.PI;
+  let size = tileSize;
+  while (size < target && size * 2 <= maxFaceSize) {
+    size *= 2;
+  }
+  return size;
+}
+
+/**
+ * Reproject one cube face from raw equirectangular RGB pixels (bilinear sampling)
+ */
+async function renderCubeFace(
+  source: Buffer,
+  sourceWidth: number,
+  sourceHeight: number,
+  face: CubeFace,
+  faceSize: number
+): Promise<Buffer> {
+  const { u, v, w, udir, vdir, wdir } = FACE_AXES[face];
+  const output = Buffer.alloc(faceSize * faceSize * 3);
+  const direction = [0, 0, 0];
+  const yieldRow = createYielder();
+
+  for (let py = 0; py < faceSize; py++) {
+    await yieldRow();
+    for (let px = 0; px < faceSize; px++) {
+      // Pixel centre in [-1, 1] on the face plane
+      direction[u] = ((px + 0.5) / faceSize * 2 - 1) * udir;
+      direction[v] = ((py + 0.5) / faceSize * 2 - 1) * vdir;
+      direction[w] = wdir;
+
+      const [x, y, z] = direction;
+      const length = Math.sqrt(x * x + y * y + z * z);
+
+      // Same mapping as the tile spheres: u = atan2(z, x) / 2π, v from the zenith down
+      let su = Math.atan2(z, x) / (2 * Math.PI);
+      if (su < 0) su += 1;
+      const sv = 0.5 - Math.asin(y / length) / Math.PI;
+
+      const fx = su * sourceWidth - 0.5;
+      const fy = Math.min(Math.max(sv * sourceHeight - 0.5, 0), sourceHeight - 1);
+      const x0 = Math.floor(fx);
+      const y0 = Math.floor(fy);
+      const tx = fx - x0;
+      const ty = fy - y0;
+      // Wrap horizontally across the 0°/360° seam, clamp at the poles
+      const xa = ((x0 % sourceWidth) + sourceWidth) % sourceWidth;
+      const xb = (xa + 1) % sourceWidth;
+      const ya = y0;
+      const yb = Math.min(y0 + 1, sourceHeight - 1);
+
+      const out = (py * faceSize + px) * 3;
+      for (let channel = 0; channel < 3; channel++) {
+        const p00 = source[(ya * sourceWidth + xa) * 3 + channel];
+        const p10 = source[(ya * sourceWidth + xb) * 3 + channel];
+        const p01 = source[(yb * sourceWidth + xa) * 3 + channel];
+        const p11 = source[(yb * sourceWidth + xb) * 3 + channel];
+        const top = p00 + (p10 - p00) * tx;
+        const bottom = p01 + (p11 - p01) * tx;
+        output[out + channel] = Math.round(top + (bottom - top) * ty);
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Reproject an equirectangular panorama into six cube faces and tile each face
+ * into a multi-level pyramid. Writes tiles, per-face images and cubemap.json to the sink
+ */
+export async function generateCubemapTiles(
+  buffer: Buffer,
+  originalWidth: number,
+  { sink, tileSize = 512, maxFaceSize = 4096, onProgress }: GenerateCubemapOptions
+): Promise<CubemapPyramid> {
+  const faceSize = getCubeFaceSize(originalWidth, tileSize, maxFaceSize);
+
+  const levels: CubemapLevel[] = [];
+  for (let size = faceSize, index = 0; ; size /= 2, index++) {
+    const tiles = Math.ceil(size / tileSize);
+    levels.unshift({ level: 0, size, tilesX: tiles, tilesY: tiles });
+    if (size <= tileSize || index > 8) break;
+  }
+  levels.forEach((level, index) => {
+    level.level = index;
+  });
+
+  console.log(`\n=== Cubemap Generation: face ${faceSize}px, ${levels.length} levels ===`);
+
+  // Sampling never needs more than ~4 source pixels per face pixel horizontally
+  const sourceWidth = Math.min(originalWidth, faceSize * 4);
+  const { data: source, info } = await sharp(buffer)
+    .resize(sourceWidth, sourceWidth / 2, { fit: 'fill', kernel: sharp.kernel.lanczos3 })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const tiles: TileRecord[] = [];
+  const faces = {} as Record<CubeFace, string>;
+  const tilesPerLevel = levels.map((level) => level.tilesX * level.tilesY * CUBE_FACES.length);
+  const tilesDone = levels.map(() => 0);
+
+  for (const face of CUBE_FACES) {
+    const faceRaw = await renderCubeFace(source, info.width, info.height, face, faceSize);
+    const faceImage = sharp(faceRaw, { raw: { width: faceSize, height: faceSize, channels: 3 } });
+
+    // Single image per face for loaders that don't stream tiles
+    const faceImageSize = Math.min(faceSize, FACE_IMAGE_MAX);
+    const faceKey = `${face}.jpg`;
+    await sink.write(
+      faceKey,
+      await faceImage.clone().resize(faceImageSize, faceImageSize).jpeg({ quality: 90 }).toBuffer(),
+      'image/jpeg'
+    );
+    faces[face] = faceKey;
+
+    for (const { level, size, tilesX, tilesY } of levels) {
+      const levelImage = size === faceSize
+        ? await faceImage.clone().png({ compressionLevel: 0 }).toBuffer()
+        : await faceImage.clone()
+            .resize(size, size, { kernel: sharp.kernel.lanczos3 })
+            .png({ compressionLevel: 0 })
+            .toBuffer();
+
+      for (let row = 0; row < tilesY; row++) {
+        for (let col = 0; col < tilesX; col++) {
+          const left = col * tileSize;
+          const top = row * tileSize;
+          const tileBuffer = await sharp(levelImage)
+            .extract({
+              left,
+              top,
+              width: Math.min(tileSize, size - left),
+              height: Math.min(tileSize, size - top)
+            })
+            .jpeg({
+              quality: 98, // Very high quality to minimize artifacts
+              chromaSubsampling: '4:4:4', // Best color quality
+              force: true
+            })
+            .toBuffer();
+
+          const key = cubeTileKey(face, level, row, col);
+          const url = await sink.write(key, tileBuffer, 'image/jpeg');
+          tiles.push({ level, row, col, key, url });
+        }
+      }
+
+      tilesDone[level] += tilesX * tilesY;
+      onProgress?.({
+        level,
+        width: size,
+        height: size,
+        tilesTotal: tilesPerLevel[level],
+        tilesDone: tilesDone[level]
+      });
+    }
+
+    console.log(`  Face ${face}: ${levels.length} levels written`);
+  }
+
+  const manifest: CubemapManifest = {
+    type: 'cubemap',
+    faceSize,
+    tileSize,
+    levels,
+    faces,
+    tilePattern: '{face}_l{level}_{row}_{col}.jpg',
+  };
+
+  return { manifest, tiles };
+}
+
+/**
+ * Write the cubemap manifest next to its tiles; returns its public URL if any
+ */
+export async function writeCubemapManifest(
+  sink: TileSink,
+  manifest: CubemapManifest
+): Promise<string | undefined> {
+  return sink.write('cubemap.json', Buffer.from(JSON.stringify(manifest)), 'application/json');
+}
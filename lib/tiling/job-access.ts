@@ -0,0 +1,16 @@
+import { getTileJobStore } from './job-store';
+import { loadSceneSettings } from './scene-settings';
+import type { TileJob } from './types';
+
+// frontend/lib/tiling/job-access.ts
+
+/**
+ * Look up a job for the caller, checking with the backend that they can still
+ * access the job's scene. Returns null when the job doesn't exist or they can't
+ */
+export async function getAuthorizedJob(jobId: string, authorization: string | null): Promise<TileJob | null> {
+  const job = await getTileJobStore().get(jobId);
+  if (!job) return null;
+  const settings = await loadSceneSettings(job.tourId, job.sceneId, authorization);
+  return settings ? job : null;
+}
@@ -0,0 +1,149 @@
+import { randomUUID } from 'crypto';
+import sharp from 'sharp';
+import { generateCubemapTiles, writeCubemapManifest } from './cubemap';
+import { getTileJobStore } from './job-store';
+import { buildTilesManifest } from './manifest';
+import { applyPolePatches } from './nadir';
+import { saveSceneOriginal } from './originals';
+import { generateAdvancedTiles } from './pyramid';
+import { redactPanorama } from './redaction';
+import { createStorageSink, JobStoreTileSink } from './sinks';
+import type { TileJob, TileJobOptions, TileLevelProgress } from './types';
+
+// frontend/lib/tiling/job-queue.ts
+
+export const SOURCE_FILE_KEY = 'source.jpg';
+// Patched main image handed back with the tiles when the client does the upload
+export const MAIN_IMAGE_KEY = 'main.jpg';
+
+// Jobs run one at a time - tiling a 12K panorama already saturates sharp's thread pool
+const globalForQueue = globalThis as typeof globalThis & { __tileJobQueue?: Promise<void> };
+
+/**
+ * Create a tile job for the given image and schedule it in the background
+ * Returns immediately with the queued job so the client can poll for progress
+ */
+export async function submitTileJob(
+  buffer: Buffer,
+  tourId: string,
+  sceneId: string,
+  options: TileJobOptions = {}
+): Promise<TileJob> {
+  const store = getTileJobStore();
+  const now = new Date().toISOString();
+
+  const job: TileJob = {
+    id: randomUUID(),
+    tourId,
+    sceneId,
+    status: 'queued',
+    options: { destination: 'job', ...options },
+    createdAt: now,
+    updatedAt: now,
+    levels: [],
+    tileCount: 0,
+  };
+
+  await store.create(job);
+  // Only needed until the job has run - dropped once it finishes either way
+  await store.putFile(job.id, SOURCE_FILE_KEY, buffer);
+
+  const previous = globalForQueue.__tileJobQueue ?? Promise.resolve();
+  globalForQueue.__tileJobQueue = previous.then(() => runTileJob(job.id));
+
+  return job;
+}
+
+async function runTileJob(jobId: string): Promise<void> {
+  const store = getTileJobStore();
+
+  try {
+    const job = await store.get(jobId);
+    const buffer = await store.getFile(jobId, SOURCE_FILE_KEY);
+    if (!job || !buffer) {
+      throw new Error('Job source not found');
+    }
+
+    const metadata = await sharp(buffer).metadata();
+    const originalWidth = metadata.width || 4096;
+    const originalHeight = metadata.height || 2048;
+
+    console.log(`\n=== Tile Job ${jobId} [${new Date().toISOString()}] ===`);
+    console.log(`Image dimensions: ${originalWidth}x${originalHeight}`);
+
+    await store.update(jobId, { status: 'running', originalWidth, originalHeight });
+
+    // Progress callbacks are synchronous; chain the store writes so they land in order
+    const levels = new Map<string, TileLevelProgress>();
+    let progressWrite: Promise<unknown> = Promise.resolve();
+    const trackProgress = (stage: TileLevelProgress['stage']) => (progress: TileLevelProgress) => {
+      levels.set(`${stage}:${progress.level}`, { ...progress, stage });
+      const snapshot = Array.from(levels.values());
+      progressWrite = progressWrite.then(() => store.update(jobId, { levels: snapshot }));
+    };
+
+    const toStorage = job.options.destination === 'storage';
+    const sink = toStorage
+      ? createStorageSink(`scenes/${job.sceneId}/tiles`)
+      : new JobStoreTileSink(store, jobId);
+
+    // Everything published below (tiles, cubemap, main image) carries the tour's pole patches
+    const patched = await applyPolePatches(buffer, job.options.nadirPatch, job.tourId);
+    // Kept privately so redactions can be re-rendered from unblurred pixels later
+    await saveSceneOriginal(job.sceneId, patched);
+    // Published with the scene's existing redactions already blurred in
+    const redactions = job.options.redactions ?? [];
+    const source = await redactPanorama(patched, redactions);
+
+    const pyramid = await generateAdvancedTiles(source, originalWidth, originalHeight, job.sceneId, {
+      sink,
+      tiling: job.options.tiling,
+      onProgress: trackProgress('equirectangular')
+    });
+
+    let cubemapManifestUrl: string | undefined;
+    let cubemapTileCount = 0;
+    if (job.options.cubemap) {
+      const cubemap = await generateCubemapTiles(source, originalWidth, {
+        sink,
+        tileSize: pyramid.tileSize,
+        onProgress: trackProgress('cubemap')
+      });
+      cubemapManifestUrl = await writeCubemapManifest(sink, cubemap.manifest);
+      cubemapTileCount = cubemap.tiles.length;
+    }
+    await progressWrite;
+
+    if (toStorage) {
+      // Publish the main image alongside the tiles and hand back a finished manifest
+      const mainImageUrl = await createStorageSink(`scenes/${job.sceneId}`)
+        .write(`pano_${Date.now()}.jpg`, source, 'image/jpeg');
+      const previewUrl = pyramid.tiles.find((tile) => tile.key === 'preview.jpg')?.url;
+
+      await store.update(jobId, {
+        status: 'complete',
+        tileCount: pyramid.tiles.length + cubemapTileCount,
+        manifest: buildTilesManifest(pyramid, previewUrl, redactions),
+        mainImageUrl,
+        cubemapManifestUrl
+      });
+    } else {
+      await store.putFile(jobId, MAIN_IMAGE_KEY, source);
+      // Layout only - the client fills in tile URLs after its own upload
+      await store.update(jobId, {
+        status: 'complete',
+        tileCount: pyramid.tiles.length + cubemapTileCount,
+        manifest: buildTilesManifest(pyramid, undefined, redactions)
+      });
+    }
+    console.log(`Tile job ${jobId} complete: ${pyramid.tiles.length} files`);
+  } catch (error) {
+    console.error(`Tile job ${jobId} failed:`, error);
+    await store.update(jobId, {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Tile generation failed',
+    });
+  } finally {
+    await store.deleteFile(jobId, SOURCE_FILE_KEY);
+  }
+}
@@ -0,0 +1,229 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { TileJob } from './types';
+
+// frontend/lib/tiling/job-store.ts
+
+// Finished jobs are kept this long for the client to collect, then evicted
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+// Queued/running jobs that haven't moved this long are dead too (a running job
+// updates on every batch of tiles)
+const STALLED_JOB_TTL_MS = 2 * FINISHED_JOB_TTL_MS;
+// Queued/running jobs last updated before this were left behind by an earlier process
+const PROCESS_STARTED_AT = Date.now();
+
+function isExpired(job: TileJob, now: number) {
+  const finished = job.status === 'complete' || job.status === 'error';
+  return now - Date.parse(job.updatedAt) > (finished ? FINISHED_JOB_TTL_MS : STALLED_JOB_TTL_MS);
+}
+
+/**
+ * Persistence for tile-generation jobs: the job record plus the files it
+ * produces (source image, preview and tiles).
+ * Finished jobs are evicted after FINISHED_JOB_TTL_MS if the client never deletes them
+ */
+export interface TileJobStore {
+  create(job: TileJob): Promise<void>;
+  get(jobId: string): Promise<TileJob | null>;
+  update(jobId: string, patch: Partial<TileJob>): Promise<TileJob | null>;
+  putFile(jobId: string, key: string, buffer: Buffer): Promise<void>;
+  getFile(jobId: string, key: string): Promise<Buffer | null>;
+  deleteFile(jobId: string, key: string): Promise<void>;
+  listFiles(jobId: string): Promise<string[]>;
+  delete(jobId: string): Promise<void>;
+}
+
+/**
+ * Default store - lives as long as the Node.js process
+ */
+class MemoryTileJobStore implements TileJobStore {
+  private jobs = new Map<string, TileJob>();
+  private files = new Map<string, Map<string, Buffer>>();
+
+  async create(job: TileJob) {
+    this.evictExpired();
+    this.jobs.set(job.id, job);
+    this.files.set(job.id, new Map());
+  }
+
+  async get(jobId: string) {
+    return this.jobs.get(jobId) ?? null;
+  }
+
+  private evictExpired() {
+    const now = Date.now();
+    for (const job of Array.from(this.jobs.values())) {
+      if (isExpired(job, now)) {
+        this.jobs.delete(job.id);
+        this.files.delete(job.id);
+      }
+    }
+  }
+
+  async update(jobId: string, patch: Partial<TileJob>) {
+    const existing = this.jobs.get(jobId);
+    if (!existing) return null;
+    const updated = { ...existing, ...patch, updatedAt: new Date().toISOString() };
+    this.jobs.set(jobId, updated);
+    return updated;
+  }
+
+  async putFile(jobId: string, key: string, buffer: Buffer) {
+    this.files.get(jobId)?.set(key, buffer);
+  }
+
+  async getFile(jobId: string, key: string) {
+    return this.files.get(jobId)?.get(key) ?? null;
+  }
+
+  async deleteFile(jobId: string, key: string) {
+    this.files.get(jobId)?.delete(key);
+  }
+
+  async listFiles(jobId: string) {
+    return Array.from(this.files.get(jobId)?.keys() ?? []);
+  }
+
+  async delete(jobId: string) {
+    this.jobs.delete(jobId);
+    this.files.delete(jobId);
+  }
+}
+
+/**
+ * File-backed store for local development - survives dev server restarts
+ * Layout: <root>/<jobId>/job.json and <root>/<jobId>/files/<key>
+ */
+class FileTileJobStore implements TileJobStore {
+  private recovered: Promise<void> | null = null;
+
+  constructor(private root: string) {}
+
+  /**
+   * Fail jobs a previous server process never finished - nothing will resume
+   * them, and a watching client would otherwise wait forever
+   */
+  private recoverInterruptedJobs() {
+    if (!this.recovered) {
+      this.recovered = (async () => {
+        let jobIds: string[];
+        try {
+          jobIds = await fs.readdir(this.root);
+        } catch {
+          return;
+        }
+        for (const jobId of jobIds) {
+          const job = await this.read(jobId);
+          if (!job || job.status === 'complete' || job.status === 'error') continue;
+          if (Date.parse(job.updatedAt) >= PROCESS_STARTED_AT) continue;
+          await this.write({ ...job, status: 'error', error: 'Interrupted by a server restart', updatedAt: new Date().toISOString() });
+          await fs.rm(path.join(this.jobDir(jobId), 'files'), { recursive: true, force: true });
+        }
+      })();
+    }
+    return this.recovered;
+  }
+
+  private async read(jobId: string) {
+    try {
+      const raw = await fs.readFile(path.join(this.jobDir(jobId), 'job.json'), 'utf8');
+      return JSON.parse(raw) as TileJob;
+    } catch {
+      return null;
+    }
+  }
+
+  private async write(job: TileJob) {
+    await fs.writeFile(path.join(this.jobDir(job.id), 'job.json'), JSON.stringify(job));
+  }
+
+  private jobDir(jobId: string) {
+    // Job ids are generated server-side, but never let one escape the root
+    return path.join(this.root, path.basename(jobId));
+  }
+
+  private filePath(jobId: string, key: string) {
+    return path.join(this.jobDir(jobId), 'files', path.basename(key));
+  }
+
+  async create(job: TileJob) {
+    await this.recoverInterruptedJobs();
+    await this.evictExpired();
+    await fs.mkdir(path.join(this.jobDir(job.id), 'files'), { recursive: true });
+    await this.write(job);
+  }
+
+  async get(jobId: string) {
+    await this.recoverInterruptedJobs();
+    return this.read(jobId);
+  }
+
+  private async evictExpired() {
+    let jobIds: string[];
+    try {
+      jobIds = await fs.readdir(this.root);
+    } catch {
+      return;
+    }
+    const now = Date.now();
+    for (const jobId of jobIds) {
+      const job = await this.read(jobId);
+      if (job && isExpired(job, now)) {
+        await this.delete(jobId);
+      }
+    }
+  }
+
+  async update(jobId: string, patch: Partial<TileJob>) {
+    const existing = await this.get(jobId);
+    if (!existing) return null;
+    const updated = { ...existing, ...patch, updatedAt: new Date().toISOString() };
+    await this.write(updated);
+    return updated;
+  }
+
+  async putFile(jobId: string, key: string, buffer: Buffer) {
+    await fs.writeFile(this.filePath(jobId, key), buffer);
+  }
+
+  async getFile(jobId: string, key: string) {
+    try {
+      return await fs.readFile(this.filePath(jobId, key));
+    } catch {
+      return null;
+    }
+  }
+
+  async deleteFile(jobId: string, key: string) {
+    await fs.rm(this.filePath(jobId, key), { force: true });
+  }
+
+  async listFiles(jobId: string) {
+    try {
+      return await fs.readdir(path.join(this.jobDir(jobId), 'files'));
+    } catch {
+      return [];
+    }
+  }
+
+  async delete(jobId: string) {
+    await fs.rm(this.jobDir(jobId), { recursive: true, force: true });
+  }
+}
+
+// Keep a single store per process (route modules are re-evaluated on hot reload)
+const globalForJobs = globalThis as typeof globalThis & { __tileJobStore?: TileJobStore };
+
+/**
+ * Get the configured job store
+ * TILE_JOB_STORE=file enables the file-backed store (root: TILE_JOB_DIR, default .tile-jobs)
+ */
+export function getTileJobStore(): TileJobStore {
+  if (!globalForJobs.__tileJobStore) {
+    globalForJobs.__tileJobStore =
+      process.env.TILE_JOB_STORE === 'file'
+        ? new FileTileJobStore(path.resolve(process.env.TILE_JOB_DIR || '.tile-jobs'))
+        : new MemoryTileJobStore();
+  }
+  return globalForJobs.__tileJobStore;
+}
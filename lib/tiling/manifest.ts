@@ -0,0 +1,37 @@
+import type { TilePyramid, TilesManifest } from './types';
+import type { RedactionRegion } from '@/types/tour';
+
+// frontend/lib/tiling/manifest.ts
+
+/**
+ * Build the tiles manifest for a pyramid (tile URLs and basePath are only
+ * filled in when the sink published the files). `redactions` are the regions
+ * already blurred into the tiles
+ */
+export function buildTilesManifest(
+  pyramid: TilePyramid,
+  previewUrl?: string,
+  redactions: RedactionRegion[] = []
+): TilesManifest {
+  const highest = pyramid.levels[pyramid.levels.length - 1];
+  const firstUrl = pyramid.tiles.find((tile) => tile.url)?.url;
+  const version = Date.now().toString(36);
+
+  return {
+    type: 'multires',
+    tileSize: pyramid.tileSize,
+    tiling: pyramid.tiling,
+    overlap: pyramid.tiling.overlap,
+    formats: pyramid.tiling.formats,
+    dimensions: {
+      width: highest?.width || 4096,  // Use highest level dimensions
+      height: highest?.height || 2048
+    },
+    basePath: firstUrl ? firstUrl.replace(/\/[^/]+$/, '') : undefined,
+    preview: previewUrl,
+    levels: pyramid.levels,
+    tiles: pyramid.tiles.filter((tile) => tile.level >= 0),
+    version,
+    redaction: redactions.length ? { revision: version, regions: redactions } : undefined
+  };
+}
@@ -0,0 +1,207 @@
+import sharp from 'sharp';
+import { readStorageObject, storageKeyFromUrl } from './sinks';
+import { createYielder } from './yielding';
+import type { NadirPatchSettings, PolePatch } from '@/types/tour';
+
+// frontend/lib/tiling/nadir.ts
+
+type Pole = 'nadir' | 'zenith';
+
+interface RawImage {
+  data: Buffer;
+  width: number;
+  height: number;
+  channels: number;
+}
+
+const MAX_RADIUS = 60;
+
+/**
+ * Read the tour's stored patch settings (tour.nadir_patch_json)
+ * Throws with a user-facing message when the value is malformed
+ */
+export function parseNadirPatch(raw: string | undefined): NadirPatchSettings | undefined {
+  if (!raw) return undefined;
+
+  let settings: NadirPatchSettings;
+  try {
+    settings = JSON.parse(raw);
+  } catch {
+    throw new Error('nadirPatch must be valid JSON');
+  }
+
+  for (const pole of ['nadir', 'zenith'] as const) {
+    const patch = settings[pole];
+    if (!patch) continue;
+    if (patch.mode !== 'logo' && patch.mode !== 'blur') {
+      throw new Error(`${pole} patch mode must be 'logo' or 'blur'`);
+    }
+    if (patch.mode === 'logo' && !patch.logoUrl) {
+      throw new Error(`${pole} logo patch needs a logoUrl`);
+    }
+    if (!(patch.radius > 0 && patch.radius <= MAX_RADIUS)) {
+      throw new Error(`${pole} patch radius must be between 0 and ${MAX_RADIUS} degrees`);
+    }
+  }
+
+  return settings.nadir || settings.zenith ? settings : undefined;
+}
+
+/**
+ * Read a patch logo back from storage - only files under the tour's own prefix
+ * are accepted, so the settings can't point the server at other hosts or files
+ */
+async function loadPatchImage(url: string, tourId: string): Promise<Buffer> {
+  const key = storageKeyFromUrl(url);
+  if (!key || !key.startsWith(`tours/${tourId}/`)) {
+    throw new Error('Patch logos must be uploaded to the tour\'s own storage');
+  }
+  return readStorageObject(key);
+}
+
+function sampleBilinear(image: RawImage, fx: number, fy: number, channel: number, wrapX: boolean): number {
+  const { data, width, height, channels } = image;
+  const x = Math.max(wrapX ? -Infinity : 0, Math.min(wrapX ? Infinity : width - 1, fx - 0.5));
+  const y = Math.max(0, Math.min(height - 1, fy - 0.5));
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const tx = x - x0;
+  const ty = y - y0;
+  const xa = wrapX ? ((x0 % width) + width) % width : x0;
+  const xb = wrapX ? (xa + 1) % width : Math.min(x0 + 1, width - 1);
+  const yb = Math.min(y0 + 1, height - 1);
+
+  const p00 = data[(y0 * width + xa) * channels + channel];
+  const p10 = data[(y0 * width + xb) * channels + channel];
+  const p01 = data[(yb * width + xa) * channels + channel];
+  const p11 = data[(yb * width + xb) * channels + channel];
+  const top = p00 + (p10 - p00) * tx;
+  return top + (p01 + (p11 - p01) * tx - top) * ty;
+}
+
+/**
+ * Square azimuthal view of a pole cap: centre = pole, edge = `radius` degrees away,
+ * top of the square faces the panorama centre (yaw 0) when looking at the pole
+ */
+function capToEquirect(pole: Pole, px: number, py: number, size: number, radius: number, width: number, height: number) {
+  const dx = ((px + 0.5) / size) * 2 - 1;
+  const dy = ((py + 0.5) / size) * 2 - 1;
+  const rho = Math.min(1, Math.hypot(dx, dy));
+  // Looking down, yaw 0 is at the top of the screen; looking up it is at the bottom
+  const azimuth = Math.atan2(dx, pole === 'nadir' ? -dy : dy);
+  const polar = (rho * radius) / 180;
+
+  return {
+    x: (azimuth / (2 * Math.PI) + 0.5) * width,
+    y: pole === 'nadir' ? (1 - polar) * height : polar * height,
+  };
+}
+
+/**
+ * Blurred copy of the panorama's own pole cap (hides the tripod without branding)
+ */
+async function renderBlurPatch(pano: RawImage, pole: Pole, radius: number, size: number): Promise<RawImage> {
+  const cap = Buffer.alloc(size * size * 4);
+  const yieldRow = createYielder();
+  for (let py = 0; py < size; py++) {
+    await yieldRow();
+    for (let px = 0; px < size; px++) {
+      const { x, y } = capToEquirect(pole, px, py, size, radius, pano.width, pano.height);
+      const out = (py * size + px) * 4;
+      for (let channel = 0; channel < 3; channel++) {
+        cap[out + channel] = Math.round(sampleBilinear(pano, x, y, channel, true));
+      }
+      cap[out + 3] = 255;
+    }
+  }
+
+  const { data, info } = await sharp(cap, { raw: { width: size, height: size, channels: 4 } })
+    .blur(Math.max(2, size / 24))
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height, channels: info.channels };
+}
+
+async function renderLogoPatch(logoUrl: string, tourId: string, size: number): Promise<RawImage> {
+  const { data, info } = await sharp(await loadPatchImage(logoUrl, tourId))
+    .resize(size, size, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height, channels: info.channels };
+}
+
+/**
+ * Blend a square patch onto the pole band of the panorama (in place)
+ */
+async function compositePatch(pano: RawImage, patch: RawImage, pole: Pole, radius: number, feather: number) {
+  const { data, width, height, channels } = pano;
+  const bandHeight = Math.min(height, Math.ceil((height * radius) / 180) + 1);
+  const radiusRad = (radius * Math.PI) / 180;
+  const yieldRow = createYielder();
+
+  for (let row = 0; row < bandHeight; row++) {
+    await yieldRow();
+    const y = pole === 'nadir' ? height - 1 - row : row;
+    // Angle from the pole at this pixel row's centre
+    const polar = ((row + 0.5) / height) * Math.PI;
+    const rho = polar / radiusRad;
+    if (rho > 1) continue;
+
+    // Soft edge over the outer `feather` fraction of the disc
+    const edge = feather > 0 ? Math.min(1, (1 - rho) / feather) : 1;
+
+    for (let x = 0; x < width; x++) {
+      const azimuth = ((x + 0.5) / width - 0.5) * 2 * Math.PI;
+      const vertical = pole === 'nadir' ? -Math.cos(azimuth) : Math.cos(azimuth);
+      const px = (0.5 + 0.5 * rho * Math.sin(azimuth)) * patch.width;
+      const py = (0.5 + 0.5 * rho * vertical) * patch.height;
+
+      const alpha = (sampleBilinear(patch, px, py, 3, false) / 255) * edge;
+      if (alpha <= 0) continue;
+
+      const out = (y * width + x) * channels;
+      for (let channel = 0; channel < 3; channel++) {
+        const value = sampleBilinear(patch, px, py, channel, false);
+        data[out + channel] = Math.round(data[out + channel] * (1 - alpha) + value * alpha);
+      }
+    }
+  }
+}
+
+/**
+ * Composite the tour's nadir/zenith patches into an equirectangular panorama
+ * Returns the original buffer when no patch is configured
+ */
+export async function applyPolePatches(
+  buffer: Buffer,
+  settings: NadirPatchSettings | undefined,
+  tourId: string
+): Promise<Buffer> {
+  const poles = (['nadir', 'zenith'] as const).filter((pole) => settings?.[pole]);
+  if (!settings || !poles.length) return buffer;
+
+  const { data, info } = await sharp(buffer)
+    .removeAlpha()
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const pano: RawImage = { data, width: info.width, height: info.height, channels: info.channels };
+
+  for (const pole of poles) {
+    const { mode, logoUrl, radius } = settings[pole] as PolePatch;
+    // Cap diameter in source pixels at the horizon's density, kept within sane bounds
+    const size = Math.max(64, Math.min(2048, Math.round((pano.width * radius * 2) / 360)));
+    console.log(`Applying ${mode} ${pole} patch: ${radius}° radius, ${size}px`);
+
+    if (mode === 'logo' && logoUrl) {
+      await compositePatch(pano, await renderLogoPatch(logoUrl, tourId, size), pole, radius, 0.02);
+    } else {
+      await compositePatch(pano, await renderBlurPatch(pano, pole, radius, size), pole, radius, 0.25);
+    }
+  }
+
+  return sharp(pano.data, { raw: { width: pano.width, height: pano.height, channels: pano.channels as 3 } })
+    .jpeg({ quality: 100, chromaSubsampling: '4:4:4' })
+    .toBuffer();
+}
@@ -0,0 +1,108 @@
+import type { ExtraTileFormat, TilingOptions, TilingParameters } from './types';
+
+// frontend/lib/tiling/options.ts
+
+export interface ResolvedTiling extends TilingParameters {
+  levels: Array<{ level: number; width: number; height: number }>;
+}
+
+export const DEFAULT_LEVEL_COUNT = 3;
+export const DEFAULT_MAX_RESOLUTION = 12288;
+// Enough for bilinear filtering across tile edges without visible seams
+export const DEFAULT_OVERLAP = 2;
+const TILE_SIZES = [256, 512, 1024, 2048];
+const EXTRA_FORMATS: ExtraTileFormat[] = ['webp', 'avif'];
+const MAX_LEVELS = 8;
+
+/**
+ * Turn tiling options into a concrete level plan for an image
+ * Level 0 is the lowest resolution; each level doubles the previous width
+ */
+export function resolveTiling(originalWidth: number, options: TilingOptions = {}): ResolvedTiling {
+  const maxResolution = options.maxResolution ?? DEFAULT_MAX_RESOLUTION;
+
+  // Dynamic tile size based on image size
+  // Larger images need larger tiles to avoid too many tiles
+  const tileSize = options.tileSize ?? (originalWidth > 8192 ? 1024 : 512);
+  const overlap = Math.min(options.overlap ?? DEFAULT_OVERLAP, tileSize / 4);
+
+  // Ensure proper 2:1 aspect ratio for 360 panoramas
+  const baseWidth = Math.min(originalWidth, maxResolution);
+
+  const mode = options.levels === 'auto' ? 'auto' : 'fixed';
+  const count = mode === 'auto'
+    ? 1 + Math.max(0, Math.ceil(Math.log2(baseWidth / tileSize)))
+    : (options.levels as number | undefined) ?? DEFAULT_LEVEL_COUNT;
+  const levelCount = Math.min(MAX_LEVELS, Math.max(1, count));
+
+  const levels = Array.from({ length: levelCount }, (_, level) => {
+    const scale = 2 ** (levelCount - 1 - level);
+    const width = Math.max(1, Math.round(baseWidth / scale));
+    return { level, width, height: Math.max(1, Math.round(width / 2)) };
+  });
+
+  const formats = ['jpg' as const, ...EXTRA_FORMATS.filter((format) => options.formats?.includes(format))];
+
+  return { mode, levelCount, tileSize, overlap, formats, maxResolution, levels };
+}
+
+/**
+ * Read tiling options from a multipart request ('levels', 'tileSize', 'overlap', 'formats', 'maxResolution')
+ * Throws with a user-facing message when a value is out of range
+ */
+export function parseTilingOptions(formData: FormData): TilingOptions {
+  const options: TilingOptions = {};
+
+  const levels = formData.get('levels');
+  if (levels) {
+    if (levels === 'auto') {
+      options.levels = 'auto';
+    } else {
+      const count = Number(levels);
+      if (!Number.isInteger(count) || count < 1 || count > MAX_LEVELS) {
+        throw new Error(`levels must be 'auto' or an integer between 1 and ${MAX_LEVELS}`);
+      }
+      options.levels = count;
+    }
+  }
+
+  const tileSize = formData.get('tileSize');
+  if (tileSize) {
+    const size = Number(tileSize);
+    if (!TILE_SIZES.includes(size)) {
+      throw new Error(`tileSize must be one of ${TILE_SIZES.join(', ')}`);
+    }
+    options.tileSize = size;
+  }
+
+  const overlap = formData.get('overlap');
+  if (overlap) {
+    const pixels = Number(overlap);
+    if (!Number.isInteger(pixels) || pixels < 0 || pixels > 64) {
+      throw new Error('overlap must be an integer between 0 and 64');
+    }
+    options.overlap = pixels;
+  }
+
+  // Comma-separated list of extra formats, e.g. "webp,avif"
+  const formats = formData.get('formats');
+  if (typeof formats === 'string' && formats) {
+    const requested = formats.split(',').map((format) => format.trim()).filter(Boolean);
+    const unknown = requested.filter((format) => !EXTRA_FORMATS.includes(format as ExtraTileFormat));
+    if (unknown.length) {
+      throw new Error(`Unsupported tile formats: ${unknown.join(', ')} (expected ${EXTRA_FORMATS.join(', ')})`);
+    }
+    options.formats = requested as ExtraTileFormat[];
+  }
+
+  const maxResolution = formData.get('maxResolution');
+  if (maxResolution) {
+    const width = Number(maxResolution);
+    if (!Number.isInteger(width) || width < 512 || width > 16384) {
+      throw new Error('maxResolution must be an integer between 512 and 16384');
+    }
+    options.maxResolution = width;
+  }
+
+  return options;
+}
@@ -0,0 +1,31 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// frontend/lib/tiling/originals.ts
+
+const ORIGINAL_FILE = 'original.jpg';
+
+/**
+ * Unredacted source of each scene's published tiles, kept outside the public
+ * storage so redaction regions can be re-applied later
+ * Layout: <TILE_PRIVATE_DIR, default .tile-private>/<sceneId>/original.jpg
+ */
+function originalPath(sceneId: string) {
+  const root = path.resolve(process.env.TILE_PRIVATE_DIR || '.tile-private');
+  // Scene ids come from the client - never let one escape the root
+  return path.join(root, path.basename(sceneId), ORIGINAL_FILE);
+}
+
+export async function saveSceneOriginal(sceneId: string, buffer: Buffer): Promise<void> {
+  const filePath = originalPath(sceneId);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, buffer);
+}
+
+export async function loadSceneOriginal(sceneId: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(originalPath(sceneId));
+  } catch {
+    return null;
+  }
+}
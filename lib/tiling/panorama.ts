@@ -0,0 +1,226 @@
+import sharp from 'sharp';
+import { normalizeYaw } from '@/lib/number-utils';
+import type {
+  GPanoMetadata, PanoramaInitialView, PanoramaIssue, PanoramaProjection, PanoramaRepair, PanoramaValidation
+} from './types';
+
+// frontend/lib/tiling/panorama.ts
+
+const GPANO_NUMBER_FIELDS = [
+  'FullPanoWidthPixels',
+  'FullPanoHeightPixels',
+  'CroppedAreaImageWidthPixels',
+  'CroppedAreaImageHeightPixels',
+  'CroppedAreaLeftPixels',
+  'CroppedAreaTopPixels',
+  'PoseHeadingDegrees',
+  'PosePitchDegrees',
+  'PoseRollDegrees',
+  'InitialViewHeadingDegrees',
+  'InitialViewPitchDegrees',
+  'InitialViewRollDegrees',
+  'InitialHorizontalFOVDegrees',
+] as const;
+
+// Below this width tiles look soft even at the widest FOV
+const MIN_RECOMMENDED_WIDTH = 4096;
+// Widest image the 'process' operation keeps without downscaling
+export const MAX_PANORAMA_WIDTH = 16384;
+
+function lowerFirst(name: string): string {
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+/**
+ * Read one GPano field from an XMP packet - written either as an attribute
+ * (GPano:Key="value") or as an element (<GPano:Key>value</GPano:Key>)
+ */
+function readXmpField(xmp: string, name: string): string | undefined {
+  const match = xmp.match(new RegExp(`GPano:${name}\\s*=\\s*"([^"]*)"`))
+    ?? xmp.match(new RegExp(`<GPano:${name}>([^<]*)</GPano:${name}>`));
+  return match?.[1].trim();
+}
+
+/**
+ * Extract GPano metadata from an XMP packet; undefined when no GPano fields exist
+ */
+export function parseGPano(xmp: Buffer | string | undefined): GPanoMetadata | undefined {
+  if (!xmp) return undefined;
+  const packet = xmp.toString();
+  if (!packet.includes('GPano:')) return undefined;
+
+  const gpano: GPanoMetadata = {};
+  const projectionType = readXmpField(packet, 'ProjectionType');
+  if (projectionType) gpano.projectionType = projectionType.toLowerCase();
+  const usePanoramaViewer = readXmpField(packet, 'UsePanoramaViewer');
+  if (usePanoramaViewer) gpano.usePanoramaViewer = usePanoramaViewer.toLowerCase() === 'true';
+
+  for (const field of GPANO_NUMBER_FIELDS) {
+    const raw = readXmpField(packet, field);
+    if (raw && Number.isFinite(Number(raw))) {
+      gpano[lowerFirst(field) as keyof Omit<GPanoMetadata, 'projectionType' | 'usePanoramaViewer'>] = Number(raw);
+    }
+  }
+
+  return gpano;
+}
+
+// Viewer FOV is vertical; GPano's is horizontal - convert assuming a 16:9 viewport
+const VIEWPORT_ASPECT = 16 / 9;
+
+function normalizeDegrees(degrees: number): number {
+  const wrapped = normalizeYaw(degrees);
+  return Math.round(wrapped * 10) / 10;
+}
+
+/**
+ * Map GPano pose / initial view fields to scene defaults. Yaw 0 is the panorama
+ * centre, whose compass heading is PoseHeadingDegrees; InitialViewHeadingDegrees
+ * is a compass heading too, so the initial yaw is their difference
+ */
+export function getInitialView(gpano: GPanoMetadata | undefined): PanoramaInitialView | undefined {
+  if (!gpano) return undefined;
+
+  const view: PanoramaInitialView = {};
+  const northOffset = gpano.poseHeadingDegrees;
+  if (northOffset !== undefined) {
+    view.northOffset = normalizeDegrees(northOffset);
+  }
+  if (gpano.initialViewHeadingDegrees !== undefined) {
+    view.yaw = normalizeDegrees(gpano.initialViewHeadingDegrees - (northOffset ?? 0));
+  }
+  if (gpano.initialViewPitchDegrees !== undefined) {
+    view.pitch = Math.max(-90, Math.min(90, gpano.initialViewPitchDegrees));
+  }
+  if (gpano.initialHorizontalFOVDegrees !== undefined) {
+    const horizontal = (gpano.initialHorizontalFOVDegrees * Math.PI) / 180;
+    const vertical = (2 * Math.atan(Math.tan(horizontal / 2) / VIEWPORT_ASPECT) * 180) / Math.PI;
+    view.fov = Math.round(Math.max(30, Math.min(120, vertical)));
+  }
+
+  return Object.keys(view).length ? view : undefined;
+}
+
+/**
+ * Position of the image inside the full panorama from the GPano crop fields,
+ * scaled in case the image was resized after the metadata was written
+ */
+function getPadRepair(gpano: GPanoMetadata | undefined, width: number, height: number): PanoramaRepair | undefined {
+  if (!gpano?.fullPanoWidthPixels || !gpano.fullPanoHeightPixels) return undefined;
+
+  const scale = gpano.croppedAreaImageWidthPixels ? width / gpano.croppedAreaImageWidthPixels : 1;
+  const fullWidth = Math.round(gpano.fullPanoWidthPixels * scale);
+  const fullHeight = Math.round(gpano.fullPanoHeightPixels * scale);
+  const left = Math.min(Math.round((gpano.croppedAreaLeftPixels ?? 0) * scale), Math.max(0, fullWidth - width));
+  const top = Math.min(Math.round((gpano.croppedAreaTopPixels ?? 0) * scale), Math.max(0, fullHeight - height));
+
+  // Nothing to pad - the image already is the full panorama
+  if (fullWidth <= width && fullHeight <= height) return undefined;
+
+  return { strategy: 'pad', fullWidth: Math.max(fullWidth, width), fullHeight: Math.max(fullHeight, height), left, top };
+}
+
+function getProjection(gpano: GPanoMetadata | undefined, aspectRatio: number, partial: boolean): PanoramaProjection {
+  const declared = gpano?.projectionType;
+  if (declared === 'cylindrical') return 'cylindrical';
+  if (declared && declared !== 'equirectangular') return 'unknown';
+  if (declared === 'equirectangular' || Math.abs(aspectRatio - 2) < 0.01) {
+    return partial ? 'partial-equirectangular' : 'equirectangular';
+  }
+  return 'unknown';
+}
+
+/**
+ * Inspect an uploaded panorama: aspect ratio, resolution, EXIF/XMP GPano
+ * metadata and projection, plus a pad repair when the GPano crop data allows it
+ */
+export async function validatePanorama(buffer: Buffer): Promise<PanoramaValidation> {
+  const metadata = await sharp(buffer).metadata();
+  const width = metadata.width || 0;
+  const height = metadata.height || 0;
+  const aspectRatio = height ? width / height : 0;
+
+  const gpano = parseGPano(metadata.xmp);
+  const repair = getPadRepair(gpano, width, height);
+  const projection = getProjection(gpano, aspectRatio, !!repair);
+  const issues: PanoramaIssue[] = [];
+
+  if (projection === 'cylindrical' || projection === 'unknown') {
+    issues.push({
+      code: 'projection',
+      severity: projection === 'cylindrical' ? 'error' : 'warning',
+      message: gpano?.projectionType
+        ? `Projection "${gpano.projectionType}" is not equirectangular`
+        : 'No projection metadata and the image is not 2:1 - it may not be a 360° panorama',
+    });
+  }
+
+  if (repair) {
+    const coverage = Math.round((width * height * 100) / (repair.fullWidth * repair.fullHeight));
+    issues.push({
+      code: 'partial',
+      severity: 'warning',
+      message: `Partial panorama covering ${coverage}% of the sphere - can be padded to ${repair.fullWidth}x${repair.fullHeight}`,
+    });
+  } else if (Math.abs(aspectRatio - 2) >= 0.01) {
+    issues.push({
+      code: 'aspect-ratio',
+      severity: 'warning',
+      message: `Aspect ratio ${aspectRatio.toFixed(2)}:1 is not 2:1 and will be stretched (no GPano crop data to pad with)`,
+    });
+  }
+
+  if (width < MIN_RECOMMENDED_WIDTH) {
+    issues.push({
+      code: 'low-resolution',
+      severity: 'warning',
+      message: `Width ${width}px is below the recommended ${MIN_RECOMMENDED_WIDTH}px`,
+    });
+  } else if ((repair?.fullWidth ?? width) > MAX_PANORAMA_WIDTH) {
+    issues.push({
+      code: 'oversized',
+      severity: 'warning',
+      message: `Will be downscaled to ${MAX_PANORAMA_WIDTH}px wide`,
+    });
+  }
+
+  if (metadata.orientation && metadata.orientation !== 1) {
+    issues.push({
+      code: 'orientation',
+      severity: 'warning',
+      message: `EXIF orientation ${metadata.orientation} is ignored - the image is used as stored`,
+    });
+  }
+
+  return {
+    valid: !issues.some((issue) => issue.severity === 'error'),
+    width,
+    height,
+    aspectRatio,
+    projection,
+    exif: { present: !!metadata.exif, orientation: metadata.orientation },
+    gpano,
+    initialView: getInitialView(gpano),
+    issues,
+    repair,
+  };
+}
+
+/**
+ * Place a partial panorama on its full equirectangular canvas (black fill)
+ * instead of stretching it to 2:1
+ */
+export async function padPanorama(buffer: Buffer, repair: PanoramaRepair): Promise<Buffer> {
+  const { width = 0, height = 0 } = await sharp(buffer).metadata();
+
+  return sharp(buffer)
+    .extend({
+      left: repair.left,
+      top: repair.top,
+      right: Math.max(0, repair.fullWidth - repair.left - width),
+      bottom: Math.max(0, repair.fullHeight - repair.top - height),
+      background: { r: 0, g: 0, b: 0, alpha: 1 },
+    })
+    .png({ compressionLevel: 0 })
+    .toBuffer();
+}
@@ -0,0 +1,263 @@
+import sharp from 'sharp';
+import { resolveTiling } from './options';
+import type {
+  ExtraTileFormat, PyramidLevel, TilePyramid, TileProgressHandler, TileRecord, TileSink, TilingOptions
+} from './types';
+
+// frontend/lib/tiling/pyramid.ts
+export interface GenerateTilesOptions {
+  // Where each file is written as soon as it is encoded
+  sink: TileSink;
+  tiling?: TilingOptions;
+  onProgress?: TileProgressHandler;
+  // Render only the tiles this accepts (re-rendering after a redaction); the preview is always written
+  shouldRender?: (level: PyramidLevel, row: number, col: number) => boolean;
+}
+
+/**
+ * Encode a tile region in one of the optional formats (served to browsers that decode it)
+ */
+function encodeExtraFormat(tile: sharp.Sharp, format: ExtraTileFormat): Promise<Buffer> {
+  return format === 'avif'
+    ? tile.avif({ quality: 60, chromaSubsampling: '4:4:4', effort: 4 }).toBuffer()
+    : tile.webp({ quality: 90, smartSubsample: true, effort: 4 }).toBuffer();
+}
+
+/**
+ * Surround a level image with an `overlap`-pixel gutter: columns wrap around the
+ * 0°/360° seam, rows repeat the edge (nothing lies beyond the poles)
+ */
+async function addGutter(image: Buffer, overlap: number) {
+  const { data, info } = await sharp(image)
+    .extend({ top: overlap, bottom: overlap, extendWith: 'copy' })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const { width, height, channels } = info;
+  const rowBytes = width * channels;
+  const gutterBytes = overlap * channels;
+  const paddedRowBytes = rowBytes + gutterBytes * 2;
+  const padded = Buffer.alloc(paddedRowBytes * height);
+
+  for (let y = 0; y < height; y++) {
+    const source = y * rowBytes;
+    const target = y * paddedRowBytes;
+    data.copy(padded, target, source + rowBytes - gutterBytes, source + rowBytes);
+    data.copy(padded, target + gutterBytes, source, source + rowBytes);
+    data.copy(padded, target + gutterBytes + rowBytes, source, source + gutterBytes);
+  }
+
+  return { data: padded, raw: { width: width + overlap * 2, height, channels } };
+}
+
+export async function generateAdvancedTiles(
+  buffer: Buffer,
+  originalWidth: number,
+  originalHeight: number,
+  sceneId: string,
+  { sink, tiling, onProgress, shouldRender }: GenerateTilesOptions
+): Promise<TilePyramid> {
+  const plan = resolveTiling(originalWidth, tiling);
+  const { tileSize, overlap, formats } = plan;
+  // JPEG is always written; the rest are optional siblings with the same basename
+  const extraFormats = formats.filter((format): format is ExtraTileFormat => format !== 'jpg');
+  console.log(`Using tile size: ${tileSize}x${tileSize}, overlap ${overlap}px, formats ${formats.join('/')}`);
+  
+  const tiles: TileRecord[] = [];
+  
+  // Generate preview first (fast)
+  // Nadir/zenith patches are already composited into `buffer` (see nadir.ts)
+  const preview = await sharp(buffer)
+    .resize(512, 256, { fit: 'fill' })
+    .jpeg({ quality: 70 })
+    .toBuffer();
+  
+  tiles.push({
+    level: -1,
+    row: 0,
+    col: 0,
+    key: 'preview.jpg',
+    url: await sink.write('preview.jpg', preview, 'image/jpeg')
+  });
+  
+  // Level plan from the tiling options (default: 3 levels, 1/4 → full, capped at 12K)
+  const levels = plan.levels;
+  
+  console.log(`Image ${originalWidth}x${originalHeight} → Levels:`, levels);
+  
+  console.log(`\\nGenerating ${levels.length} resolution levels for optimal 360° panorama:`);
+  
+  // Generate tiles for each level
+  for (const levelConfig of levels) {
+    const { level, width: levelWidth, height: levelHeight } = levelConfig;
+    
+    const cols = Math.ceil(levelWidth / tileSize);
+    const rows = Math.ceil(levelHeight / tileSize);
+    const totalTiles = cols * rows;
+    const levelInfo: PyramidLevel = { level, width: levelWidth, height: levelHeight, tilesX: cols, tilesY: rows };
+    const accepts = (row: number, col: number) => !shouldRender || shouldRender(levelInfo, row, col);
+    
+    if (shouldRender && !Array.from({ length: totalTiles }, (_, i) => accepts(Math.floor(i / cols), i % cols)).some(Boolean)) {
+      console.log(`  Level ${level}: no tiles to render`);
+      continue;
+    }
+    
+    console.log(`  Level ${level}: ${levelWidth}x${levelHeight} px, ${cols}x${rows} tiles (${tileSize}x${tileSize} each) = ${totalTiles} tiles total`);
+    onProgress?.({ level, width: levelWidth, height: levelHeight, tilesTotal: totalTiles, tilesDone: 0 });
+    
+    // Resize image for this level
+    // For highest level, use original if dimensions match
+    let levelImage;
+    if (level === levels.length - 1 && levelWidth === originalWidth && levelHeight === originalHeight) {
+      // Use original for highest level to preserve quality
+      levelImage = buffer;
+      console.log(`    Using original image for level ${level}`);
+    } else {
+      // Resize for lower levels
+      levelImage = await sharp(buffer)
+        .resize(levelWidth, levelHeight, {
+          fit: 'fill',
+          kernel: sharp.kernel.lanczos3, // High quality resizing
+          withoutEnlargement: true // Don't enlarge beyond original
+        })
+        .jpeg({ 
+          quality: 100, // Maximum quality for resized levels
+          chromaSubsampling: '4:4:4'
+        })
+        .toBuffer();
+    }
+    
+    console.log(`    Resized to ${levelWidth}x${levelHeight} for level ${level}`);
+    
+    // With a gutter, tile (x, y) of the padded image spans [x - overlap, x + w + overlap)
+    const gutter = overlap > 0 ? await addGutter(levelImage, overlap) : null;
+    const tileSource = () => gutter
+      ? sharp(gutter.data, { raw: gutter.raw })
+      : sharp(levelImage);
+    
+    // Generate tiles for this level in parallel batches
+    const tilePromises: Promise<TileRecord>[] = [];
+    
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        if (!accepts(row, col)) continue;
+        const x = col * tileSize;
+        const y = row * tileSize;
+        const w = Math.min(tileSize, levelWidth - x);
+        const h = Math.min(tileSize, levelHeight - y);
+        
+        // Create promise for each tile
+        const tilePromise = (async () => {
+          let tileBuffer;
+          if (w === tileSize && h === tileSize) {
+            // Full tile
+            tileBuffer = await tileSource()
+              .extract({
+                left: x,
+                top: y,
+                width: w + overlap * 2,
+                height: h + overlap * 2
+              })
+              .jpeg({
+                quality: 98, // Very high quality to minimize artifacts
+                progressive: false, // Disable progressive for better color accuracy
+                mozjpeg: false, // Disable mozjpeg which can cause color shifts
+                chromaSubsampling: '4:4:4', // Best color quality
+                force: true
+              })
+              .toBuffer();
+          } else {
+            // Edge tile - only extract what's available, no padding
+            // This prevents white/black borders on edge tiles
+            console.log(`Edge tile at [${row},${col}]: ${w}x${h}`);
+            
+            // Just extract the partial tile without resizing
+            // The viewer will handle partial tiles correctly
+            tileBuffer = await tileSource()
+              .extract({
+                left: x,
+                top: y,
+                width: w + overlap * 2,
+                height: h + overlap * 2
+              })
+              .jpeg({
+                quality: 98, // Very high quality to minimize artifacts
+                progressive: false, // Disable progressive for better color accuracy
+                mozjpeg: false, // Disable mozjpeg which can cause color shifts
+                chromaSubsampling: '4:4:4', // Best color quality
+                force: true
+              })
+              .toBuffer();
+          }
+          
+          // Hand the tile to the sink right away so buffers don't pile up
+          const key = `l${level}_${row}_${col}.jpg`;
+          const url = await sink.write(key, tileBuffer, 'image/jpeg');
+          
+          for (const format of extraFormats) {
+            const region = tileSource().extract({ left: x, top: y, width: w + overlap * 2, height: h + overlap * 2 });
+            await sink.write(`l${level}_${row}_${col}.${format}`, await encodeExtraFormat(region, format), `image/${format}`);
+          }
+          
+          return { level, row, col, key, url };
+        })();
+        
+        tilePromises.push(tilePromise);
+      }
+    }
+    
+    // Process tiles in parallel (batch of 10 at a time to avoid memory issues)
+    const batchSize = 10;
+    for (let i = 0; i < tilePromises.length; i += batchSize) {
+      const batch = tilePromises.slice(i, i + batchSize);
+      const batchResults = await Promise.all(batch);
+      tiles.push(...batchResults);
+      onProgress?.({
+        level,
+        width: levelWidth,
+        height: levelHeight,
+        tilesTotal: totalTiles,
+        tilesDone: Math.min(totalTiles, i + batchSize)
+      });
+    }
+    
+    console.log(`    Generated ${tilePromises.length} tiles for level ${level}`);
+  }
+  
+  // Log summary
+  const tileCounts = new Map<number, number>();
+  tiles.forEach(tile => {
+    if (tile.level >= 0) {
+      tileCounts.set(tile.level, (tileCounts.get(tile.level) || 0) + 1);
+    }
+  });
+  
+  console.log('\nTile generation summary:');
+  tileCounts.forEach((count, level) => {
+    console.log(`  Level ${level}: ${count} tiles`);
+  });
+  console.log(`  Preview: 1 file`);
+  console.log(`  Total: ${tiles.length} files`);
+  
+  const pyramidLevels: PyramidLevel[] = levels.map(({ level, width, height }) => ({
+    level,
+    width,
+    height,
+    tilesX: Math.ceil(width / tileSize),
+    tilesY: Math.ceil(height / tileSize)
+  }));
+  
+  return {
+    tileSize,
+    tiling: {
+      mode: plan.mode,
+      levelCount: plan.levelCount,
+      tileSize,
+      overlap,
+      formats,
+      maxResolution: plan.maxResolution
+    },
+    levels: pyramidLevels,
+    tiles
+  };
+}
@@ -0,0 +1,278 @@
+import sharp from 'sharp';
+import { resolveTiling } from './options';
+import { generateAdvancedTiles } from './pyramid';
+import type { ExtraTileFormat, PyramidLevel, TilesManifest, TileSink } from './types';
+import type { RedactionRegion, SpherePoint } from '@/types/tour';
+import { normalizeYaw } from '@/lib/number-utils';
+
+// frontend/lib/tiling/redaction.ts
+
+interface PixelBounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export interface RedactedTiles {
+  // Redacted panorama, to be published in place of the original
+  source: Buffer;
+  manifest: TilesManifest;
+  tileCount: number;
+}
+
+const MAX_REGIONS = 200;
+const MAX_POLYGON_POINTS = 64;
+// The blur is rendered on a proxy this wide (0.5° per pixel) - coarse enough that
+// faces and plates can't be recovered at any zoom level
+const PROXY_WIDTH = 720;
+const PROXY_BLUR_SIGMA = 1.5;
+// Level resizing (lanczos3) pulls in pixels this far from a tile's edge
+const RESAMPLE_MARGIN = 3;
+
+function isSpherePoint(point: unknown): point is SpherePoint {
+  const { yaw, pitch } = (point ?? {}) as SpherePoint;
+  return Number.isFinite(yaw) && Number.isFinite(pitch) && pitch >= -90 && pitch <= 90;
+}
+
+/**
+ * Read redaction regions from JSON (a request field or scene.redactions_json)
+ * Throws with a user-facing message when the value is malformed
+ */
+export function parseRedactions(raw: string | undefined): RedactionRegion[] {
+  if (!raw) return [];
+
+  let regions: RedactionRegion[];
+  try {
+    regions = JSON.parse(raw);
+  } catch {
+    throw new Error('redactions must be valid JSON');
+  }
+
+  if (!Array.isArray(regions)) {
+    throw new Error('redactions must be an array of regions');
+  }
+  if (regions.length > MAX_REGIONS) {
+    throw new Error(`At most ${MAX_REGIONS} redaction regions are supported`);
+  }
+
+  regions.forEach((region, index) => {
+    if (region?.shape !== 'rect' && region?.shape !== 'polygon') {
+      throw new Error(`Redaction ${index + 1}: shape must be 'rect' or 'polygon'`);
+    }
+    if (!Array.isArray(region.points) || !region.points.every(isSpherePoint)) {
+      throw new Error(`Redaction ${index + 1}: points need a yaw and a pitch between -90 and 90`);
+    }
+    if (region.shape === 'rect' && region.points.length !== 2) {
+      throw new Error(`Redaction ${index + 1}: a rect needs exactly 2 corners`);
+    }
+    if (region.shape === 'polygon' && (region.points.length < 3 || region.points.length > MAX_POLYGON_POINTS)) {
+      throw new Error(`Redaction ${index + 1}: a polygon needs 3 to ${MAX_POLYGON_POINTS} points`);
+    }
+  });
+
+  return regions;
+}
+
+/**
+ * Region outline with yaws unwrapped to run continuously (they may pass 180°,
+ * meaning the region crosses the seam)
+ */
+function regionOutline(region: RedactionRegion): SpherePoint[] {
+  if (region.shape === 'rect') {
+    const [start, end] = region.points;
+    let endYaw = end.yaw;
+    while (endYaw < start.yaw) endYaw += 360;
+    const top = Math.max(start.pitch, end.pitch);
+    const bottom = Math.min(start.pitch, end.pitch);
+    return [
+      { yaw: start.yaw, pitch: top },
+      { yaw: endYaw, pitch: top },
+      { yaw: endYaw, pitch: bottom },
+      { yaw: start.yaw, pitch: bottom },
+    ];
+  }
+
+  const outline: SpherePoint[] = [];
+  region.points.forEach((point, index) => {
+    if (index === 0) {
+      outline.push(point);
+      return;
+    }
+    // Take the short way round from the previous vertex
+    const previous = outline[index - 1].yaw;
+    const delta = normalizeYaw(point.yaw - previous);
+    outline.push({ yaw: previous + delta, pitch: point.pitch });
+  });
+  return outline;
+}
+
+function toPixels(point: SpherePoint, width: number, height: number): [number, number] {
+  return [((point.yaw + 180) / 360) * width, ((90 - point.pitch) / 180) * height];
+}
+
+/**
+ * Every region outline in panorama pixels, repeated one panorama width to each
+ * side so shapes crossing the seam cover both edges
+ */
+function regionPolygons(regions: RedactionRegion[], width: number, height: number): Array<Array<[number, number]>> {
+  return regions.flatMap((region) => {
+    const pixels = regionOutline(region).map((point) => toPixels(point, width, height));
+    return [-width, 0, width].map((shift) => pixels.map(([x, y]): [number, number] => [x + shift, y]));
+  });
+}
+
+function polygonBounds(polygon: Array<[number, number]>, margin: number): PixelBounds {
+  const xs = polygon.map(([x]) => x);
+  const ys = polygon.map(([, y]) => y);
+  return {
+    left: Math.min(...xs) - margin,
+    top: Math.min(...ys) - margin,
+    right: Math.max(...xs) + margin,
+    bottom: Math.max(...ys) + margin,
+  };
+}
+
+function proxySize(width: number, height: number) {
+  const proxyWidth = Math.max(16, Math.min(PROXY_WIDTH, Math.round(width / 4)));
+  return { proxyWidth, proxyHeight: Math.max(8, Math.round((proxyWidth * height) / width)), scale: width / proxyWidth };
+}
+
+/**
+ * Blur the regions out of an equirectangular panorama
+ * Returns the original buffer when there is nothing to redact
+ */
+export async function redactPanorama(buffer: Buffer, regions: RedactionRegion[]): Promise<Buffer> {
+  if (!regions.length) return buffer;
+
+  const { data, info } = await sharp(buffer)
+    .removeAlpha()
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+  const { proxyWidth, proxyHeight, scale } = proxySize(width, height);
+  const raw = { width, height, channels: 3 as const };
+  console.log(`Redacting ${regions.length} region(s) from ${width}x${height} panorama`);
+
+  // Downscale + blur + upscale: a strong blur at a fixed angular size, cheap at any resolution
+  const proxy = await sharp(data, { raw })
+    .resize(proxyWidth, proxyHeight, { fit: 'fill' })
+    .blur(PROXY_BLUR_SIGMA)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const blurred = await sharp(proxy.data, { raw: { width: proxyWidth, height: proxyHeight, channels: 3 } })
+    .resize(width, height, { fit: 'fill', kernel: sharp.kernel.cubic })
+    .raw()
+    .toBuffer();
+
+  const shapes = regionPolygons(regions, width, height)
+    .map((polygon) => `<polygon points="${polygon.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ')}"/>`)
+    .join('');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<rect width="100%" height="100%" fill="#000"/><g fill="#fff">${shapes}</g></svg>`;
+  // Soft edge about one proxy pixel wide
+  const mask = await sharp(Buffer.from(svg))
+    .extractChannel(0)
+    .blur(Math.max(0.5, scale / 2))
+    .raw()
+    .toBuffer();
+
+  const overlay = await sharp(blurred, { raw })
+    .joinChannel(mask, { raw: { width, height, channels: 1 } })
+    .raw()
+    .toBuffer();
+
+  return sharp(data, { raw })
+    .composite([{ input: overlay, raw: { width, height, channels: 4 } }])
+    .jpeg({ quality: 100, chromaSubsampling: '4:4:4' })
+    .toBuffer();
+}
+
+/**
+ * Accepts the tiles whose pixels (gutter and resampling margin included) can
+ * differ once the regions are blurred
+ */
+function touchedTileFilter(regions: RedactionRegion[], width: number, height: number, tileSize: number, overlap: number) {
+  // Mask feather reaches about three blur sigmas past the outline
+  const margin = Math.ceil(proxySize(width, height).scale * 1.5) + 2;
+  const bounds = regionPolygons(regions, width, height).map((polygon) => polygonBounds(polygon, margin));
+
+  return (level: PyramidLevel, row: number, col: number) => {
+    const scale = width / level.width;
+    const pad = overlap + RESAMPLE_MARGIN;
+    const left = (col * tileSize - pad) * scale;
+    const top = (row * tileSize - pad) * scale;
+    const right = (Math.min(level.width, (col + 1) * tileSize) + pad) * scale;
+    const bottom = (Math.min(level.height, (row + 1) * tileSize) + pad) * scale;
+    return bounds.some((box) => box.left < right && box.right > left && box.top < bottom && box.bottom > top);
+  };
+}
+
+function withRevision(url: string, revision: string): string {
+  return `${url.replace(/\?.*$/, '')}?v=${revision}`;
+}
+
+/**
+ * Re-render a published scene with the given regions blurred: only tiles the new
+ * or previously applied regions touch are rewritten (at every level, in every
+ * format), and their manifest URLs get a revision so cached copies aren't reused
+ */
+export async function redactSceneTiles(
+  original: Buffer,
+  regions: RedactionRegion[],
+  manifest: TilesManifest,
+  sceneId: string,
+  sink: TileSink
+): Promise<RedactedTiles> {
+  if (!manifest.tiling) {
+    throw new Error('This scene was tiled before tiling parameters were recorded - re-upload it to enable redaction');
+  }
+
+  const { width = 0, height = 0 } = await sharp(original).metadata();
+  const { mode, levelCount, tileSize, overlap, formats, maxResolution } = manifest.tiling;
+  const tiling = {
+    levels: mode === 'auto' ? 'auto' as const : levelCount,
+    tileSize,
+    overlap,
+    formats: formats.filter((format): format is ExtraTileFormat => format !== 'jpg'),
+    maxResolution,
+  };
+
+  const plan = resolveTiling(width, tiling);
+  const matches = plan.levels.length === manifest.levels.length
+    && plan.levels.every((level, index) => level.width === manifest.levels[index].width);
+  if (!matches) {
+    throw new Error('The stored original does not match the published tiles - re-upload the scene');
+  }
+
+  // Regions removed since the last run must be re-rendered too, to bring the original pixels back
+  const touched = [...regions, ...(manifest.redaction?.regions ?? [])];
+  const source = await redactPanorama(original, regions);
+  const pyramid = await generateAdvancedTiles(source, width, height, sceneId, {
+    sink,
+    tiling,
+    shouldRender: touched.length ? touchedTileFilter(touched, width, height, tileSize, overlap) : () => false,
+  });
+
+  const revision = Date.now().toString(36);
+  const rendered = new Map(pyramid.tiles.map((tile) => [`${tile.level}:${tile.row}:${tile.col}`, tile]));
+  const tiles = manifest.tiles.map((tile) => {
+    const update = rendered.get(`${tile.level}:${tile.row}:${tile.col}`);
+    const url = update?.url ?? tile.url;
+    return update && url ? { ...tile, url: withRevision(url, revision) } : tile;
+  });
+  const previewUrl = rendered.get('-1:0:0')?.url;
+
+  return {
+    source,
+    manifest: {
+      ...manifest,
+      preview: previewUrl ? withRevision(previewUrl, revision) : manifest.preview,
+      tiles,
+      version: revision,
+      redaction: regions.length ? { revision, regions } : undefined,
+    },
+    tileCount: pyramid.tiles.length,
+  };
+}
@@ -0,0 +1,85 @@
+import { parseNadirPatch } from './nadir';
+import { parseRedactions } from './redaction';
+import type { NadirPatchSettings, RedactionRegion, Scene, Tour } from '@/types/tour';
+
+// frontend/lib/tiling/scene-settings.ts
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:5555/api';
+
+/**
+ * Tour and scene settings that shape what the server publishes for a scene
+ */
+export interface SceneSettings {
+  tourId: string;
+  scene: Scene;
+  nadirPatch?: NadirPatchSettings;
+  // Regions to blur out of everything published for the scene
+  redactions: RedactionRegion[];
+}
+
+async function fetchBackend<T>(path: string, authorization: string | null, init?: RequestInit): Promise<T | null> {
+  const response = await fetch(`${BACKEND_URL}${path}`, {
+    ...init,
+    headers: {
+      ...(init?.body ? { 'Content-Type': 'application/json' } : {}),
+      ...(authorization ? { Authorization: authorization } : {}),
+    },
+    cache: 'no-store',
+  });
+  // The caller can't access it - treated the same as a missing one
+  if (response.status === 401 || response.status === 403 || response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Backend request ${path} failed (${response.status})`);
+  }
+  return response.json();
+}
+
+/**
+ * Load a scene's settings from the backend with the caller's credentials,
+ * rather than trusting copies sent by the client
+ * Returns null when the scene doesn't exist in the tour or the caller can't access it
+ */
+export async function loadSceneSettings(
+  tourId: string,
+  sceneId: string,
+  authorization: string | null
+): Promise<SceneSettings | null> {
+  const [tour, scenes] = await Promise.all([
+    fetchBackend<Tour>(`tours/${tourId}`, authorization),
+    fetchBackend<Scene[]>(`tours/${tourId}/scenes`, authorization),
+  ]);
+  const scene = scenes?.find((candidate) => candidate.id === sceneId);
+  if (!tour || !scene) return null;
+
+  return {
+    tourId,
+    scene,
+    nadirPatch: parseNadirPatch(tour.nadir_patch_json),
+    redactions: parseRedactions(scene.redactions_json),
+  };
+}
+
+/**
+ * Update a scene on the backend as the caller - the backend decides whether
+ * they may change it. Returns null when they may not
+ */
+export async function saveScene(
+  sceneId: string,
+  patch: Partial<Scene>,
+  authorization: string | null
+): Promise<Scene | null> {
+  return fetchBackend<Scene>(`scenes/${sceneId}`, authorization, {
+    method: 'PUT',
+    body: JSON.stringify(patch),
+  });
+}
+
+/**
+ * Check with the backend that the caller may change a scene, without changing
+ * it (an empty update). Done before anything of the scene's is written to storage
+ */
+export async function authorizeSceneWrite(sceneId: string, authorization: string | null): Promise<boolean> {
+  return (await saveScene(sceneId, {}, authorization)) !== null;
+}
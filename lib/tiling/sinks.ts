@@ -0,0 +1,226 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { S3Client, DeleteObjectCommand, GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import type { TileJobStore } from './job-store';
+import type { TileSink } from './types';
+
+// frontend/lib/tiling/sinks.ts
+
+// R2 configuration (same variables as /api/upload-to-r2)
+const R2_ACCOUNT_ID = process.env.NEXT_PUBLIC_R2_ACCOUNT_ID;
+const R2_ACCESS_KEY_ID = process.env.NEXT_PUBLIC_R2_ACCESS_KEY_ID;
+const R2_SECRET_ACCESS_KEY = process.env.NEXT_PUBLIC_R2_SECRET_ACCESS_KEY;
+const R2_BUCKET_NAME = process.env.NEXT_PUBLIC_R2_BUCKET_NAME || 'test';
+const R2_PUBLIC_URL = process.env.NEXT_PUBLIC_R2_PUBLIC_URL || 'https://test.thenimto.com';
+
+// Scene keys are reused (re-uploads and redaction overwrite tiles in place), so
+// caches may keep a copy but must revalidate it before every use
+export const SCENE_CACHE_CONTROL = 'public, no-cache';
+
+const CONTENT_TYPES: Record<string, string> = {
+  json: 'application/json',
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+/**
+ * Content type of a generated file, from its extension (tiles default to JPEG)
+ */
+export function contentTypeForKey(key: string): string {
+  return CONTENT_TYPES[key.split('.').pop() || ''] || 'image/jpeg';
+}
+
+const STORAGE_ID_PATTERN = /^[\w-]{1,128}$/;
+
+function parseStorageId(formData: FormData, field: 'sceneId' | 'tourId'): string {
+  const id = formData.get(field);
+  if (typeof id !== 'string' || !STORAGE_ID_PATTERN.test(id)) {
+    throw new Error(`${field} must contain only letters, digits, underscores and dashes`);
+  }
+  return id;
+}
+
+/**
+ * Read the scene id from a multipart request - it becomes part of storage keys
+ * and file paths, so only word characters and dashes are accepted
+ */
+export function parseSceneId(formData: FormData): string {
+  return parseStorageId(formData, 'sceneId');
+}
+
+/**
+ * Read the tour id from a multipart request (same rules as scene ids)
+ */
+export function parseTourId(formData: FormData): string {
+  return parseStorageId(formData, 'tourId');
+}
+
+/**
+ * Storage key of a file this app published - an R2 public URL or a local
+ * root-relative path - or null for anything else (including keys with '..')
+ */
+export function storageKeyFromUrl(url: string): string | null {
+  let pathname: string;
+  if (url.startsWith('/') && !url.startsWith('//')) {
+    pathname = url.split(/[?#]/)[0];
+  } else {
+    try {
+      const parsed = new URL(url);
+      const publicUrl = new URL(R2_PUBLIC_URL);
+      const publicPath = publicUrl.pathname.replace(/\/$/, '');
+      if (parsed.origin !== publicUrl.origin || !parsed.pathname.startsWith(`${publicPath}/`)) return null;
+      pathname = parsed.pathname.slice(publicPath.length);
+    } catch {
+      return null;
+    }
+  }
+
+  let key: string;
+  try {
+    key = decodeURIComponent(pathname).replace(/^\/+/, '');
+  } catch {
+    return null;
+  }
+  return key && path.posix.normalize(key) === key && !key.startsWith('..') ? key : null;
+}
+
+/**
+ * Read a published file back by its storage key (R2 when configured, else the local stand-in)
+ */
+export async function readStorageObject(key: string): Promise<Buffer> {
+  const client = process.env.TILE_STORAGE === 'local' ? null : getS3Client();
+  if (client) {
+    const object = await client.send(new GetObjectCommand({ Bucket: R2_BUCKET_NAME, Key: key }));
+    if (!object.Body) {
+      throw new Error(`Storage object ${key} is empty`);
+    }
+    return Buffer.from(await object.Body.transformToByteArray());
+  }
+
+  const root = path.resolve(process.env.TILE_STORAGE_DIR || 'public');
+  const filePath = path.resolve(root, key);
+  if (!filePath.startsWith(`${root}${path.sep}`)) {
+    throw new Error(`Refusing to read outside ${root}: ${key}`);
+  }
+  return fs.readFile(filePath);
+}
+
+/**
+ * Collects files in memory (used by the synchronous 'tiles' operation)
+ */
+export class MemoryTileSink implements TileSink {
+  readonly files = new Map<string, Buffer>();
+
+  async write(key: string, buffer: Buffer) {
+    this.files.set(key, buffer);
+    return undefined;
+  }
+}
+
+/**
+ * Writes files into a tile job's result area
+ */
+export class JobStoreTileSink implements TileSink {
+  constructor(private store: TileJobStore, private jobId: string) {}
+
+  async write(key: string, buffer: Buffer) {
+    await this.store.putFile(this.jobId, key, buffer);
+    return undefined;
+  }
+}
+
+/**
+ * Uploads each file straight to R2 under <prefix>/<key>
+ */
+export class ObjectStorageTileSink implements TileSink {
+  constructor(private client: S3Client, private prefix: string) {}
+
+  async write(key: string, buffer: Buffer, contentType: string) {
+    const objectKey = `${this.prefix}/${key}`;
+    await this.client.send(new PutObjectCommand({
+      Bucket: R2_BUCKET_NAME,
+      Key: objectKey,
+      Body: buffer,
+      ContentType: contentType,
+      CacheControl: SCENE_CACHE_CONTROL,
+    }));
+    return `${R2_PUBLIC_URL}/${objectKey}`;
+  }
+
+  async delete(key: string) {
+    await this.client.send(new DeleteObjectCommand({ Bucket: R2_BUCKET_NAME, Key: `${this.prefix}/${key}` }));
+  }
+}
+
+/**
+ * Local stand-in for object storage: writes under public/ so Next serves the files
+ */
+export class LocalTileSink implements TileSink {
+  constructor(private rootDir: string, private prefix: string) {}
+
+  async write(key: string, buffer: Buffer) {
+    const root = path.resolve(this.rootDir);
+    const filePath = path.resolve(root, this.prefix, path.basename(key));
+    // The prefix carries ids from the request - never write outside the root
+    if (!filePath.startsWith(`${root}${path.sep}`)) {
+      throw new Error(`Refusing to write outside ${root}: ${this.prefix}/${key}`);
+    }
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, buffer);
+    return `/${this.prefix}/${path.basename(key)}`;
+  }
+
+  async delete(key: string) {
+    const root = path.resolve(this.rootDir);
+    const filePath = path.resolve(root, this.prefix, path.basename(key));
+    if (!filePath.startsWith(`${root}${path.sep}`)) {
+      throw new Error(`Refusing to delete outside ${root}: ${this.prefix}/${key}`);
+    }
+    await fs.rm(filePath, { force: true });
+  }
+}
+
+let s3Client: S3Client | null | undefined;
+
+function getS3Client(): S3Client | null {
+  if (s3Client === undefined) {
+    s3Client = R2_ACCESS_KEY_ID && R2_SECRET_ACCESS_KEY && R2_ACCOUNT_ID ? new S3Client({
+      region: 'auto',
+      endpoint: `https://${R2_ACCOUNT_ID}.r2.cloudflarestorage.com`,
+      credentials: {
+        accessKeyId: R2_ACCESS_KEY_ID,
+        secretAccessKey: R2_SECRET_ACCESS_KEY,
+      },
+      forcePathStyle: true, // Use path-style URLs for R2
+    }) : null;
+  }
+  return s3Client;
+}
+
+/**
+ * Sink for publishing a scene's files under <prefix> (e.g. scenes/<id>/tiles)
+ * TILE_STORAGE=local forces the filesystem stand-in; otherwise R2 is used when configured
+ */
+export function createStorageSink(prefix: string): TileSink {
+  const client = process.env.TILE_STORAGE === 'local' ? null : getS3Client();
+  if (client) {
+    return new ObjectStorageTileSink(client, prefix);
+  }
+
+  if (process.env.TILE_STORAGE === 'r2') {
+    throw new Error('R2 storage not configured');
+  }
+
+  console.log(`R2 not configured, writing ${prefix} to local public directory`);
+  return new LocalTileSink(path.resolve(process.env.TILE_STORAGE_DIR || 'public'), prefix);
+}
+
+/**
+ * Delete a file previously published directly under <prefix>, given its public URL
+ * URLs that point anywhere else are left alone
+ */
+export async function deletePublishedFile(prefix: string, url: string | undefined): Promise<void> {
+  const key = url ? storageKeyFromUrl(url) : null;
+  if (!key || path.posix.dirname(key) !== prefix) return;
+  await createStorageSink(prefix).delete?.(path.posix.basename(key));
+}
@@ -0,0 +1,192 @@
+/**
+ * Shared types for the server-side tiling pipeline
+ * (Node.js only - imported by API routes, never by client components)
+ */
+
+import type { NadirPatchSettings, RedactionRegion } from '@/types/tour';
+
+export interface TileRecord {
+  level: number;
+  row: number;
+  col: number;
+  key: string;
+  url?: string;
+}
+
+export interface PyramidLevel {
+  level: number;
+  width: number;
+  height: number;
+  tilesX: number;
+  tilesY: number;
+}
+
+export type TileFormat = 'jpg' | 'webp' | 'avif';
+export type ExtraTileFormat = Exclude<TileFormat, 'jpg'>;
+
+export interface TilingOptions {
+  // Number of pyramid levels, or 'auto' to halve down to a single-tile base level
+  levels?: number | 'auto';
+  // Edge length of each square tile in pixels
+  tileSize?: number;
+  // Pixels of neighbouring image added on every side of each tile
+  overlap?: number;
+  // Formats encoded alongside the JPEG tiles
+  formats?: ExtraTileFormat[];
+  // Width cap for the highest level (source is downscaled beyond this)
+  maxResolution?: number;
+}
+
+// Parameters a pyramid was actually generated with (recorded in the manifest)
+export interface TilingParameters {
+  mode: 'auto' | 'fixed';
+  levelCount: number;
+  tileSize: number;
+  overlap: number;
+  // Always starts with 'jpg' (the fallback every browser decodes)
+  formats: TileFormat[];
+  maxResolution: number;
+}
+
+export interface TilePyramid {
+  tileSize: number;
+  tiling: TilingParameters;
+  levels: PyramidLevel[];
+  tiles: TileRecord[];
+}
+
+/**
+ * Destination for generated files. write() returns the public URL when the
+ * destination is publicly reachable (object storage, local public dir);
+ * those destinations can also delete() files they published
+ */
+export interface TileSink {
+  write(key: string, buffer: Buffer, contentType: string): Promise<string | undefined>;
+  delete?(key: string): Promise<void>;
+}
+
+/**
+ * Manifest stored in Scene.tiles_manifest (same shape the uploader builds client-side)
+ */
+export interface TilesManifest {
+  type: 'multires';
+  tileSize: number;
+  tiling?: TilingParameters;
+  // Gutter around every tile; tiles are (tileSize + 2 * overlap) px at most
+  overlap?: number;
+  // Every tile exists in each of these formats under the same basename
+  formats?: TileFormat[];
+  dimensions: { width: number; height: number };
+  basePath?: string;
+  preview?: string;
+  levels: PyramidLevel[];
+  tiles: TileRecord[];
+  // Changes whenever tile contents do; viewers key their persistent tile cache on it
+  version?: string;
+  // Regions blurred into the published tiles; revision is appended to re-rendered tile URLs
+  redaction?: { revision: string; regions: RedactionRegion[] };
+}
+
+export interface TileLevelProgress {
+  stage?: 'equirectangular' | 'cubemap';
+  level: number;
+  width: number;
+  height: number;
+  tilesTotal: number;
+  tilesDone: number;
+}
+
+export type TileProgressHandler = (progress: TileLevelProgress) => void;
+
+export type TileJobStatus = 'queued' | 'running' | 'complete' | 'error';
+
+// 'job' keeps results in the job store, 'storage' writes them straight to object storage
+export type TileJobDestination = 'job' | 'storage';
+
+export interface TileJobOptions {
+  destination?: TileJobDestination;
+  // Also reproject into a cubemap tile pyramid
+  cubemap?: boolean;
+  tiling?: TilingOptions;
+  // Tour's nadir/zenith branding (read from the stored tour), composited before tiling
+  nadirPatch?: NadirPatchSettings;
+  // Scene's stored redactions, blurred in before anything is published
+  redactions?: RedactionRegion[];
+}
+
+export interface TileJob {
+  id: string;
+  tourId: string;
+  sceneId: string;
+  status: TileJobStatus;
+  options: TileJobOptions;
+  createdAt: string;
+  updatedAt: string;
+  originalWidth?: number;
+  originalHeight?: number;
+  levels: TileLevelProgress[];
+  tileCount: number;
+  manifest?: TilesManifest;
+  mainImageUrl?: string;
+  cubemapManifestUrl?: string;
+  error?: string;
+}
+
+/**
+ * Google Photo Sphere (GPano) XMP fields, as found in the source image
+ */
+export interface GPanoMetadata {
+  projectionType?: string;
+  usePanoramaViewer?: boolean;
+  fullPanoWidthPixels?: number;
+  fullPanoHeightPixels?: number;
+  croppedAreaImageWidthPixels?: number;
+  croppedAreaImageHeightPixels?: number;
+  croppedAreaLeftPixels?: number;
+  croppedAreaTopPixels?: number;
+  poseHeadingDegrees?: number;
+  posePitchDegrees?: number;
+  poseRollDegrees?: number;
+  initialViewHeadingDegrees?: number;
+  initialViewPitchDegrees?: number;
+  initialViewRollDegrees?: number;
+  initialHorizontalFOVDegrees?: number;
+}
+
+export type PanoramaProjection = 'equirectangular' | 'partial-equirectangular' | 'cylindrical' | 'unknown';
+
+export interface PanoramaIssue {
+  code: 'aspect-ratio' | 'low-resolution' | 'oversized' | 'partial' | 'projection' | 'orientation';
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// Where the image sits inside the full equirectangular canvas (already scaled to image pixels)
+export interface PanoramaRepair {
+  strategy: 'pad';
+  fullWidth: number;
+  fullHeight: number;
+  left: number;
+  top: number;
+}
+
+// Scene defaults derived from GPano (yaw/pitch/fov in viewer terms, northOffset = compass heading of yaw 0)
+export interface PanoramaInitialView {
+  yaw?: number;
+  pitch?: number;
+  fov?: number;
+  northOffset?: number;
+}
+
+export interface PanoramaValidation {
+  valid: boolean;
+  width: number;
+  height: number;
+  aspectRatio: number;
+  projection: PanoramaProjection;
+  exif: { present: boolean; orientation?: number };
+  gpano?: GPanoMetadata;
+  initialView?: PanoramaInitialView;
+  issues: PanoramaIssue[];
+  repair?: PanoramaRepair;
+}
@@ -0,0 +1,17 @@
+// frontend/lib/tiling/yielding.ts
+
+// Longest stretch of synchronous pixel work before other requests get a turn
+const SLICE_MS = 16;
+
+/**
+ * For per-pixel loops that run on the route handler's event loop: await the
+ * returned function between rows and it yields once a slice has run SLICE_MS
+ */
+export function createYielder(): () => Promise<void> {
+  let sliceStart = Date.now();
+  return async () => {
+    if (Date.now() - sliceStart < SLICE_MS) return;
+    await new Promise((resolve) => setImmediate(resolve));
+    sliceStart = Date.now();
+  };
+}
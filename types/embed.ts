@@ -0,0 +1,33 @@
+// postMessage protocol between /embed/[tourId] and the page hosting its iframe.
+// Every message carries `source` so both sides can ignore unrelated traffic
+
+export const EMBED_MESSAGE_SOURCE = 'virtual-tour-embed';
+export const EMBED_PROTOCOL_VERSION = 1;
+
+export interface EmbedView {
+  yaw: number;
+  pitch: number;
+  fov: number;
+}
+
+// Host page -> embed
+export type EmbedCommand =
+  | { type: 'goToScene'; sceneId: string }
+  // Fields left out keep their current value
+  | { type: 'setView'; view: Partial<EmbedView> }
+  | { type: 'startAutoplay' }
+  | { type: 'stopAutoplay' }
+  | { type: 'getState' };
+
+// Embed -> host page
+export type EmbedEvent =
+  | { type: 'ready'; tourId: string; sceneId: string; scenes: Array<{ id: string; name: string }> }
+  | { type: 'sceneChange'; sceneId: string; sceneName: string }
+  | { type: 'hotspotClick'; hotspotId: string | null; kind: string; sceneId: string; targetSceneId: string | null }
+  | { type: 'state'; sceneId: string; view: EmbedView; autoplay: boolean }
+  | { type: 'error'; message: string };
+
+export type EmbedMessage<T extends EmbedCommand | EmbedEvent> = T & {
+  source: typeof EMBED_MESSAGE_SOURCE;
+  version: typeof EMBED_PROTOCOL_VERSION;
+};
@@ -9,8 +9,21 @@ export interface Tour extends BaseModel {
   id: string;
   name: string;
   property_id?: number;
+  // AutoplayScript as JSON - the guided tour played when autoplay is on
   autoplay_json?: string;
+  // NadirPatchSettings as JSON - composited into every scene's panorama before tiling
+  nadir_patch_json?: string;
+  // Music looped under the whole tour
   background_audio_url?: string;
+  // 0..1, defaults to AUDIO_DEFAULT_MUSIC_VOLUME
+  background_audio_volume?: number;
+  // Parent origins allowed to embed and control the tour via /embed (JSON string[])
+  embed_origins_json?: string;
+  // FloorPlan[] as JSON - shown as a minimap with a pin per scene
+  floor_plans_json?: string;
+  // TileQuality viewers load tiles at ('high' | 'balanced' | 'data-saver'); unset lets
+  // each visitor's Save-Data setting decide
+  tile_quality?: string;
   is_published: boolean;
   autoplay_enabled?: boolean;
   default_fov: number;
@@ -19,6 +32,74 @@ export interface Tour extends BaseModel {
   tour_scenes: TourScene[];
 }
 
+// Patch over a pole of the panorama (tripod at the nadir, rig/ceiling at the zenith)
+export interface PolePatch {
+  mode: 'logo' | 'blur';
+  // Branding image for 'logo' mode, drawn as a disc centred on the pole
+  logoUrl?: string;
+  // Angular radius of the patch, in degrees from the pole
+  radius: number;
+}
+
+export interface NadirPatchSettings {
+  nadir?: PolePatch;
+  zenith?: PolePatch;
+}
+
+// Scene placed on a floor plan. x/y are fractions of the plan image (0,0 = top left);
+// rotation is the plan direction yaw 0 faces, in degrees clockwise from the image's up
+export interface FloorPlanPin {
+  sceneId: string;
+  x: number;
+  y: number;
+  rotation?: number;
+}
+
+export interface FloorPlan {
+  id: string;
+  name: string;
+  imageUrl: string;
+  // Plan direction of north (clockwise from up) - pins without a rotation are
+  // oriented from their scene's north_offset instead
+  northAngle?: number;
+  pins: FloorPlanPin[];
+}
+
+export type AutoplayEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+export interface AutoplayNarration {
+  // Shown as a caption while the waypoint plays
+  text?: string;
+  audioUrl?: string;
+}
+
+// One stop of the guided tour: move to the view, then hold it
+export interface AutoplayWaypoint {
+  yaw: number;
+  pitch: number;
+  // Keeps the current fov when left out
+  fov?: number;
+  // Time to move here from the previous view
+  moveMs: number;
+  dwellMs: number;
+  easing?: AutoplayEasing;
+  narration?: AutoplayNarration;
+}
+
+export interface AutoplaySceneStep {
+  sceneId: string;
+  waypoints: AutoplayWaypoint[];
+}
+
+export interface AutoplayScript {
+  version: 1;
+  scenes: AutoplaySceneStep[];
+  // Start over after the last scene instead of stopping
+  loop?: boolean;
+  // Idle time after the viewer takes over before playback picks up again
+  idleResumeMs?: number;
+}
+
 export interface TourScene extends BaseModel {
   id: string;
   tour_id: string;
@@ -35,12 +116,36 @@ export interface Scene extends BaseModel {
   yaw: number;
   pitch: number;
   fov: number;
+  // Compass heading (degrees clockwise from north) the panorama centre (yaw 0) faces
+  north_offset?: number;
   order: number;
   priority: number;
   tour_id: string;
   hotspots: Hotspot[];
   overlays: Overlay[];
   tiles_manifest?: any;
+  // RedactionRegion[] as JSON - blurred out of every published tile
+  redactions_json?: string;
+  // Loop crossfaded in while this scene is showing
+  ambient_audio_url?: string;
+  // 0..1, defaults to AUDIO_DEFAULT_AMBIENT_VOLUME
+  ambient_audio_volume?: number;
+}
+
+// Point on the sphere: yaw 0 = panorama centre, positive = clockwise; pitch +90 = zenith
+export interface SpherePoint {
+  yaw: number;
+  pitch: number;
+}
+
+// Area blurred before publishing (faces, license plates).
+// 'rect' is two corners [top-left, bottom-right], running clockwise from the first yaw
+// to the second (so it may cross the ±180° seam); 'polygon' is 3+ vertices
+export interface RedactionRegion {
+  id: string;
+  shape: 'rect' | 'polygon';
+  points: SpherePoint[];
+  label?: string;
 }
 // interface TilesManifest {
 //   type: string;
@@ -75,12 +180,23 @@ export interface Hotspot {
   tour_id: string;
   scene_id: string;
   target_scene_id?: string;
-  kind: 'navigation' | 'info' | 'image' | 'icon' | 'text' | 'link' | 'video';
+  kind: 'navigation' | 'info' | 'image' | 'icon' | 'text' | 'link' | 'video' | 'audio';
   yaw: number;
   pitch: number;
   payload?: string;
 }
 
+// Payload of an 'audio' hotspot: a loop heard from the hotspot's direction
+export interface AudioHotspotPayload {
+  audioUrl: string;
+  // 0..1 when faced head-on
+  volume?: number;
+  title?: string;
+}
+
+// Scene change style of a navigation hotspot (payload.transition)
+export type SceneTransitionStyle = 'fade' | 'zoom' | 'cut';
+
 export interface Overlay {
   id?: string;
   tour_id: string;